@@ -73,7 +73,13 @@ export async function getRiskFactors(
     };
   }
   const historicalData = suppliers
-    .map(s => `Equipamento ${s.name} tempos de falha: ${s.failureTimes.join(', ')}`)
+    .map(s => {
+      // Grouped data: each time stands for several failures, written as "tempo (xN)"
+      const failures = s.failureTimes.map((time, i) =>
+        s.dataType?.isGrouped && s.failureCounts ? `${time} (x${s.failureCounts[i] ?? 1})` : `${time}`
+      );
+      return `Equipamento ${s.name} tempos de falha: ${failures.join(', ')}`;
+    })
     .join('\n');
 
   const prompt = `Você é um engenheiro de confiabilidade especialista. Analise os seguintes dados históricos de falha para identificar os fatores de risco mais significativos que contribuem para as falhas.
@@ -110,6 +116,21 @@ export async function getChartAnalysis(
         params.stdDev = s.params.stdDev;
     } else if (s.distribution === 'Exponential') {
         params.lambda = s.params.lambda;
+    } else if (s.distribution === 'Loglogistic') {
+        params.beta = s.params.beta;
+        params.alpha = s.params.alpha;
+    } else if (s.distribution === 'Gumbel') {
+        params.mu = s.params.mu;
+        params.sigma = s.params.sigma;
+    } else if (s.distribution === 'Gamma') {
+        params.k = s.params.k;
+        params.theta = s.params.theta;
+    } else if (s.distribution === 'GeneralizedGamma') {
+        params.mu = s.params.mu;
+        params.sigma = s.params.sigma;
+        params.q = s.params.q;
+    } else if (s.distribution === 'MixedWeibull') {
+        params.subpopulations = s.params.subpopulations;
     }
     return params;
   }), null, 2);
@@ -170,6 +191,20 @@ export async function generateRcaReport(
         }
     };
 
+    const getTendencia = () => {
+        const trend = asset.trend;
+        if (!trend) return 'Não avaliada. São necessárias pelo menos 3 falhas para os testes de tendência.';
+        const pValores = trend.tests.map(r => `${{ laplace: 'Laplace', milHdbk189: 'MIL-HDBK-189', lewisRobinson: 'Lewis-Robinson' }[r.test]} p = ${r.pValue.toFixed(3)}`).join('; ');
+        switch (trend.trend) {
+            case 'deteriorating':
+                return `**Tendência significativa de deterioração** (${pValores}). As falhas estão ficando mais frequentes ao longo do histórico, então os tempos entre falhas não são independentes e identicamente distribuídos. **A distribuição ajustada (modelo de renovação) é enganosa para este ativo**: os reparos não o deixam "como novo". Use a análise de sistema reparável (Crow-AMSAA) para projetar falhas.`;
+            case 'improving':
+                return `**Tendência significativa de melhoria** (${pValores}). As falhas estão ficando mais espaçadas, então os tempos entre falhas não são independentes e identicamente distribuídos. **A distribuição ajustada (modelo de renovação) é enganosa para este ativo**. Use a análise de sistema reparável (Crow-AMSAA) para acompanhar o crescimento de confiabilidade.`;
+            default:
+                return `Sem tendência significativa (${pValores}). Os tempos entre falhas podem ser tratados como independentes e identicamente distribuídos, o que valida o ajuste de distribuição.`;
+        }
+    };
+
     const report = `### Relatório de Análise de Causa Raiz (RCA) - ${asset.name}
 
 **1. Resumo Executivo:**
@@ -177,6 +212,7 @@ export async function generateRcaReport(
 
 **2. Análise dos Indicadores de Falha:**
 *   **Modo de Falha Predominante:** ${getModoDeFalha()}
+*   **Tendência entre Falhas (Laplace, MIL-HDBK-189, Lewis-Robinson):** ${getTendencia()}
 *   **Saúde Preditiva (PdM Health):** O índice de saúde de **${asset.pdmHealth}%** é considerado baixo, sugerindo que as tecnologias de manutenção preditiva (como análise de vibração, termografia, etc.) estão detectando anomalias significativas e um estado de degradação avançado.
 *   **Indicadores de Risco (RPN e Severidade):** O RPN (Número de Prioridade de Risco) de **${asset.rpn}** e a Severidade de **${asset.severity}** são elevados. Isso quantifica um alto risco para a operação, significando que uma falha neste ativo tem consequências graves, seja em termos de produção, segurança ou custos secundários.
 
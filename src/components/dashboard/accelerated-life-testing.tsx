@@ -0,0 +1,342 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Flame } from '@/components/icons';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/i18n/i18n-provider';
+import { fitAcceleratedLifeModel, altLife, altReliability, altQuantile, altAccelerationFactor, LIFE_STRESS_MODELS } from '@/lib/accelerated-life';
+import type { AcceleratedLifeFit, AltObservation, LifeStressModel } from '@/lib/types';
+
+const LIFE_STRESS_MODEL_OPTIONS: LifeStressModel[] = ['arrhenius', 'eyring', 'inversePowerLaw', 'temperatureHumidity'];
+
+const formSchema = z.object({
+  model: z.enum(['arrhenius', 'eyring', 'inversePowerLaw', 'temperatureHumidity']),
+  distribution: z.enum(['Weibull', 'Lognormal']),
+  data: z.string().min(1, 'Insira os dados do ensaio.'),
+  useStress: z.coerce.number(),
+  useHumidity: z.coerce.number().gt(0, 'A umidade deve estar entre 0 e 100%.').max(100, 'A umidade deve estar entre 0 e 100%.').optional(),
+  missionTime: z.coerce.number().gt(0, 'O tempo deve ser positivo'),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+const LIFE_CURVE_POINTS = 60;
+
+// One unit per line: time; stress[; humidity][; F|S]. Units without a status are failures.
+const parseObservations = (text: string, usesHumidity: boolean): AltObservation[] | null => {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const observations: AltObservation[] = [];
+  for (const line of lines) {
+    const tokens = line.split(/[;\t ]+/).filter(Boolean);
+    const status = tokens.find(tok => /^[FS]$/i.test(tok));
+    const numbers = tokens.filter(tok => tok !== status).map(tok => parseFloat(tok.replace(',', '.')));
+    if (numbers.length < (usesHumidity ? 3 : 2) || numbers.some(isNaN)) return null;
+    observations.push({
+      time: numbers[0],
+      stress: numbers[1],
+      ...(usesHumidity ? { humidity: numbers[2] } : {}),
+      event: status?.toUpperCase() === 'S' ? 0 : 1,
+    });
+  }
+  return observations;
+};
+
+const formatTick = (tick: number) => tick >= 1000 ? `${(tick / 1000).toPrecision(3)}k` : tick.toPrecision(3);
+
+export default function AcceleratedLifeTesting() {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const [fit, setFit] = useState<AcceleratedLifeFit | null>(null);
+  const [observations, setObservations] = useState<AltObservation[]>([]);
+  const [useLevel, setUseLevel] = useState<{ stress: number; humidity?: number; missionTime: number } | null>(null);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      model: 'arrhenius',
+      distribution: 'Weibull',
+      data: '1250; 100\n1850; 100\n2700; 100\n3000; 100; S\n520; 125\n810; 125\n1140; 125\n1500; 125\n240; 150\n380; 150\n505; 150\n720; 150',
+      useStress: 50,
+      useHumidity: 50,
+      missionTime: 8760,
+    },
+  });
+
+  const model = form.watch('model');
+  const usesHumidity = LIFE_STRESS_MODELS[model].usesHumidity;
+  const stressUnit = LIFE_STRESS_MODELS[model].isThermal ? '°C' : '';
+
+  const onSubmit = (data: FormData) => {
+    const spec = LIFE_STRESS_MODELS[data.model];
+    const parsed = parseObservations(data.data, spec.usesHumidity);
+    if (!parsed || parsed.length === 0) {
+      toast({ variant: 'destructive', title: t('toasts.invalidData.title'), description: t('alt.invalidData') });
+      return;
+    }
+    const result = fitAcceleratedLifeModel(parsed, data.model, data.distribution);
+    if ('error' in result) {
+      setFit(null);
+      toast({ variant: 'destructive', title: t('toasts.calculationError.title'), description: result.error });
+      return;
+    }
+    setFit(result);
+    setObservations(parsed);
+    setUseLevel({ stress: data.useStress, humidity: spec.usesHumidity ? data.useHumidity : undefined, missionTime: data.missionTime });
+  };
+
+  const summary = useMemo(() => {
+    if (!fit || !useLevel) return null;
+    const useLife = altLife(fit, useLevel.stress, useLevel.humidity);
+    return {
+      useLife,
+      b10: altQuantile(fit, 0.1, useLevel.stress, useLevel.humidity),
+      reliability: altReliability(fit, useLevel.missionTime, useLevel.stress, useLevel.humidity),
+      levels: fit.stressLevels.map(level => ({
+        ...level,
+        life: altLife(fit, level.stress, level.humidity),
+        accelerationFactor: altAccelerationFactor(fit, useLevel, level),
+      })),
+    };
+  }, [fit, useLevel]);
+
+  // Life vs the first stress, with humidity held at its use level for the temperature-humidity model
+  const chart = useMemo(() => {
+    if (!fit || !useLevel) return null;
+    const stresses = [useLevel.stress, ...fit.stressLevels.map(l => l.stress)];
+    const from = Math.min(...stresses);
+    const to = Math.max(...stresses);
+    const line = Array.from({ length: LIFE_CURVE_POINTS }, (_, i) => {
+      const stress = from + (to - from) * i / (LIFE_CURVE_POINTS - 1);
+      return { stress, life: altLife(fit, stress, useLevel.humidity), b10: altQuantile(fit, 0.1, stress, useLevel.humidity) };
+    });
+    const failures = observations.filter(o => o.event === 1).map(o => ({ stress: o.stress, time: o.time }));
+    const suspensions = observations.filter(o => o.event === 0).map(o => ({ stress: o.stress, time: o.time }));
+    return { line, failures, suspensions };
+  }, [fit, useLevel, observations]);
+
+  const lifeLabel = fit?.distribution === 'Lognormal' ? t('alt.medianLife') : t('alt.characteristicLife');
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-7">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Flame className="h-5 w-5" />{t('alt.cardTitle')}</CardTitle>
+          <CardDescription>{t('alt.cardDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="model"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('alt.model')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        {LIFE_STRESS_MODEL_OPTIONS.map(m => <SelectItem key={m} value={m}>{t(`alt.models.${m}`)}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>{t(`alt.formulas.${field.value}`)}</FormDescription>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="distribution"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('alt.distribution')}</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        <SelectItem value="Weibull">Weibull</SelectItem>
+                        <SelectItem value="Lognormal">Lognormal</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="data"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('alt.dataLabel')}</FormLabel>
+                    <FormControl><Textarea rows={8} className="font-mono text-xs" {...field} /></FormControl>
+                    <FormDescription>{t(usesHumidity ? 'alt.dataDescriptionHumidity' : 'alt.dataDescription')}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="useStress"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('alt.useStress', { unit: stressUnit })}</FormLabel>
+                      <FormControl><Input type="number" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {usesHumidity && (
+                  <FormField
+                    control={form.control}
+                    name="useHumidity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('alt.useHumidity')}</FormLabel>
+                        <FormControl><Input type="number" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="missionTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('alt.missionTime')}</FormLabel>
+                      <FormControl><Input type="number" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <Button type="submit" className="w-full">{t('alt.fitButton')}</Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <div className="lg:col-span-5 space-y-4">
+        {!fit || !summary || !chart || !useLevel ? (
+          <Card>
+            <CardContent className="flex items-center justify-center h-64">
+              <p className="text-muted-foreground">{t('alt.noResults')}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('alt.resultsTitle', { model: t(`alt.models.${fit.model}`), distribution: fit.distribution })}</CardTitle>
+                <CardDescription>{t('alt.resultsDescription', { failures: fit.failures, suspensions: fit.suspensions, logLikelihood: fit.logLikelihood.toFixed(2) })}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+                  {Object.entries(fit.coefficients).map(([name, value]) => (
+                    <div key={name} className="rounded-md border p-3">
+                      <div className="text-xs text-muted-foreground">{name === 'activationEnergy' ? t('alt.activationEnergy') : name}</div>
+                      <div className="text-lg font-bold font-mono">{Math.abs(value) >= 1e4 || Math.abs(value) < 1e-3 ? value.toExponential(3) : value.toFixed(3)}</div>
+                    </div>
+                  ))}
+                  <div className="rounded-md border p-3">
+                    <div className="text-xs text-muted-foreground">{fit.distribution === 'Weibull' ? 'β' : 'σ'}</div>
+                    <div className="text-lg font-bold font-mono">{fit.shape.toFixed(3)}</div>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                  <div className="rounded-md border p-3 bg-muted/30">
+                    <div className="text-xs text-muted-foreground">{t('alt.useLife', { label: lifeLabel })}</div>
+                    <div className="text-xl font-bold">{summary.useLife.toFixed(0)} h</div>
+                  </div>
+                  <div className="rounded-md border p-3 bg-muted/30">
+                    <div className="text-xs text-muted-foreground">{t('alt.useB10')}</div>
+                    <div className="text-xl font-bold">{summary.b10.toFixed(0)} h</div>
+                  </div>
+                  <div className="rounded-md border p-3 bg-muted/30">
+                    <div className="text-xs text-muted-foreground">{t('alt.useReliability', { time: useLevel.missionTime })}</div>
+                    <div className="text-xl font-bold">{(summary.reliability * 100).toFixed(2)}%</div>
+                  </div>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('alt.stressLevel')}</TableHead>
+                      <TableHead className="text-right">{lifeLabel}</TableHead>
+                      <TableHead className="text-right">{t('alt.accelerationFactor')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.levels.map(level => (
+                      <TableRow key={`${level.stress}-${level.humidity ?? ''}`}>
+                        <TableCell>{`${level.stress} ${stressUnit}${level.humidity !== undefined ? ` · ${level.humidity}% RH` : ''}`}</TableCell>
+                        <TableCell className="text-right font-mono">{level.life.toFixed(0)}</TableCell>
+                        <TableCell className="text-right font-mono">{level.accelerationFactor.toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('alt.lifeStressPlot')}</CardTitle>
+                <CardDescription>{t(usesHumidity ? 'alt.lifeStressPlotDescriptionHumidity' : 'alt.lifeStressPlotDescription', { humidity: useLevel.humidity ?? '' })}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-96 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart margin={{ top: 5, right: 20, left: 10, bottom: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis
+                        dataKey="stress"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        stroke="hsl(var(--muted-foreground))"
+                        tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                        label={{ value: t('alt.stressAxis', { unit: stressUnit }), position: 'insideBottom', offset: -10, fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                      />
+                      <YAxis
+                        type="number"
+                        scale="log"
+                        domain={['auto', 'auto']}
+                        allowDataOverflow
+                        stroke="hsl(var(--muted-foreground))"
+                        tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                        tickFormatter={formatTick}
+                        label={{ value: t('alt.lifeAxis'), angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                      />
+                      <Tooltip
+                        formatter={(value: number) => value.toFixed(1)}
+                        labelFormatter={(label: number) => `${t('alt.stressAxis', { unit: stressUnit })}: ${label.toFixed(1)}`}
+                        wrapperClassName="!border-border !bg-background !shadow-lg"
+                      />
+                      <Legend verticalAlign="top" wrapperStyle={{ fontSize: '0.8rem' }} />
+                      <ReferenceLine x={useLevel.stress} stroke="hsl(var(--chart-4))" strokeDasharray="4 4" label={{ value: t('alt.useLevel'), fill: 'hsl(var(--chart-4))', fontSize: 12, position: 'top' }} />
+                      <Line data={chart.line} dataKey="life" name={lifeLabel} stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} />
+                      <Line data={chart.line} dataKey="b10" name="B10" stroke="hsl(var(--chart-3))" strokeWidth={1.5} strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+                      <Line data={chart.failures} dataKey="time" name={t('alt.failures')} stroke="hsl(var(--chart-2))" strokeWidth={0} dot={{ r: 3, fill: 'hsl(var(--chart-2))' }} isAnimationActive={false} />
+                      {chart.suspensions.length > 0 && (
+                        <Line data={chart.suspensions} dataKey="time" name={t('alt.suspensions')} stroke="hsl(var(--muted-foreground))" strokeWidth={0} dot={{ r: 3, fill: 'transparent', stroke: 'hsl(var(--muted-foreground))' }} isAnimationActive={false} />
+                      )}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
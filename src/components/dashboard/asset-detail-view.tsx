@@ -17,7 +17,11 @@ import EventLogTable from './event-log-table';
 import AssetReliabilityCharts from './asset-reliability-charts';
 import PreventiveMaintenanceOptimizer from './preventive-maintenance-optimizer';
 import AssetProbabilityPlot from './asset-probability-plot';
-import { getReliability, getMedianLife } from '@/lib/reliability';
+import RepairableSystemAnalysis from './repairable-system-analysis';
+import FaultTreeAnalysis from './fault-tree-analysis';
+import FailureFindingInterval from './failure-finding-interval';
+import RcmWorksheet from './rcm-worksheet';
+import { getAssetParameters, getReliability, getMedianLife } from '@/lib/reliability';
 import { Badge } from '@/components/ui/badge';
 import PFCurveChart from './pf-curve-chart';
 import { Separator } from '@/components/ui/separator';
@@ -25,6 +29,7 @@ import { Separator } from '@/components/ui/separator';
 
 interface AssetDetailViewProps {
   asset: AssetData;
+  assets: AssetData[];
   onBack: () => void;
   onAssetChange: (asset: AssetData) => void;
 }
@@ -56,7 +61,7 @@ function parseDate(dateStr: string): Date | null {
     return null;
 }
 
-export function AssetDetailView({ asset, onBack, onAssetChange }: AssetDetailViewProps) {
+export function AssetDetailView({ asset, assets, onBack, onAssetChange }: AssetDetailViewProps) {
   const { t } = useI18n();
   const { toast } = useToast();
   const [isReportOpen, setIsReportOpen] = React.useState(false);
@@ -68,6 +73,11 @@ export function AssetDetailView({ asset, onBack, onAssetChange }: AssetDetailVie
     asset.failureTimes?.split(',').map(t => parseFloat(t.trim())).filter(t => !isNaN(t) && t > 0).sort((a,b) => a - b) ?? []
   ), [asset.failureTimes]);
 
+  // Times between failures in the order they happened, for the repairable-system analysis
+  const timesBetweenFailures = React.useMemo(() => (
+    asset.failureTimes?.split(',').map(t => parseFloat(t.trim())).filter(t => !isNaN(t) && t > 0) ?? []
+  ), [asset.failureTimes]);
+
   React.useEffect(() => {
     if (!asset.distribution || !asset.events || asset.events.length === 0) {
       setDynamicHealth(null);
@@ -88,10 +98,10 @@ export function AssetDetailView({ asset, onBack, onAssetChange }: AssetDetailVie
     const now = new Date();
     const hoursSinceLastMaintenance = (now.getTime() - lastMaintenanceDate.getTime()) / (1000 * 60 * 60);
     
-    const reliability = getReliability(asset.distribution, asset, hoursSinceLastMaintenance);
+    const reliability = getReliability(asset.distribution, getAssetParameters(asset), hoursSinceLastMaintenance);
     const score = isNaN(reliability) ? 0 : Math.round(reliability * 100);
 
-    let referenceInterval = getMedianLife(asset.distribution, asset);
+    let referenceInterval = getMedianLife(asset.distribution, getAssetParameters(asset));
     if (isNaN(referenceInterval)) {
         if (failureTimes.length > 0) {
           const sumOfFailureTimes = failureTimes.reduce((sum, time) => sum + time, 0);
@@ -250,6 +260,11 @@ export function AssetDetailView({ asset, onBack, onAssetChange }: AssetDetailVie
                             beta={asset.beta}
                             rho={asset.rho}
                             failureTimesCount={failureTimes.length}
+                            timeSinceMaintenance={dynamicHealth ? dynamicHealth.daysSinceFailure * 24 : null}
+                            failureTime={dynamicHealth?.referenceInterval}
+                            mtbf={calculatedMtbf}
+                            failureCost={downtimeCostPerHour * (asset.mttr ?? 0)}
+                            units={asset.units}
                         />
                     </div>
                     <Separator />
@@ -260,7 +275,7 @@ export function AssetDetailView({ asset, onBack, onAssetChange }: AssetDetailVie
                     <Separator />
                     <div>
                         <h3 className="text-xl font-semibold mb-4">3. Otimização de Manutenção Preventiva</h3>
-                         <PreventiveMaintenanceOptimizer asset={asset} />
+                         <PreventiveMaintenanceOptimizer asset={asset} failureTimes={failureTimes} currentAge={dynamicHealth ? dynamicHealth.daysSinceFailure * 24 : undefined} />
                     </div>
                     <Separator />
                     <div>
@@ -272,11 +287,31 @@ export function AssetDetailView({ asset, onBack, onAssetChange }: AssetDetailVie
                         <h3 className="text-xl font-semibold mb-4">5. Curvas Fundamentais de Confiabilidade</h3>
                         <AssetReliabilityCharts asset={asset} />
                     </div>
+                    <Separator />
+                    <div>
+                        <h3 className="text-xl font-semibold mb-4">6. Sistema Reparável (Crow-AMSAA)</h3>
+                        <RepairableSystemAnalysis timesBetweenFailures={timesBetweenFailures} units={asset.units} />
+                    </div>
+                    <Separator />
+                    <div>
+                        <h3 className="text-xl font-semibold mb-4">7. Árvore de Falhas (FTA)</h3>
+                        <FaultTreeAnalysis asset={asset} assets={assets} />
+                    </div>
+                    <Separator />
+                    <div>
+                        <h3 className="text-xl font-semibold mb-4">8. Intervalo de Busca de Falhas (FFI)</h3>
+                        <FailureFindingInterval asset={asset} assets={assets} />
+                    </div>
+                    <Separator />
+                    <div>
+                        <h3 className="text-xl font-semibold mb-4">9. Planilha de Decisão RCM (SAE JA1011)</h3>
+                        <RcmWorksheet key={asset.id} asset={asset} mtbf={calculatedMtbf} onChange={rcmWorksheet => onAssetChange({ ...asset, rcmWorksheet })} />
+                    </div>
                     {asset.events && asset.events.length > 0 && (
                         <>
                             <Separator />
                             <div>
-                                <h3 className="text-xl font-semibold mb-4">6. Histórico de Eventos</h3>
+                                <h3 className="text-xl font-semibold mb-4">10. Histórico de Eventos</h3>
                                 <EventLogTable events={asset.events} onDeleteEvent={handleDeleteEvent} />
                             </div>
                         </>
@@ -5,7 +5,7 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsi
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import type { ReliabilityData, Supplier, AssetData, Parameters } from '@/lib/types';
 import { useI18n } from '@/i18n/i18n-provider';
-import { calculateReliabilityData } from '@/lib/reliability';
+import { calculateReliabilityData, getAssetParameters, getReliability } from '@/lib/reliability';
 
 interface AssetReliabilityChartsProps {
   asset: AssetData;
@@ -41,36 +41,8 @@ export default function AssetReliabilityCharts({ asset }: AssetReliabilityCharts
     const failureTimes = asset.failureTimes?.split(',').map(t => parseFloat(t.trim())).filter(t => !isNaN(t) && t > 0) ?? [];
     if (failureTimes.length < 2 || !asset.distribution) return null;
 
-    const params: Parameters = {};
-    let isValid = false;
-
-    switch(asset.distribution) {
-        case 'Weibull':
-            if (asset.beta && asset.eta) {
-                params.beta = asset.beta;
-                params.eta = asset.eta;
-                params.rho = asset.rho;
-                isValid = true;
-            }
-            break;
-        case 'Lognormal':
-        case 'Normal':
-            if (asset.mean && asset.stdDev) {
-                params.mean = asset.mean;
-                params.stdDev = asset.stdDev;
-                params.rho = asset.rho;
-                isValid = true;
-            }
-            break;
-        case 'Exponential':
-             if (asset.lambda) {
-                params.lambda = asset.lambda;
-                params.rho = asset.rho;
-                isValid = true;
-            }
-            break;
-    }
-
+    const params: Parameters = getAssetParameters(asset);
+    const isValid = !Number.isNaN(getReliability(asset.distribution, params, failureTimes[0]));
     if (!isValid) return null;
     
     return {
@@ -0,0 +1,272 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronDown, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/i18n/i18n-provider';
+import { estimateParameters, getAssetParameters } from '@/lib/reliability';
+import { simulateAvailability } from '@/lib/availability';
+import type { AssetData, AvailabilitySimulationResult, AvailabilitySimulationUnit, Distribution, Parameters } from '@/lib/types';
+
+interface AvailabilitySimulatorProps {
+  assets: AssetData[];
+  repairDurations: Record<string, number[]>; // hours, by asset id
+}
+
+const REPAIR_DISTRIBUTIONS: Distribution[] = ['Lognormal', 'Weibull', 'Exponential', 'Normal'];
+// One year of continuous operation
+const DEFAULT_HORIZON = 8760;
+const DEFAULT_RUNS = 500;
+const MAX_RUNS = 5000;
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(value);
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const Metric = ({ label, value, detail }: { label: string, value: string, detail?: string }) => (
+  <div className="rounded-md border p-3">
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className="text-lg font-bold font-mono">{value}</div>
+    {detail && <div className="text-xs text-muted-foreground font-mono">{detail}</div>}
+  </div>
+);
+
+// Repair model from the logged repair durations; a single averaged MTTR falls back to an exponential
+const fitRepairDistribution = (durations: number[], distribution: Distribution, mttr: number): { distribution: Distribution, params: Parameters } | null => {
+  if (durations.length >= 2) {
+    const { params } = estimateParameters({ dist: distribution, failureTimes: durations, method: 'MLE' });
+    if (params && Object.keys(params).length > 0) return { distribution, params };
+  }
+  return mttr > 0 ? { distribution: 'Exponential', params: { lambda: 1 / mttr } } : null;
+};
+
+export default function AvailabilitySimulator({ assets, repairDurations }: AvailabilitySimulatorProps) {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const eligible = useMemo(() => assets.filter(a => a.distribution && a.analysisState === 'ok'), [assets]);
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [repairDistribution, setRepairDistribution] = useState<Distribution>('Lognormal');
+  const [horizon, setHorizon] = useState(DEFAULT_HORIZON);
+  const [runs, setRuns] = useState(DEFAULT_RUNS);
+  const [crews, setCrews] = useState(0);
+  const [pmInterval, setPmInterval] = useState(0);
+  const [pmDuration, setPmDuration] = useState(8);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<AvailabilitySimulationResult | null>(null);
+
+  const selected = eligible.filter(a => !excluded.includes(a.id));
+
+  const toggleAsset = (id: string, checked: boolean) => {
+    setExcluded(prev => checked ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleRun = () => {
+    const units: AvailabilitySimulationUnit[] = [];
+    const skipped: string[] = [];
+    selected.forEach(asset => {
+      const repair = fitRepairDistribution(repairDurations[asset.id] ?? [], repairDistribution, asset.mttr);
+      if (!repair) {
+        skipped.push(asset.name);
+        return;
+      }
+      units.push({
+        id: asset.id,
+        name: asset.name,
+        distribution: asset.distribution!,
+        params: getAssetParameters(asset),
+        repairDistribution: repair.distribution,
+        repairParams: repair.params,
+        downtimeCostPerHour: asset.downtimeCostPerHour ?? 0,
+      });
+    });
+    if (skipped.length > 0) {
+      toast({ title: t('performance.availability.skippedTitle'), description: t('performance.availability.skipped', { assets: skipped.join(', ') }) });
+    }
+
+    setIsRunning(true);
+    setTimeout(() => {
+      const simulation = simulateAvailability(units, { horizon, runs: Math.min(runs, MAX_RUNS), crews, pmInterval, pmDuration });
+      setIsRunning(false);
+      if ('error' in simulation) {
+        setResult(null);
+        toast({ variant: 'destructive', title: t('toasts.simulationError.title'), description: simulation.error });
+        return;
+      }
+      setResult(simulation);
+    }, 50);
+  };
+
+  const analyticAvailability = (id: string) => assets.find(a => a.id === id)?.availability;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('performance.availability.title')}</CardTitle>
+        <CardDescription>{t('performance.availability.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">{t('performance.mcf.assets')}</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="h-8 w-48 justify-between text-xs">
+                  {t('performance.mcf.selected', { count: selected.length, total: eligible.length })}
+                  <ChevronDown className="h-3 w-3 opacity-50" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 max-h-72 overflow-y-auto space-y-2">
+                {eligible.map(asset => (
+                  <div key={asset.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`availability-${asset.id}`}
+                      checked={!excluded.includes(asset.id)}
+                      onCheckedChange={(checked) => toggleAsset(asset.id, checked === true)}
+                    />
+                    <Label htmlFor={`availability-${asset.id}`} className="text-xs font-normal">{asset.name}</Label>
+                  </div>
+                ))}
+              </PopoverContent>
+            </Popover>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">{t('performance.availability.repairDistribution')}</Label>
+            <Select value={repairDistribution} onValueChange={(val) => setRepairDistribution(val as Distribution)}>
+              <SelectTrigger className="h-8 w-32 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {REPAIR_DISTRIBUTIONS.map(d => <SelectItem key={d} value={d}>{d}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="availability-horizon" className="text-xs">{t('performance.availability.horizon')}</Label>
+            <Input id="availability-horizon" type="number" min={1} className="h-8 w-28" value={horizon} onChange={e => setHorizon(Number(e.target.value))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="availability-runs" className="text-xs">{t('performance.availability.runs')}</Label>
+            <Input id="availability-runs" type="number" min={1} max={MAX_RUNS} className="h-8 w-24" value={runs} onChange={e => setRuns(Number(e.target.value))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="availability-crews" className="text-xs">{t('performance.availability.crews')}</Label>
+            <Input id="availability-crews" type="number" min={0} className="h-8 w-24" value={crews} onChange={e => setCrews(Math.max(0, Math.floor(Number(e.target.value))))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="availability-pm-interval" className="text-xs">{t('performance.availability.pmInterval')}</Label>
+            <Input id="availability-pm-interval" type="number" min={0} className="h-8 w-28" value={pmInterval} onChange={e => setPmInterval(Number(e.target.value))} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="availability-pm-duration" className="text-xs">{t('performance.availability.pmDuration')}</Label>
+            <Input id="availability-pm-duration" type="number" min={0} className="h-8 w-24" value={pmDuration} onChange={e => setPmDuration(Number(e.target.value))} />
+          </div>
+          <Button size="sm" onClick={handleRun} disabled={isRunning || selected.length === 0}>
+            {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t('performance.availability.run')}
+          </Button>
+        </div>
+
+        {!result ? (
+          <div className="flex items-center justify-center h-32">
+            <p className="text-muted-foreground">{eligible.length === 0 ? t('performance.availability.noData') : t('performance.availability.waiting')}</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+              <Metric
+                label={t('performance.availability.meanAvailability')}
+                value={formatPercent(result.availability.mean)}
+                detail={`P5 ${formatPercent(result.availability.p5)} · P95 ${formatPercent(result.availability.p95)}`}
+              />
+              <Metric
+                label={t('performance.availability.downtimeCost')}
+                value={formatCurrency(result.downtimeCost.mean)}
+                detail={`P5 ${formatCurrency(result.downtimeCost.p5)} · P95 ${formatCurrency(result.downtimeCost.p95)}`}
+              />
+              <Metric label={t('performance.availability.waitingTime')} value={`${result.meanWaitingTime.toFixed(1)} h`} />
+              <Metric label={t('performance.availability.runsDone')} value={result.runs.toString()} />
+            </div>
+
+            <div className="grid gap-6 xl:grid-cols-2">
+              <div>
+                <h4 className="mb-2 text-sm font-semibold">{t('performance.availability.histogramTitle')}</h4>
+                <div className="h-64 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={result.histogram} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="availability" stroke="hsl(var(--muted-foreground))" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} tickFormatter={(tick: number) => `${(tick * 100).toFixed(1)}%`} />
+                      <YAxis stroke="hsl(var(--muted-foreground))" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} tickFormatter={(tick: number) => `${(tick * 100).toFixed(0)}%`} />
+                      <Tooltip
+                        formatter={(value: number) => `${(value * 100).toFixed(1)}%`}
+                        labelFormatter={(label: number) => `${t('performance.availability.availability')}: ${formatPercent(label)}`}
+                        wrapperClassName="!border-border !bg-background !shadow-lg"
+                      />
+                      <Bar dataKey="frequency" name={t('performance.availability.frequency')} fill="hsl(var(--primary))" isAnimationActive={false} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+              <div>
+                <h4 className="mb-2 text-sm font-semibold">{t('performance.availability.bandsTitle')}</h4>
+                <div className="h-64 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={result.bands} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="time" type="number" domain={[0, 'dataMax']} stroke="hsl(var(--muted-foreground))" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} tickFormatter={(tick: number) => tick >= 1000 ? `${(tick / 1000).toPrecision(2)}k` : tick.toFixed(0)} />
+                      <YAxis domain={['auto', 1]} stroke="hsl(var(--muted-foreground))" tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }} tickFormatter={(tick: number) => `${(tick * 100).toFixed(0)}%`} />
+                      <Tooltip
+                        formatter={(value: number) => formatPercent(value)}
+                        labelFormatter={(label: number) => `${t('charts.time')}: ${Math.round(label)}`}
+                        wrapperClassName="!border-border !bg-background !shadow-lg"
+                      />
+                      <Legend verticalAlign="top" wrapperStyle={{ fontSize: '0.8rem' }} />
+                      <Line type="monotone" dataKey="p95" name="P95" stroke="hsl(var(--chart-2))" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                      <Line type="monotone" dataKey="p50" name="P50" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} />
+                      <Line type="monotone" dataKey="p5" name="P5" stroke="hsl(var(--chart-2))" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('performance.availability.asset')}</TableHead>
+                  <TableHead className="text-right">{t('performance.availability.simulated')}</TableHead>
+                  <TableHead className="text-right">{t('performance.availability.analytic')}</TableHead>
+                  <TableHead className="text-right">{t('performance.availability.failures')}</TableHead>
+                  <TableHead className="text-right">{t('performance.availability.preventiveActions')}</TableHead>
+                  <TableHead className="text-right">{t('performance.availability.downtime')}</TableHead>
+                  <TableHead className="text-right">{t('performance.availability.downtimeCost')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.units.map(unit => {
+                  const analytic = analyticAvailability(unit.id);
+                  return (
+                    <TableRow key={unit.id}>
+                      <TableCell>{unit.name}</TableCell>
+                      <TableCell className="text-right font-mono">{formatPercent(unit.availability)}</TableCell>
+                      <TableCell className="text-right font-mono">{analytic ? `${analytic.toFixed(2)}%` : '--'}</TableCell>
+                      <TableCell className="text-right font-mono">{unit.failures.toFixed(1)}</TableCell>
+                      <TableCell className="text-right font-mono">{unit.preventiveActions.toFixed(1)}</TableCell>
+                      <TableCell className="text-right font-mono">{unit.downtime.toFixed(0)} h</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(unit.downtimeCost)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,21 +1,47 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
 import { useI18n } from '@/i18n/i18n-provider';
+import { fitMixedWeibull, fitWeibullMLE, mixedWeibullHazard, MIXED_WEIBULL_SUBPOPULATIONS } from '@/lib/reliability';
+import type { CensoredData, WeibullSubpopulation } from '@/lib/types';
 
 interface BathtubCurveAnalysisProps {
   failureTimes: number[];
+  suspensionTimes?: number[];
 }
 
 interface Point {
   x: number;
   y: number;
   time: number;
+  hazard: number;
 }
 
-const BathtubCurveSVG = ({ points, t }: { points: Point[], t: (key: string) => string }) => (
+type Phase = 'infantMortality' | 'usefulLife' | 'wearOut';
+
+// Drawing area inside the 500 x 200 view box
+const X_START = 10;
+const X_END = 490;
+const Y_TOP = 40;
+const Y_BOTTOM = 150;
+const GRID_POINTS = 120;
+
+// Share of the hazard range above the minimum still counted as the flat bottom of the tub
+const USEFUL_LIFE_BAND = 0.15;
+
+const phaseOf = (beta: number): Phase => beta < 0.95 ? 'infantMortality' : beta <= 1.05 ? 'usefulLife' : 'wearOut';
+
+const BathtubCurveSVG = ({ path, points, separators, labels, t }: {
+  path: string,
+  points: Point[],
+  separators: number[],
+  labels: { x: number, phase: Phase }[],
+  t: (key: string) => string
+}) => (
   <div className="relative">
     <svg viewBox="0 0 500 200" className="w-full h-auto" preserveAspectRatio="xMidYMid meet">
       {/* Grid lines */}
@@ -23,17 +49,18 @@ const BathtubCurveSVG = ({ points, t }: { points: Point[], t: (key: string) => s
         <line key={y} x1="0" y1={y} x2="500" y2={y} stroke="hsl(var(--border))" strokeWidth="0.5" strokeDasharray="2 2" />
       ))}
 
-      {/* Correct "U" shaped bathtub curve path with a flat bottom and smooth transitions */}
-      <path d="M 10,40 C 50,40 80,140 160,140 L 340,140 C 420,140 450,40 490,40" stroke="hsl(var(--primary))" strokeWidth="2.5" fill="none" />
-      
-      {/* Phase separators */}
-      <line x1="160" y1="10" x2="160" y2="190" stroke="hsl(var(--border))" strokeWidth="1" strokeDasharray="4 4" />
-      <line x1="340" y1="10" x2="340" y2="190" stroke="hsl(var(--border))" strokeWidth="1" strokeDasharray="4 4" />
+      {/* Fitted hazard rate */}
+      <path d={path} stroke="hsl(var(--primary))" strokeWidth="2.5" fill="none" />
+
+      {/* Phase separators, where the hazard leaves the flat bottom of the tub */}
+      {separators.map(x => (
+        <line key={x} x1={x} y1="10" x2={x} y2="190" stroke="hsl(var(--border))" strokeWidth="1" strokeDasharray="4 4" />
+      ))}
 
       {/* Phase Labels */}
-      <text x="80" y="175" textAnchor="middle" className="text-xs font-semibold fill-muted-foreground">{t('bathtub.infantMortality')}</text>
-      <text x="250" y="175" textAnchor="middle" className="text-xs font-semibold fill-muted-foreground">{t('bathtub.usefulLife')}</text>
-      <text x="420" y="175" textAnchor="middle" className="text-xs font-semibold fill-muted-foreground">{t('bathtub.wearOut')}</text>
+      {labels.map(label => (
+        <text key={label.phase} x={label.x} y="175" textAnchor="middle" className="text-xs font-semibold fill-muted-foreground">{t(`bathtub.${label.phase}`)}</text>
+      ))}
 
       {/* Axis Labels */}
       <text x="-15" y="100" transform="rotate(-90 -15,100)" textAnchor="middle" className="text-xs font-semibold fill-foreground">{t('bathtub.failureRate')}</text>
@@ -45,7 +72,7 @@ const BathtubCurveSVG = ({ points, t }: { points: Point[], t: (key: string) => s
         {points.map((point, index) => (
           <Tooltip key={index} delayDuration={0}>
             <TooltipTrigger asChild>
-              <div 
+              <div
                 className="absolute"
                 style={{ left: `${point.x}%`, top: `${point.y}%` }}
               >
@@ -54,6 +81,7 @@ const BathtubCurveSVG = ({ points, t }: { points: Point[], t: (key: string) => s
             </TooltipTrigger>
             <TooltipContent>
               <p>{t('bathtub.failureTime')}: {point.time}</p>
+              <p>{t('bathtub.failureRate')}: {point.hazard.toExponential(3)}</p>
             </TooltipContent>
           </Tooltip>
         ))}
@@ -62,56 +90,48 @@ const BathtubCurveSVG = ({ points, t }: { points: Point[], t: (key: string) => s
   </div>
 );
 
-// This function maps a time value to a point on the predefined SVG curve
-const mapTimeToPoint = (time: number, minTime: number, maxTime: number): Point => {
-    if (maxTime === minTime) { // Avoid division by zero if all times are the same
-        return { x: 50, y: 70, time };
-    }
-    const timePercentage = (time - minTime) / (maxTime - minTime);
-
-    let x, y;
-    const svgWidth = 500;
-    const svgHeight = 200;
-
-    const p0_start = {x: 10, y: 40};
-    const p1_infant = {x: 50, y: 40};
-    const p2_infant = {x: 80, y: 140};
-    const p3_infant_end = {x: 160, y: 140};
-
-    const p0_wearout_start = {x: 340, y: 140};
-    const p1_wearout = {x: 420, y: 140};
-    const p2_wearout = {x: 450, y: 40};
-    const p3_end = {x: 490, y: 40};
-
-    // Phase 1: Early Failures (0% to 32% of time axis) -> Mapped to x=[10, 160]
-    if (timePercentage <= 0.32) {
-        const t = timePercentage / 0.32;
-        x = Math.pow(1-t, 3)*p0_start.x + 3*Math.pow(1-t, 2)*t*p1_infant.x + 3*(1-t)*Math.pow(t,2)*p2_infant.x + Math.pow(t,3)*p3_infant_end.x;
-        y = Math.pow(1-t, 3)*p0_start.y + 3*Math.pow(1-t, 2)*t*p1_infant.y + 3*(1-t)*Math.pow(t,2)*p2_infant.y + Math.pow(t,3)*p3_infant_end.y;
-    } 
-    // Phase 2: Useful Life (32% to 68% of time axis) -> Mapped to x=[160, 340]
-    else if (timePercentage <= 0.68) {
-        const phasePercentage = (timePercentage - 0.32) / 0.36;
-        x = 160 + phasePercentage * 180;
-        y = 140; // Flat part of the curve
-    } 
-    // Phase 3: Wear-out (68% to 100% of time axis) -> Mapped to x=[340, 490]
-    else {
-        const t = (timePercentage - 0.68) / 0.32;
-        x = Math.pow(1-t, 3)*p0_wearout_start.x + 3*Math.pow(1-t, 2)*t*p1_wearout.x + 3*(1-t)*Math.pow(t,2)*p2_wearout.x + Math.pow(t,3)*p3_end.x;
-        y = Math.pow(1-t, 3)*p0_wearout_start.y + 3*Math.pow(1-t, 2)*t*p1_wearout.y + 3*(1-t)*Math.pow(t,2)*p2_wearout.y + Math.pow(t,3)*p3_end.y;
-    }
-    
-    // Convert SVG coordinates to percentage for CSS positioning
-    const xPercent = (x / svgWidth) * 100;
-    const yPercent = (y / svgHeight) * 100;
-
-    return { x: xPercent, y: yPercent, time };
+// Maps the fitted hazard onto the view box. Hazards of infant-mortality subpopulations grow
+// without bound near t = 0, so the scale is set by the curve from the second grid point on.
+const buildCurve = (subpopulations: WeibullSubpopulation[], failureTimes: number[]) => {
+    const maxTime = Math.max(...failureTimes) * 1.1;
+    const times = Array.from({ length: GRID_POINTS }, (_, i) => maxTime * (i + 1) / GRID_POINTS);
+    const hazards = times.map(time => mixedWeibullHazard(time, subpopulations));
+    const finite = hazards.slice(1).filter(h => isFinite(h));
+    const hMax = Math.max(...finite);
+    const hMin = Math.min(...finite);
+
+    const toX = (time: number) => X_START + (X_END - X_START) * time / maxTime;
+    const toY = (h: number) => Y_BOTTOM - (Y_BOTTOM - Y_TOP) * Math.min(isFinite(h) ? h : hMax, hMax) / (hMax || 1);
+
+    const path = times.map((time, i) => `${i === 0 ? 'M' : 'L'} ${toX(time).toFixed(1)},${toY(hazards[i]).toFixed(1)}`).join(' ');
+
+    const points = [...failureTimes].sort((a, b) => a - b).map(time => {
+        const hazard = mixedWeibullHazard(time, subpopulations);
+        return { x: toX(time) / 5, y: toY(hazard) / 2, time, hazard };
+    });
+
+    // Useful life: the stretch around the minimum where the hazard stays close to it
+    const threshold = hMin + USEFUL_LIFE_BAND * (hMax - hMin);
+    const iMin = hazards.indexOf(hMin);
+    let left = iMin;
+    while (left > 0 && hazards[left - 1] <= threshold) left--;
+    let right = iMin;
+    while (right < hazards.length - 1 && hazards[right + 1] <= threshold) right++;
+
+    const regions: { from: number, to: number, phase: Phase }[] = [
+        { from: X_START, to: toX(times[left]), phase: 'infantMortality' },
+        { from: toX(times[left]), to: toX(times[right]), phase: 'usefulLife' },
+        { from: toX(times[right]), to: X_END, phase: 'wearOut' },
+    ];
+    const separators = [toX(times[left]), toX(times[right])].filter(x => x > X_START + 1 && x < X_END - 1);
+    const labels = regions.filter(r => r.to - r.from >= 60).map(r => ({ x: (r.from + r.to) / 2, phase: r.phase }));
+
+    return { path, points, separators, labels };
 };
 
 
-export default function BathtubCurveAnalysis({ failureTimes }: BathtubCurveAnalysisProps) {
-  const [points, setPoints] = useState<Point[]>([]);
+export default function BathtubCurveAnalysis({ failureTimes, suspensionTimes = [] }: BathtubCurveAnalysisProps) {
+  const [subpopulationCount, setSubpopulationCount] = useState(2);
   const [isClient, setIsClient] = useState(false);
   const { t } = useI18n();
 
@@ -119,17 +139,22 @@ export default function BathtubCurveAnalysis({ failureTimes }: BathtubCurveAnaly
     setIsClient(true);
   }, []);
 
-  useEffect(() => {
-    if (failureTimes.length > 0 && isClient) {
-      const sortedTimes = [...failureTimes].sort((a, b) => a - b);
-      const minTime = sortedTimes[0];
-      const maxTime = sortedTimes[sortedTimes.length - 1];
-      const calculatedPoints = sortedTimes.map(time => mapTimeToPoint(time, minTime, maxTime));
-      setPoints(calculatedPoints);
-    } else {
-      setPoints([]);
-    }
-  }, [isClient, JSON.stringify(failureTimes)]);
+  // Mixed Weibull fit, falling back to a single Weibull when there are too few failures
+  const fit = useMemo(() => {
+    if (!isClient || failureTimes.length === 0) return null;
+    const data: CensoredData[] = [
+      ...failureTimes.map(time => ({ time, event: 1 as const })),
+      ...suspensionTimes.map(time => ({ time, event: 0 as const })),
+    ];
+    const mixed = fitMixedWeibull(data, subpopulationCount);
+    if (mixed.subpopulations) return { subpopulations: mixed.subpopulations, isMixture: true };
+
+    const single = fitWeibullMLE(data);
+    if (!single.beta || !single.eta || !isFinite(single.lkv ?? NaN)) return null;
+    return { subpopulations: [{ beta: single.beta, eta: single.eta, proportion: 1 }], isMixture: false };
+  }, [isClient, subpopulationCount, JSON.stringify(failureTimes), JSON.stringify(suspensionTimes)]);
+
+  const curve = useMemo(() => fit ? buildCurve(fit.subpopulations, failureTimes) : null, [fit]);
 
   if (failureTimes.length === 0) {
     return (
@@ -150,13 +175,39 @@ export default function BathtubCurveAnalysis({ failureTimes }: BathtubCurveAnaly
   return (
     <Card>
       <CardHeader>
-        <CardTitle>{t('bathtub.cardTitle')}</CardTitle>
-        <CardDescription>
-          {t('bathtub.cardDescription')}
-        </CardDescription>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>{t('bathtub.cardTitle')}</CardTitle>
+            <CardDescription>
+              {t('bathtub.cardDescription')}
+            </CardDescription>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">{t('parameters.subpopulations')}</Label>
+            <Select value={String(subpopulationCount)} onValueChange={(val) => setSubpopulationCount(Number(val))}>
+              <SelectTrigger className="h-8 w-20 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MIXED_WEIBULL_SUBPOPULATIONS.map(n => <SelectItem key={n} value={String(n)}>{n}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
       </CardHeader>
-      <CardContent className="px-2 sm:px-6">
-        {isClient ? <BathtubCurveSVG points={points} t={t} /> : <div className="h-[205px] w-full animate-pulse rounded-md bg-muted" />}
+      <CardContent className="px-2 sm:px-6 space-y-3">
+        {isClient && curve ? <BathtubCurveSVG {...curve} t={t} /> : <div className="h-[205px] w-full animate-pulse rounded-md bg-muted" />}
+        {fit && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            {!fit.isMixture && <p>{t('bathtub.singleFit')}</p>}
+            {fit.subpopulations.map((sub, i) => (
+              <p key={i}>
+                <span className="font-mono text-foreground">{`β${i + 1} = ${sub.beta.toFixed(2)} · η${i + 1} = ${sub.eta.toFixed(1)} · p${i + 1} = ${(sub.proportion * 100).toFixed(1)}%`}</span>
+                {` — ${t(`bathtub.${phaseOf(sub.beta)}`)}`}
+              </p>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
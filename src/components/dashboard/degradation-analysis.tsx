@@ -0,0 +1,241 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useI18n } from '@/i18n/i18n-provider';
+import { estimateParameters } from '@/lib/reliability';
+import { analyzeDegradation, degradationValue } from '@/lib/degradation';
+import type { DegradationAnalysis as DegradationResult, DegradationMeasurement, DegradationModel, Distribution, EstimationMethod, Supplier } from '@/lib/types';
+
+interface DegradationAnalysisProps {
+  suppliers: Supplier[];
+  setSuppliers: (updater: (prev: Supplier[]) => Supplier[]) => void;
+  estimationMethod: EstimationMethod;
+}
+
+const DEGRADATION_MODEL_OPTIONS: DegradationModel[] = ['linear', 'exponential', 'power', 'logarithmic'];
+const PSEUDO_FAILURE_DISTRIBUTIONS: Distribution[] = ['Weibull', 'Lognormal', 'Normal', 'Exponential'];
+const MAX_SUPPLIERS = 5;
+const PATH_POINTS = 40;
+
+const DEFAULT_MEASUREMENTS = [
+  'B1; 500; 2.1', 'B1; 1000; 2.9', 'B1; 1500; 3.8', 'B1; 2000; 4.6',
+  'B2; 500; 2.4', 'B2; 1000; 3.6', 'B2; 1500; 4.9',
+  'B3; 500; 1.9', 'B3; 1000; 2.4', 'B3; 1500; 2.8', 'B3; 2000; 3.3', 'B3; 2500; 3.9',
+  'B4; 500; 2.2', 'B4; 1000; 3.1', 'B4; 1500; 4.3',
+].join('\n');
+
+// One measurement per line: unit; time; value
+const parseMeasurements = (text: string): DegradationMeasurement[] | null => {
+  const measurements: DegradationMeasurement[] = [];
+  for (const line of text.split('\n').map(l => l.trim()).filter(Boolean)) {
+    const [unit, time, value] = line.split(/[;\t]+/).map(tok => tok.trim());
+    const parsed = { unit, time: parseFloat(time?.replace(',', '.')), value: parseFloat(value?.replace(',', '.')) };
+    if (!unit || isNaN(parsed.time) || isNaN(parsed.value)) return null;
+    measurements.push(parsed);
+  }
+  return measurements;
+};
+
+export default function DegradationAnalysis({ suppliers, setSuppliers, estimationMethod }: DegradationAnalysisProps) {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const [data, setData] = useState(DEFAULT_MEASUREMENTS);
+  const [model, setModel] = useState<DegradationModel>('linear');
+  const [threshold, setThreshold] = useState(7.1);
+  const [distribution, setDistribution] = useState<Distribution>('Weibull');
+  const [name, setName] = useState('');
+  const [result, setResult] = useState<DegradationResult | null>(null);
+
+  const handleAnalyze = () => {
+    const measurements = parseMeasurements(data);
+    if (!measurements || measurements.length === 0) {
+      toast({ variant: 'destructive', title: t('toasts.invalidData.title'), description: t('degradation.invalidData') });
+      return;
+    }
+    const analysis = analyzeDegradation(measurements, model, threshold);
+    if ('error' in analysis) {
+      setResult(null);
+      toast({ variant: 'destructive', title: t('toasts.calculationError.title'), description: analysis.error });
+      return;
+    }
+    setResult(analysis);
+  };
+
+  // Pseudo-failure times go through the same estimation as any other life data
+  const estimate = useMemo(() => {
+    if (!result || result.failureTimes.length < 2) return null;
+    return estimateParameters({
+      dist: distribution,
+      failureTimes: result.failureTimes,
+      suspensionTimes: result.suspensionTimes,
+      method: estimationMethod,
+    });
+  }, [result, distribution, estimationMethod]);
+
+  const handleAddSupplier = () => {
+    if (!result || !estimate) return;
+    if (suppliers.length >= MAX_SUPPLIERS) {
+      toast({ variant: 'destructive', title: t('toasts.limitReached.title'), description: t('toasts.limitReached.description') });
+      return;
+    }
+    setSuppliers(prev => [...prev, {
+      id: new Date().getTime().toString(),
+      name: name || t('degradation.defaultName'),
+      failureTimes: result.failureTimes,
+      suspensionTimes: result.suspensionTimes,
+      color: `hsl(var(--chart-${(prev.length % 5) + 1}))`,
+      distribution,
+      params: estimate.params,
+      plotData: estimate.plotData,
+      units: 'Hora (h)',
+      dataType: { hasSuspensions: result.suspensionTimes.length > 0, hasIntervals: false, isGrouped: false },
+    }]);
+  };
+
+  // Fitted path of each unit from its first inspection to the threshold (or its last inspection)
+  const paths = useMemo(() => {
+    if (!result) return [];
+    return result.units.map((unit, i) => {
+      const from = unit.measurements[0].time;
+      const to = Math.max(unit.lastTime, unit.pseudoFailureTime ?? 0);
+      const line = Array.from({ length: PATH_POINTS }, (_, j) => {
+        const time = from + (to - from) * j / (PATH_POINTS - 1);
+        return { time, value: degradationValue(result.model, unit.a, unit.b, time) };
+      });
+      return { unit: unit.unit, color: `hsl(var(--chart-${(i % 5) + 1}))`, line, points: unit.measurements };
+    });
+  }, [result]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('degradation.cardTitle')}</CardTitle>
+        <CardDescription>{t('degradation.cardDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>{t('degradation.dataLabel')}</Label>
+            <Textarea rows={8} className="font-mono text-xs" value={data} onChange={e => setData(e.target.value)} />
+            <p className="text-xs text-muted-foreground">{t('degradation.dataDescription')}</p>
+          </div>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{t('degradation.model')}</Label>
+              <Select value={model} onValueChange={(val) => setModel(val as DegradationModel)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {DEGRADATION_MODEL_OPTIONS.map(m => <SelectItem key={m} value={m}>{t(`degradation.models.${m}`)}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="degradation-threshold">{t('degradation.threshold')}</Label>
+              <Input id="degradation-threshold" type="number" value={threshold} onChange={e => setThreshold(Number(e.target.value))} />
+            </div>
+            <Button onClick={handleAnalyze} className="w-full">{t('degradation.analyzeButton')}</Button>
+          </div>
+        </div>
+
+        {result && (
+          <>
+            <div className="h-80 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart margin={{ top: 5, right: 20, left: 10, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    domain={[0, 'dataMax']}
+                    stroke="hsl(var(--muted-foreground))"
+                    tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                    label={{ value: t('charts.time'), position: 'insideBottom', offset: -10, fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                  />
+                  <YAxis
+                    stroke="hsl(var(--muted-foreground))"
+                    tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                    label={{ value: t('degradation.measurement'), angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                  />
+                  <Tooltip
+                    formatter={(value: number) => value.toFixed(3)}
+                    labelFormatter={(label: number) => `${t('charts.time')}: ${Math.round(label)}`}
+                    wrapperClassName="!border-border !bg-background !shadow-lg"
+                  />
+                  <Legend verticalAlign="top" wrapperStyle={{ fontSize: '0.8rem' }} />
+                  <ReferenceLine y={result.threshold} stroke="hsl(var(--destructive))" strokeDasharray="6 3" label={{ value: t('degradation.thresholdLine'), fill: 'hsl(var(--destructive))', fontSize: 12, position: 'insideTopRight' }} />
+                  {paths.flatMap(path => [
+                    <Line key={`${path.unit}-path`} data={path.line} dataKey="value" name={path.unit} stroke={path.color} strokeWidth={1.5} strokeDasharray="5 3" dot={false} isAnimationActive={false} />,
+                    <Line key={`${path.unit}-points`} data={path.points} dataKey="value" name={path.unit} stroke={path.color} strokeWidth={0} dot={{ r: 3, fill: path.color }} legendType="none" isAnimationActive={false} />,
+                  ])}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('degradation.unit')}</TableHead>
+                  <TableHead className="text-right">a</TableHead>
+                  <TableHead className="text-right">b</TableHead>
+                  <TableHead className="text-right">R²</TableHead>
+                  <TableHead className="text-right">{t('degradation.pseudoFailureTime')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.units.map(unit => (
+                  <TableRow key={unit.unit}>
+                    <TableCell>{unit.unit}</TableCell>
+                    <TableCell className="text-right font-mono">{unit.a.toPrecision(4)}</TableCell>
+                    <TableCell className="text-right font-mono">{unit.b.toPrecision(4)}</TableCell>
+                    <TableCell className="text-right font-mono">{unit.rSquared.toFixed(3)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {unit.pseudoFailureTime !== null ? unit.pseudoFailureTime.toFixed(0) : t('degradation.suspended', { time: unit.lastTime })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="rounded-md border p-4 space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label>{t('degradation.distribution')}</Label>
+                  <Select value={distribution} onValueChange={(val) => setDistribution(val as Distribution)}>
+                    <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {PSEUDO_FAILURE_DISTRIBUTIONS.map(d => <SelectItem key={d} value={d}>{d}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2 flex-1 min-w-40">
+                  <Label htmlFor="degradation-name">{t('degradation.supplierName')}</Label>
+                  <Input id="degradation-name" placeholder={t('degradation.defaultName')} value={name} onChange={e => setName(e.target.value)} />
+                </div>
+                <Button variant="outline" onClick={handleAddSupplier} disabled={!estimate}>{t('degradation.addButton')}</Button>
+              </div>
+              {estimate ? (
+                <p className="text-sm font-mono">
+                  {Object.entries(estimate.params)
+                    .filter(([key, value]) => typeof value === 'number' && key !== 'lkv')
+                    .map(([key, value]) => `${t(`parameters.${key}`)} = ${(value as number).toFixed(key === 'rho' ? 3 : 2)}`)
+                    .join(' · ')}
+                </p>
+              ) : (
+                <p className="text-sm text-muted-foreground">{t('degradation.notEnoughFailures')}</p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
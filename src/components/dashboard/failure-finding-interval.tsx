@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useI18n } from '@/i18n/i18n-provider';
+import { getAssetParameters } from '@/lib/reliability';
+import { calculateFailureFindingInterval } from '@/lib/maintenance-policies';
+import type { AssetData, Distribution, Parameters } from '@/lib/types';
+
+interface FailureFindingIntervalProps {
+  asset: AssetData;
+  assets: AssetData[]; // fleet, so the protective device can be another fitted asset
+}
+
+const MANUAL_SOURCE = 'mtbf';
+const DEFAULT_MTBF = 50000;
+const DEFAULT_DEMAND_RATE = 0.1;
+const DEFAULT_TOLERABLE_PROBABILITY = 1e-4;
+
+export default function FailureFindingInterval({ asset, assets }: FailureFindingIntervalProps) {
+  const { t } = useI18n();
+
+  const fittedAssets = useMemo(
+    () => [asset, ...assets.filter(a => a.id !== asset.id)].filter(a => a.distribution && a.analysisState !== 'error'),
+    [asset, assets]
+  );
+
+  const [source, setSource] = useState(asset.distribution ? asset.id : MANUAL_SOURCE);
+  const [mtbf, setMtbf] = useState(DEFAULT_MTBF);
+  const [demandRate, setDemandRate] = useState(DEFAULT_DEMAND_RATE);
+  const [tolerableProbability, setTolerableProbability] = useState(DEFAULT_TOLERABLE_PROBABILITY);
+
+  const device = fittedAssets.find(a => a.id === source);
+
+  const result = useMemo(() => {
+    let distribution: Distribution = 'Exponential';
+    let params: Parameters = { lambda: mtbf > 0 ? 1 / mtbf : undefined };
+    if (device) {
+      distribution = device.distribution!;
+      params = getAssetParameters(device);
+    }
+    return calculateFailureFindingInterval({ distribution, params, demandRate, tolerableProbability });
+  }, [device, mtbf, demandRate, tolerableProbability]);
+
+  const units = device?.units ?? 'h';
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">{t('failureFinding.description')}</p>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs">{t('failureFinding.device')}</Label>
+          <Select value={device ? source : MANUAL_SOURCE} onValueChange={setSource}>
+            <SelectTrigger className="h-8 w-56 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={MANUAL_SOURCE}>{t('failureFinding.manualMtbf')}</SelectItem>
+              {fittedAssets.map(a => <SelectItem key={a.id} value={a.id}>{`${a.name} (${a.distribution})`}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        {!device && (
+          <div className="space-y-1">
+            <Label htmlFor="ffi-mtbf" className="text-xs">{t('failureFinding.mtbf')}</Label>
+            <Input id="ffi-mtbf" type="number" min={0} className="h-8 w-32" value={mtbf} onChange={e => setMtbf(Number(e.target.value))} />
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor="ffi-demand" className="text-xs">{t('failureFinding.demandRate')}</Label>
+          <Input id="ffi-demand" type="number" min={0} step={0.01} className="h-8 w-32" value={demandRate} onChange={e => setDemandRate(Number(e.target.value))} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="ffi-tolerable" className="text-xs">{t('failureFinding.tolerableProbability')}</Label>
+          <Input id="ffi-tolerable" type="number" min={0} step={0.00001} className="h-8 w-32" value={tolerableProbability} onChange={e => setTolerableProbability(Number(e.target.value))} />
+        </div>
+      </div>
+
+      {'error' in result ? (
+        <p className="text-sm text-muted-foreground">{result.error}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+            <div className="rounded-md border p-3">
+              <div className="text-xs text-muted-foreground">{t('failureFinding.allowedUnavailability')}</div>
+              <div className="text-lg font-bold font-mono">{result.allowedUnavailability.toExponential(2)}</div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-xs text-muted-foreground">{t('failureFinding.mtbfUsed')}</div>
+              <div className="text-lg font-bold font-mono">{Math.round(result.mtbf).toLocaleString()} {units}</div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-xs text-muted-foreground">{t('failureFinding.exactInterval')}</div>
+              <div className="text-lg font-bold font-mono text-primary">{Math.round(result.exactInterval).toLocaleString()} {units}</div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-xs text-muted-foreground">{t('failureFinding.approximateInterval')}</div>
+              <div className="text-lg font-bold font-mono">{Math.round(result.approximateInterval).toLocaleString()} {units}</div>
+              <div className="text-xs text-muted-foreground">
+                {t('failureFinding.approximateUnavailability', { value: result.approximateUnavailability.toExponential(2) })}
+              </div>
+            </div>
+          </div>
+
+          <div className="h-72 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={result.curve} margin={{ top: 5, right: 20, left: 10, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  dataKey="interval"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  stroke="hsl(var(--muted-foreground))"
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                  tickFormatter={(tick: number) => Math.round(tick).toLocaleString()}
+                  label={{ value: t('failureFinding.interval'), position: 'insideBottom', offset: -10, fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                />
+                <YAxis
+                  stroke="hsl(var(--muted-foreground))"
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                  tickFormatter={(tick: number) => tick.toExponential(1)}
+                />
+                <Tooltip
+                  formatter={(value: number) => [value.toExponential(3), t('failureFinding.unavailability')]}
+                  labelFormatter={(label: number) => `${t('failureFinding.interval')}: ${Math.round(label)}`}
+                  wrapperClassName="!border-border !bg-background !shadow-lg"
+                />
+                <ReferenceLine y={result.allowedUnavailability} stroke="hsl(var(--destructive))" strokeDasharray="6 3" />
+                <ReferenceLine x={result.exactInterval} stroke="hsl(var(--primary))" strokeDasharray="3 3" label={{ value: t('failureFinding.exact'), fill: 'hsl(var(--primary))', fontSize: 12, position: 'insideTopLeft' }} />
+                <ReferenceLine x={result.approximateInterval} stroke="hsl(var(--muted-foreground))" strokeDasharray="3 3" label={{ value: '2·U·MTBF', fill: 'hsl(var(--muted-foreground))', fontSize: 12, position: 'insideTopRight' }} />
+                <Line type="monotone" dataKey="unavailability" stroke="hsl(var(--primary))" dot={false} strokeWidth={2} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-muted-foreground">{t('failureFinding.note')}</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { useI18n } from '@/i18n/i18n-provider';
+import { getAssetParameters } from '@/lib/reliability';
+import { analyzeFaultTree } from '@/lib/fault-tree';
+import type { AssetData, FaultTreeNode, FaultTreeNodeType } from '@/lib/types';
+
+interface FaultTreeAnalysisProps {
+  asset: AssetData;
+  assets: AssetData[]; // fleet, for basic events linked to other fitted assets
+}
+
+type Translate = (key: string, args?: any) => string;
+
+const GATE_TYPES: Exclude<FaultTreeNodeType, 'basic'>[] = ['or', 'and', 'vote'];
+const FIXED_SOURCE = 'fixed';
+const DEFAULT_PROBABILITY = 0.01;
+// One year of continuous operation
+const DEFAULT_TIME = 8760;
+const MAX_CUT_SETS_SHOWN = 20;
+
+const newNodeId = () => `${new Date().getTime()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const newBasicEvent = (name: string): FaultTreeNode => ({ id: newNodeId(), type: 'basic', name, probability: DEFAULT_PROBABILITY });
+
+const updateNode = (node: FaultTreeNode, id: string, update: (n: FaultTreeNode) => FaultTreeNode): FaultTreeNode =>
+  node.id === id ? update(node) : { ...node, children: node.children?.map(child => updateNode(child, id, update)) };
+
+const removeNode = (node: FaultTreeNode, id: string): FaultTreeNode =>
+  ({ ...node, children: node.children?.filter(child => child.id !== id).map(child => removeNode(child, id)) });
+
+const NodeEditor = ({ node, isTop, assets, onChange, onRemove, t }: {
+  node: FaultTreeNode,
+  isTop?: boolean,
+  assets: AssetData[],
+  onChange: (id: string, update: (n: FaultTreeNode) => FaultTreeNode) => void,
+  onRemove: (id: string) => void,
+  t: Translate,
+}) => {
+  const nameInput = (
+    <Input className="h-8 min-w-32 flex-1 text-xs" value={node.name} onChange={e => onChange(node.id, n => ({ ...n, name: e.target.value }))} />
+  );
+  const removeButton = !isTop && (
+    <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => onRemove(node.id)} aria-label={t('faultTree.remove')}>
+      <Trash2 className="h-4 w-4 text-destructive" />
+    </Button>
+  );
+
+  if (node.type === 'basic') {
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        {nameInput}
+        <Select
+          value={node.assetId ?? FIXED_SOURCE}
+          onValueChange={(val) => onChange(node.id, n => val === FIXED_SOURCE
+            ? { ...n, assetId: undefined, probability: n.probability ?? DEFAULT_PROBABILITY }
+            : { ...n, assetId: val })}
+        >
+          <SelectTrigger className="h-8 w-44 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={FIXED_SOURCE}>{t('faultTree.fixedProbability')}</SelectItem>
+            {assets.map(a => <SelectItem key={a.id} value={a.id}>{`${a.name} (${a.distribution})`}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        {!node.assetId && (
+          <Input
+            type="number" min={0} max={1} step={0.001} className="h-8 w-24 text-xs"
+            value={node.probability ?? ''}
+            onChange={e => onChange(node.id, n => ({ ...n, probability: Number(e.target.value) }))}
+          />
+        )}
+        {removeButton}
+      </div>
+    );
+  }
+
+  const children = node.children ?? [];
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={node.type} onValueChange={(val) => onChange(node.id, n => ({ ...n, type: val as FaultTreeNodeType }))}>
+          <SelectTrigger className="h-8 w-28 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {GATE_TYPES.map(type => <SelectItem key={type} value={type}>{t(`faultTree.gates.${type}`)}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        {node.type === 'vote' && (
+          <div className="flex items-center gap-1 text-xs">
+            <Input
+              type="number" min={1} max={children.length} className="h-8 w-14"
+              value={node.k ?? 1}
+              onChange={e => onChange(node.id, n => ({ ...n, k: Number(e.target.value) }))}
+            />
+            <span className="text-muted-foreground">{t('faultTree.ofN', { n: children.length })}</span>
+          </div>
+        )}
+        {nameInput}
+        {removeButton}
+      </div>
+      <div className="space-y-2 border-l-2 border-dashed pl-3">
+        {children.map(child => (
+          <NodeEditor key={child.id} node={child} assets={assets} onChange={onChange} onRemove={onRemove} t={t} />
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onChange(node.id, n => ({ ...n, children: [...(n.children ?? []), newBasicEvent(t('faultTree.newEvent'))] }))}>
+          <Plus className="mr-1 h-3 w-3" />{t('faultTree.addEvent')}
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onChange(node.id, n => ({ ...n, children: [...(n.children ?? []), { id: newNodeId(), type: 'and', name: t('faultTree.newGate'), k: 1, children: [newBasicEvent(t('faultTree.newEvent'))] }] }))}>
+          <Plus className="mr-1 h-3 w-3" />{t('faultTree.addGate')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default function FaultTreeAnalysis({ asset, assets }: FaultTreeAnalysisProps) {
+  const { t } = useI18n();
+  const [time, setTime] = useState(DEFAULT_TIME);
+
+  // The fleet list may hold a stale copy of the asset being viewed
+  const fittedAssets = useMemo(
+    () => [asset, ...assets.filter(a => a.id !== asset.id)].filter(a => a.distribution && a.analysisState !== 'error'),
+    [asset, assets]
+  );
+
+  // The top event starts from the asset's own failure
+  const [tree, setTree] = useState<FaultTreeNode>(() => ({
+    id: 'top',
+    type: 'or',
+    name: t('faultTree.topEvent', { asset: asset.name }),
+    children: [asset.distribution
+      ? { id: newNodeId(), type: 'basic', name: asset.name, assetId: asset.id }
+      : newBasicEvent(t('faultTree.newEvent'))],
+  }));
+
+  // Events linked to the same asset are one event wherever they appear, so they share its id
+  const resolved = useMemo(() => {
+    const resolve = (node: FaultTreeNode): FaultTreeNode => {
+      if (node.type !== 'basic') return { ...node, children: node.children?.map(resolve) };
+      const linked = node.assetId ? fittedAssets.find(a => a.id === node.assetId) : undefined;
+      if (!linked) return { ...node, assetId: undefined };
+      return { ...node, id: `asset:${linked.id}`, distribution: linked.distribution, params: getAssetParameters(linked) };
+    };
+    return resolve(tree);
+  }, [tree, fittedAssets]);
+
+  const analysis = useMemo(() => analyzeFaultTree(resolved, time), [resolved, time]);
+
+  const eventNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    const collect = (node: FaultTreeNode) => node.type === 'basic' ? (names[node.id] = node.name) : node.children?.forEach(collect);
+    collect(resolved);
+    return names;
+  }, [resolved]);
+
+  const handleChange = (id: string, update: (n: FaultTreeNode) => FaultTreeNode) => setTree(prev => updateNode(prev, id, update));
+  const handleRemove = (id: string) => setTree(prev => removeNode(prev, id));
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">{t('faultTree.description')}</p>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="fta-time" className="text-xs">{t('faultTree.time', { units: asset.units ?? 'h' })}</Label>
+          <Input id="fta-time" type="number" min={0} className="h-8 w-32" value={time} onChange={e => setTime(Math.max(0, Number(e.target.value) || 0))} />
+        </div>
+        <div className="flex gap-2">
+          <Badge variant="outline">{t('faultTree.severity', { value: asset.severity })}</Badge>
+          <Badge variant="outline">{t('faultTree.rpn', { value: asset.rpn })}</Badge>
+        </div>
+      </div>
+
+      <NodeEditor node={tree} isTop assets={fittedAssets} onChange={handleChange} onRemove={handleRemove} t={t} />
+
+      {'error' in analysis ? (
+        <p className="text-sm text-muted-foreground">{analysis.error}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <div className="rounded-md border p-3">
+              <div className="text-xs text-muted-foreground">{t('faultTree.topProbability', { time: analysis.time })}</div>
+              <div className="text-lg font-bold font-mono">{analysis.topProbability.toExponential(3)}</div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-xs text-muted-foreground">{t('faultTree.upperBound')}</div>
+              <div className="text-lg font-bold font-mono">{analysis.cutSetUpperBound.toExponential(3)}</div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-xs text-muted-foreground">{t('faultTree.risk')}</div>
+              <div className="text-lg font-bold font-mono">{(analysis.topProbability * asset.severity).toFixed(2)}</div>
+            </div>
+          </div>
+
+          <div className="grid gap-6 xl:grid-cols-2">
+            <div>
+              <h4 className="mb-2 text-sm font-semibold">{t('faultTree.cutSetsTitle', { count: analysis.cutSets.length })}</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('faultTree.cutSet')}</TableHead>
+                    <TableHead className="text-right">{t('faultTree.order')}</TableHead>
+                    <TableHead className="text-right">{t('faultTree.probability')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analysis.cutSets.slice(0, MAX_CUT_SETS_SHOWN).map(cutSet => (
+                    <TableRow key={cutSet.events.join('|')}>
+                      <TableCell className="text-xs">{`{ ${cutSet.events.map(id => eventNames[id]).join(', ')} }`}</TableCell>
+                      <TableCell className="text-right font-mono">{cutSet.events.length}</TableCell>
+                      <TableCell className="text-right font-mono">{cutSet.probability.toExponential(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div>
+              <h4 className="mb-2 text-sm font-semibold">{t('faultTree.importanceTitle')}</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('faultTree.event')}</TableHead>
+                    <TableHead className="text-right">{t('faultTree.probability')}</TableHead>
+                    <TableHead className="text-right">Fussell-Vesely</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analysis.importance.map(item => (
+                    <TableRow key={item.id}>
+                      <TableCell className="text-xs">{item.name}</TableCell>
+                      <TableCell className="text-right font-mono">{item.probability.toExponential(2)}</TableCell>
+                      <TableCell className="text-right font-mono">{item.fussellVesely.toFixed(4)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { AlertTriangle, ArrowDown, ArrowRight, ArrowUp, Clock, Cog, DollarSign, MapPin, Pencil, Search, Tag, Trash2, TrendingUp, Upload, Wrench, CalendarClock, Loader2 } from 'lucide-react';
+import { AlertTriangle, ArrowDown, ArrowRight, ArrowUp, TrendingDown, Clock, Cog, DollarSign, MapPin, Pencil, Search, Tag, Trash2, TrendingUp, Upload, Wrench, CalendarClock, Loader2 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -9,15 +9,18 @@ import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Progress } from '@/components/ui/progress';
 import { useI18n } from '@/i18n/i18n-provider';
-import type { AssetData, LogEvent } from '@/lib/types';
+import type { AssetData, LogEvent, RecurrenceHistory } from '@/lib/types';
 import { cn } from '@/lib/utils';
 import assetData from '@/lib/asset-data.json';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { AssetDetailView } from './asset-detail-view';
+import McfChart from './mcf-chart';
+import AvailabilitySimulator from './availability-simulator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Textarea } from '../ui/textarea';
-import { findBestDistribution, getReliability, getMedianLife } from '@/lib/reliability';
+import { countDistinctFailures, findBestDistribution, getAssetParameters, hasDegenerateParameters, MIN_DISTINCT_FAILURES, getReliability, getMedianLife } from '@/lib/reliability';
+import { analyzeFailureTrend } from '@/lib/repairable-systems';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -119,6 +122,37 @@ function parseDate(dateStr: string): Date | null {
     return null;
 }
 
+// Recurrence history for the MCF: ages in hours from the first logged event, which opens the
+// observation, up to the last logged event of any kind, where the asset is censored.
+function toRecurrenceHistory(asset: AssetData): RecurrenceHistory | null {
+    const events = (asset.events ?? [])
+        .map(e => ({ status: e.status.toUpperCase(), start: parseDate(e.startDate), end: parseDate(e.endDate || e.startDate) }))
+        .filter((e): e is { status: string; start: Date; end: Date | null } => e.start !== null);
+    if (events.length < 2) return null;
+
+    const origin = Math.min(...events.map(e => e.start.getTime()));
+    const last = Math.max(...events.map(e => (e.end ?? e.start).getTime()));
+    const toHours = (date: Date) => (date.getTime() - origin) / (1000 * 60 * 60);
+
+    const eventAges = events
+        .filter(e => ['FALHA', 'CORRETIVA'].includes(e.status))
+        .map(e => toHours(e.start))
+        .filter(age => age > 0);
+    const censorAge = toHours(new Date(last));
+    return censorAge > 0 ? { id: asset.id, eventAges, censorAge } : null;
+}
+
+// Repair durations in hours of the logged failures, with the same same-day convention as the import
+function toRepairDurations(asset: AssetData): number[] {
+    return (asset.events ?? [])
+        .filter(e => ['FALHA', 'CORRETIVA'].includes(e.status.toUpperCase()))
+        .map(e => ({ start: parseDate(e.startDate), end: parseDate(e.endDate) }))
+        .filter((e): e is { start: Date; end: Date } => e.start !== null && e.end !== null)
+        .map(e => (e.end.getTime() - e.start.getTime()) / (1000 * 60 * 60))
+        .filter(hours => hours >= 0)
+        .map(hours => hours === 0 ? 24 : hours);
+}
+
 
 function AssetDataMassEditor({ assets, onSave, t }: { assets: AssetData[], onSave: (assets: AssetData[]) => void, t: (key: string, args?: any) => string }) {
   const [isOpen, setIsOpen] = React.useState(false);
@@ -497,6 +531,26 @@ const KpiCard = ({ title, value, subtitle, icon: Icon, trend, trendDirection, tr
     );
 };
 
+// Flags assets whose failures show a significant trend, where a renewal-based fit is misleading
+const TrendBadge = ({ asset, t }: { asset: AssetData, t: (key: string, args?: any) => string }) => {
+    if (!asset.trend || asset.trend.trend === 'none') return null;
+
+    const isDeteriorating = asset.trend.trend === 'deteriorating';
+    const Icon = isDeteriorating ? TrendingUp : TrendingDown;
+    const details = asset.trend.tests.map(r => `${t(`performance.trend.tests.${r.test}`)}: p = ${r.pValue.toFixed(3)}`).join('\n');
+
+    return (
+        <Badge
+            variant="outline"
+            className={cn("gap-1 border-0", isDeteriorating ? 'bg-red-500/20 text-red-500' : 'bg-green-500/20 text-green-500')}
+            title={`${t('performance.trend.tooltip')}\n${details}`}
+        >
+            <Icon className="h-3 w-3" />
+            {t(`performance.trend.${asset.trend.trend}`)}
+        </Badge>
+    );
+};
+
 const getInitialAssets = (): AssetData[] => {
     if (typeof window === 'undefined') {
         return [];
@@ -537,29 +591,39 @@ export default function MaintenanceDashboard() {
             
             // Clean slate for analysis fields
             delete assetToAnalyze.distribution;
+            delete assetToAnalyze.params;
             delete assetToAnalyze.beta;
             delete assetToAnalyze.eta;
+            delete assetToAnalyze.gamma;
             delete assetToAnalyze.mean;
             delete assetToAnalyze.stdDev;
             delete assetToAnalyze.lambda;
             delete assetToAnalyze.rho;
+            delete assetToAnalyze.trend;
             assetToAnalyze.lifecycle = 'stable';
             assetToAnalyze.analysisState = undefined;
 
             const failureTimesArray = (assetToAnalyze.failureTimes || '').split(/[,; ]+/).map(t => parseFloat(t.trim())).filter(t => !isNaN(t) && t > 0);
 
-            if (failureTimesArray.length < 2) {
+            if (countDistinctFailures(failureTimesArray) < MIN_DISTINCT_FAILURES) {
                 assetToAnalyze.analysisState = 'insufficient_data';
                 return assetToAnalyze;
             }
 
-            const { best, results } = findBestDistribution(failureTimesArray, []);
-            const bestFit = results.find(r => r.distribution === best);
+            // A trend in the event sequence breaks the i.i.d. assumption behind the fit below
+            assetToAnalyze.trend = analyzeFailureTrend(failureTimesArray) ?? undefined;
+
+            // Every other tool reads these parameters, so a fit that collapsed onto the data is passed over
+            const { results } = findBestDistribution(failureTimesArray, []);
+            const bestFit = results.find(r => !hasDegenerateParameters(r.params));
+            const best = bestFit?.distribution;
 
             if (best && bestFit) {
                 assetToAnalyze.distribution = best;
+                assetToAnalyze.params = { ...bestFit.params, rho: bestFit.rSquared };
                 assetToAnalyze.beta = bestFit.params.beta;
                 assetToAnalyze.eta = bestFit.params.eta;
+                assetToAnalyze.gamma = bestFit.params.gamma;
                 assetToAnalyze.mean = bestFit.params.mean;
                 assetToAnalyze.stdDev = bestFit.params.stdDev;
                 assetToAnalyze.lambda = bestFit.params.lambda;
@@ -625,6 +689,21 @@ export default function MaintenanceDashboard() {
     }, [assets]);
 
 
+    const recurrenceHistories = React.useMemo(() => {
+        const histories: Record<string, RecurrenceHistory> = {};
+        assets.forEach(asset => {
+            const history = toRecurrenceHistory(asset);
+            if (history) histories[asset.id] = history;
+        });
+        return histories;
+    }, [assets]);
+
+    const repairDurations = React.useMemo(() => {
+        const durations: Record<string, number[]> = {};
+        assets.forEach(asset => { durations[asset.id] = toRepairDurations(asset); });
+        return durations;
+    }, [assets]);
+
     React.useEffect(() => {
         const newHealthData = new Map<string, { score: number; daysRemaining: number }>();
         
@@ -643,10 +722,10 @@ export default function MaintenanceDashboard() {
                 const now = new Date();
                 const hoursSinceLastMaintenance = (now.getTime() - lastMaintenanceDate.getTime()) / (1000 * 60 * 60);
 
-                const reliability = getReliability(asset.distribution, asset, hoursSinceLastMaintenance);
+                const reliability = getReliability(asset.distribution, getAssetParameters(asset), hoursSinceLastMaintenance);
                 let score = isNaN(reliability) ? null : Math.round(reliability * 100);
     
-                let medianLife = getMedianLife(asset.distribution, asset);
+                let medianLife = getMedianLife(asset.distribution, getAssetParameters(asset));
 
                 if (isNaN(medianLife)) {
                     const ft = asset.failureTimes?.split(',').map(t => parseFloat(t.trim())).filter(t => !isNaN(t) && t > 0) ?? [];
@@ -802,10 +881,10 @@ export default function MaintenanceDashboard() {
             const newAssets = prevAssets.map(a => (a.id === updatedAsset.id ? updatedAsset : a));
             const assetsWithCalculations = runAssetsAnalysis(newAssets);
             
-            if (selectedAsset && selectedAsset.id === updatedAsset.id) {
-                const reanalyzedAsset = assetsWithCalculations.find(a => a.id === updatedAsset.id);
-                setSelectedAsset(reanalyzedAsset || null);
-            }
+            // Read the selection when the update lands: the RCM worksheet saves its last edit as the
+            // detail view closes, and must not reopen it
+            const reanalyzedAsset = assetsWithCalculations.find(a => a.id === updatedAsset.id);
+            setSelectedAsset(current => (current && current.id === updatedAsset.id ? reanalyzedAsset || null : current));
 
             return assetsWithCalculations;
         });
@@ -886,7 +965,7 @@ export default function MaintenanceDashboard() {
     );
 
     if (selectedAsset) {
-        return <AssetDetailView asset={selectedAsset} onBack={() => setSelectedAsset(null)} onAssetChange={handleAssetUpdate} />;
+        return <AssetDetailView asset={selectedAsset} assets={assets} onBack={() => setSelectedAsset(null)} onAssetChange={handleAssetUpdate} />;
     }
 
 
@@ -1000,6 +1079,7 @@ export default function MaintenanceDashboard() {
                                                     className="border-transparent"
                                                 >{asset.criticality}</Badge>
                                                 {asset.lifecycle && <Badge className="border-transparent" style={lifecycleStyle}>{lifecycleText}</Badge>}
+                                                <TrendBadge asset={asset} t={t} />
                                             </div>
                                             <div className="text-xs text-muted-foreground flex items-center gap-1.5">
                                                 <span>{asset.id}</span>
@@ -1065,6 +1145,7 @@ export default function MaintenanceDashboard() {
                                             className="border-transparent"
                                         >{asset.criticality}</Badge>
                                         {asset.lifecycle && <Badge className="border-transparent" style={lifecycleStyle}>{lifecycleText}</Badge>}
+                                        <TrendBadge asset={asset} t={t} />
                                     </div>
                                     <div className="text-sm flex items-center gap-2 text-muted-foreground"><MapPin className="h-4 w-4" />{asset.location}</div>
                                     <div className="grid grid-cols-2 gap-x-4 gap-y-3 text-sm pt-4 border-t border-dashed">
@@ -1096,6 +1177,8 @@ export default function MaintenanceDashboard() {
                     })}
                 </CardContent>
             </Card>
+            <McfChart assets={assets} histories={recurrenceHistories} />
+            <AvailabilitySimulator assets={assets} repairDurations={repairDurations} />
             {editingAsset && <AssetEditorDialog asset={editingAsset} onSave={handleSaveAsset} onCancel={() => setEditingAsset(null)} t={t} />}
         </div>
     );
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown } from 'lucide-react';
+import { useI18n } from '@/i18n/i18n-provider';
+import { calculateMeanCumulativeFunction } from '@/lib/repairable-systems';
+import type { AssetData, RecurrenceHistory } from '@/lib/types';
+
+type GroupBy = 'none' | 'location' | 'tag';
+
+interface McfChartProps {
+  assets: AssetData[];
+  histories: Record<string, RecurrenceHistory>; // by asset id
+}
+
+const CONFIDENCE_LEVEL = 95;
+
+const formatTick = (tick: number) => tick >= 1000 ? `${(tick / 1000).toPrecision(2)}k` : tick.toPrecision(2);
+
+export default function McfChart({ assets, histories }: McfChartProps) {
+  const { t } = useI18n();
+  const eligible = useMemo(() => assets.filter(a => histories[a.id]), [assets, histories]);
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [groupBy, setGroupBy] = useState<GroupBy>('none');
+
+  const selected = eligible.filter(a => !excluded.includes(a.id));
+
+  const toggleAsset = (id: string, checked: boolean) => {
+    setExcluded(prev => checked ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  // One MCF per group; an asset with several tags counts in each of them
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, RecurrenceHistory[]>();
+    selected.forEach(asset => {
+      const keys = groupBy === 'location' ? [asset.location || '--']
+        : groupBy === 'tag' ? (asset.tags?.length ? asset.tags : ['--'])
+        : [t('performance.mcf.fleet')];
+      keys.forEach(key => byGroup.set(key, [...(byGroup.get(key) ?? []), histories[asset.id]]));
+    });
+
+    return [...byGroup.entries()].map(([name, group], i) => {
+      const mcf = calculateMeanCumulativeFunction(group, CONFIDENCE_LEVEL);
+      return {
+        name: `${name} (n = ${mcf.units})`,
+        color: `hsl(var(--chart-${(i % 5) + 1}))`,
+        data: [{ age: 0, mcf: 0, lower: 0, upper: 0 }, ...mcf.steps],
+      };
+    }).filter(g => g.data.length > 1);
+  }, [JSON.stringify(selected.map(a => a.id)), groupBy, histories, t]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>{t('performance.mcf.title')}</CardTitle>
+            <CardDescription>{t('performance.mcf.description', { confidence: CONFIDENCE_LEVEL })}</CardDescription>
+          </div>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs">{t('performance.mcf.assets')}</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-8 w-48 justify-between text-xs">
+                    {t('performance.mcf.selected', { count: selected.length, total: eligible.length })}
+                    <ChevronDown className="h-3 w-3 opacity-50" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72 max-h-72 overflow-y-auto space-y-2">
+                  {eligible.map(asset => (
+                    <div key={asset.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`mcf-${asset.id}`}
+                        checked={!excluded.includes(asset.id)}
+                        onCheckedChange={(checked) => toggleAsset(asset.id, checked === true)}
+                      />
+                      <Label htmlFor={`mcf-${asset.id}`} className="text-xs font-normal">{asset.name}</Label>
+                    </div>
+                  ))}
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{t('performance.mcf.groupBy')}</Label>
+              <Select value={groupBy} onValueChange={(val) => setGroupBy(val as GroupBy)}>
+                <SelectTrigger className="h-8 w-36 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(['none', 'location', 'tag'] as GroupBy[]).map(g => (
+                    <SelectItem key={g} value={g}>{t(`performance.mcf.groups.${g}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {groups.length === 0 ? (
+          <div className="flex items-center justify-center h-48">
+            <p className="text-muted-foreground">{t('performance.mcf.noData')}</p>
+          </div>
+        ) : (
+          <div className="h-80 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart margin={{ top: 5, right: 20, left: 10, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis
+                  dataKey="age"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  stroke="hsl(var(--muted-foreground))"
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                  tickFormatter={formatTick}
+                  label={{ value: t('performance.mcf.age'), position: 'insideBottom', offset: -10, fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                />
+                <YAxis
+                  stroke="hsl(var(--muted-foreground))"
+                  tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                  tickFormatter={(tick: number) => tick.toFixed(1)}
+                  label={{ value: t('performance.mcf.axis'), angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                />
+                <Tooltip
+                  formatter={(value: number) => value.toFixed(3)}
+                  labelFormatter={(label: number) => `${t('performance.mcf.age')}: ${Math.round(label)}`}
+                  wrapperClassName="!border-border !bg-background !shadow-lg"
+                />
+                <Legend verticalAlign="top" wrapperStyle={{ fontSize: '0.8rem' }} />
+                {groups.flatMap(group => [
+                  <Line key={`${group.name}-mcf`} data={group.data} dataKey="mcf" name={group.name} type="stepAfter" stroke={group.color} strokeWidth={2} dot={false} isAnimationActive={false} />,
+                  <Line key={`${group.name}-lower`} data={group.data} dataKey="lower" name={`${group.name} ${t('performance.mcf.lower')}`} type="stepAfter" stroke={group.color} strokeWidth={1} strokeDasharray="4 4" strokeOpacity={0.6} dot={false} legendType="none" isAnimationActive={false} />,
+                  <Line key={`${group.name}-upper`} data={group.data} dataKey="upper" name={`${group.name} ${t('performance.mcf.upper')}`} type="stepAfter" stroke={group.color} strokeWidth={1} strokeDasharray="4 4" strokeOpacity={0.6} dot={false} legendType="none" isAnimationActive={false} />,
+                ])}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
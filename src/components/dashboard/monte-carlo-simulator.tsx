@@ -12,14 +12,16 @@ import { Loader2, Plus, Trash2, Trophy } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { TestTube } from '@/components/icons';
 import ReactECharts from 'echarts-for-react';
-import { analyzeCompetingFailureModes, calculateLikelihoodRatioBounds, estimateParametersByRankRegression, generateWeibullFailureTime, calculateLikelihoodRatioContour, calculateExpectedFailures, fitWeibullMLE, getFailureProbWithBounds } from '@/lib/reliability';
-import type { Supplier, LRBoundsResult, PlotData, ContourData, DistributionAnalysisResult, ExpectedFailuresResult, BudgetInput, CensoredData, CompetingFailureMode, AnalysisTableData } from '@/lib/types';
+import { analyzeCompetingFailureModes, calculateLikelihoodRatioBounds, calculateProfileLikelihoodBounds, estimateParametersByRankRegression, generateWeibullFailureTime, calculateLikelihoodRatioContour, calculateExpectedFailures, fitWeibullMLE, getFailureProbWithBounds } from '@/lib/reliability';
+import { optimizeSpareStock } from '@/lib/spares';
+import type { Supplier, LRBoundsResult, ProfileBoundsResult, PlotData, ContourData, DistributionAnalysisResult, ExpectedFailuresResult, BudgetInput, CensoredData, CompetingFailureMode, AnalysisTableData, SparesOptimization } from '@/lib/types';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { cn } from '@/lib/utils';
 import { invNormalCdf } from '@/lib/reliability';
@@ -37,11 +39,21 @@ const formSchema = z.object({
   simulationCount: z.coerce.number().int().min(10, { message: "Mínimo de 10 simulações." }).max(2000, { message: "Máximo de 2000 simulações." }).optional(),
   confidenceLevel: z.coerce.number().min(1).max(99.9),
   manualData: z.string().optional(),
+  manualSuspensions: z.string().optional(),
+  confidenceDistribution: z.enum(['Weibull', 'Lognormal', 'Normal', 'Exponential', 'Loglogistic', 'Gumbel', 'Gamma', 'GeneralizedGamma']),
   timeForCalc: z.coerce.number().gt(0, "O tempo deve ser positivo").optional(),
+  reliabilityForCalc: z.coerce.number().gt(0, "A confiabilidade deve estar entre 0 e 100").lt(100, "A confiabilidade deve estar entre 0 e 100").optional(),
   budgetSourceData: z.string().optional(),
   budgetPopulationData: z.string().optional(),
   budgetPeriod: z.coerce.number().gt(0, "O período deve ser positivo").optional(),
   budgetItemCost: z.coerce.number().gt(0, "O custo deve ser positivo").optional(),
+  budgetBoundsSide: z.enum(['two-sided', 'one-sided']),
+  budgetFailureCounting: z.enum(['first', 'renewals']),
+  sparesLeadTime: z.coerce.number().gt(0, "O lead time deve ser positivo").optional(),
+  sparesReviewPeriod: z.coerce.number().min(0, "O período de revisão não pode ser negativo").optional(),
+  sparesHoldingCost: z.coerce.number().min(0, "O custo de estocagem não pode ser negativo").optional(),
+  sparesFillRate: z.coerce.number().gt(0).lt(100),
+  sparesMethod: z.enum(['simulation', 'poisson']),
   competingModes: z.array(competingModeSchema).min(1, "Adicione pelo menos um modo de falha."),
   competingModesPeriod: z.coerce.number().gt(0, "O período deve ser positivo").optional(),
 }).refine(data => {
@@ -53,16 +65,19 @@ type FormData = z.infer<typeof formSchema>;
 
 interface SimulationResult {
   boundsData?: LRBoundsResult;
+  profileBounds?: ProfileBoundsResult;
   dispersionData?: PlotData[];
   originalPlot?: PlotData;
   contourData?: ContourData;
   budgetResult?: ExpectedFailuresResult;
+  sparesResult?: SparesOptimization;
   competingModesResult?: CompetingModesAnalysis;
   simulationCount?: number;
   budgetParams?: { beta: number, eta: number };
+  budgetRenewals?: boolean;
 }
 
-const FisherMatrixPlot = ({ data, timeForCalc, t }: { data?: LRBoundsResult, timeForCalc?: number, t: (key: string) => string }) => {
+const FisherMatrixPlot = ({ data, profile, timeForCalc, t }: { data?: LRBoundsResult, profile?: ProfileBoundsResult, timeForCalc?: number, t: (key: string, args?: any) => string }) => {
     if (!data || !data.medianLine) return null;
 
     const {
@@ -149,6 +164,19 @@ const FisherMatrixPlot = ({ data, timeForCalc, t }: { data?: LRBoundsResult, tim
         upperScatterSeries,
     ];
 
+    if (profile?.lowerLine && profile.upperLine) {
+        const profileName = t('monteCarlo.confidence.profileBounds', { distribution: profile.distribution, level: confidenceLevel });
+        series.push(...[profile.lowerLine, profile.upperLine].map(line => ({
+            name: profileName,
+            type: 'line',
+            data: line.map(p => [p.x, p.y]),
+            showSymbol: false,
+            smooth: true,
+            lineStyle: { width: 2, type: 'dashed', color: 'hsl(var(--chart-4))' },
+            z: 8,
+        })));
+    }
+
     if (timeForCalc && calculation && calculation.medianAtT !== null && calculation.lowerAtT !== null && calculation.upperAtT !== null) {
          const timeLog = Math.log(timeForCalc);
          medianSeries.markLine = {
@@ -210,7 +238,7 @@ const FisherMatrixPlot = ({ data, timeForCalc, t }: { data?: LRBoundsResult, tim
             }
         },
         legend: {
-            data: series.map(s => s.name).filter(name => name && !name.includes(t('monteCarlo.confidence.data')) && !name.includes(t('monteCarlo.confidence.valueAtT'))),
+            data: series.map(s => s.name).filter((name, i, names) => name && names.indexOf(name) === i && !name.includes(t('monteCarlo.confidence.data')) && !name.includes(t('monteCarlo.confidence.valueAtT'))),
             bottom: 0,
             textStyle: { color: 'hsl(var(--muted-foreground))', fontSize: 13 },
             itemGap: 20,
@@ -648,6 +676,24 @@ const ConfidenceControls = ({ form, isSimulating, onSubmit, t }: { form: any, is
                             </FormItem>
                         )}
                     />
+                    <FormField
+                        control={form.control}
+                        name="manualSuspensions"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>{t('monteCarlo.confidence.suspensionsLabel')}</FormLabel>
+                                <FormControl>
+                                    <Textarea
+                                        placeholder="Ex: 1300, 1300, 1500..."
+                                        rows={3}
+                                        {...field}
+                                    />
+                                </FormControl>
+                                <FormDescription>{t('monteCarlo.confidence.suspensionsDescription')}</FormDescription>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
                     
                     <FormField
                         control={form.control}
@@ -686,6 +732,43 @@ const ConfidenceControls = ({ form, isSimulating, onSubmit, t }: { form: any, is
                         )}
                     />
 
+                    <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                            control={form.control}
+                            name="confidenceDistribution"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>{t('monteCarlo.confidence.distributionLabel')}</FormLabel>
+                                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                        <FormControl>
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                            {['Weibull', 'Lognormal', 'Normal', 'Exponential', 'Loglogistic', 'Gumbel', 'Gamma', 'GeneralizedGamma'].map(dist => <SelectItem key={dist} value={dist}>{dist === 'GeneralizedGamma' ? 'Generalized Gamma' : dist}</SelectItem>)}
+                                        </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="reliabilityForCalc"
+                            render={({ field }) => (
+                               <FormItem>
+                                   <FormLabel>{t('monteCarlo.confidence.reliabilityLabel')}</FormLabel>
+                                   <FormControl>
+                                       <Input type="number" step="0.1" placeholder="Ex: 90" {...field} value={field.value ?? ''}/>
+                                   </FormControl>
+                                   <FormMessage />
+                               </FormItem>
+                            )}
+                        />
+                    </div>
+                    <FormDescription>{t('monteCarlo.confidence.profileDescription')}</FormDescription>
+
                     <Button type="submit" disabled={isSimulating} className="w-full">
                         {isSimulating ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />{t('monteCarlo.calculating')}</> : t('monteCarlo.confidence.button')}
                     </Button>
@@ -788,6 +871,24 @@ const ContourControls = ({ form, isSimulating, onSubmit, t }: { form: any; isSim
                             </FormItem>
                         )}
                     />
+                    <FormField
+                        control={form.control}
+                        name="manualSuspensions"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>{t('monteCarlo.confidence.suspensionsLabel')}</FormLabel>
+                                <FormControl>
+                                    <Textarea
+                                        placeholder="Ex: 1300, 1300, 1500..."
+                                        rows={3}
+                                        {...field}
+                                    />
+                                </FormControl>
+                                <FormDescription>{t('monteCarlo.confidence.suspensionsDescription')}</FormDescription>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
                     <FormField
                         control={form.control}
                         name="confidenceLevel"
@@ -913,6 +1014,52 @@ const BudgetControls = ({ form, isSimulating, onSubmit, onExtract, t }: { form:
                             </FormItem>
                         )}
                     />
+                    <FormField
+                        control={form.control}
+                        name="budgetBoundsSide"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>{t('monteCarlo.budget.boundsSideLabel')}</FormLabel>
+                                <FormControl>
+                                    <RadioGroup onValueChange={field.onChange} value={field.value} className="flex gap-6">
+                                        <FormItem className="flex items-center space-x-2 space-y-0">
+                                            <FormControl><RadioGroupItem value="two-sided" /></FormControl>
+                                            <FormLabel className="font-normal">{t('monteCarlo.budget.twoSided')}</FormLabel>
+                                        </FormItem>
+                                        <FormItem className="flex items-center space-x-2 space-y-0">
+                                            <FormControl><RadioGroupItem value="one-sided" /></FormControl>
+                                            <FormLabel className="font-normal">{t('monteCarlo.budget.oneSided')}</FormLabel>
+                                        </FormItem>
+                                    </RadioGroup>
+                                </FormControl>
+                                <FormDescription>{t('monteCarlo.budget.boundsSideDescription')}</FormDescription>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                    <FormField
+                        control={form.control}
+                        name="budgetFailureCounting"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>{t('monteCarlo.budget.failureCountingLabel')}</FormLabel>
+                                <FormControl>
+                                    <RadioGroup onValueChange={field.onChange} value={field.value} className="flex gap-6">
+                                        <FormItem className="flex items-center space-x-2 space-y-0">
+                                            <FormControl><RadioGroupItem value="first" /></FormControl>
+                                            <FormLabel className="font-normal">{t('monteCarlo.budget.firstFailure')}</FormLabel>
+                                        </FormItem>
+                                        <FormItem className="flex items-center space-x-2 space-y-0">
+                                            <FormControl><RadioGroupItem value="renewals" /></FormControl>
+                                            <FormLabel className="font-normal">{t('monteCarlo.budget.withRenewals')}</FormLabel>
+                                        </FormItem>
+                                    </RadioGroup>
+                                </FormControl>
+                                <FormDescription>{t('monteCarlo.budget.failureCountingDescription')}</FormDescription>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
                     <Button type="submit" disabled={isSimulating} className="w-full">
                         {isSimulating ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />{t('monteCarlo.calculating')}</> : t('monteCarlo.budget.button')}
                     </Button>
@@ -922,6 +1069,98 @@ const BudgetControls = ({ form, isSimulating, onSubmit, onExtract, t }: { form:
     </Card>
 );
 
+const SparesControls = ({ form, isSimulating, onSubmit, t }: { form: any; isSimulating: boolean; onSubmit: (data: FormData) => void; t: (key: string) => string; }) => {
+    const numberField = (name: string, labelKey: string, placeholder: string) => (
+        <FormField
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+                <FormItem>
+                    <FormLabel>{t(labelKey)}</FormLabel>
+                    <FormControl><Input type="number" placeholder={placeholder} {...field} value={field.value ?? ''} /></FormControl>
+                    <FormMessage />
+                </FormItem>
+            )}
+        />
+    );
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>{t('monteCarlo.spares.cardTitle')}</CardTitle>
+                <CardDescription>{t('monteCarlo.spares.cardDescription')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+                <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                        <FormField
+                            control={form.control}
+                            name="budgetSourceData"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>{t('monteCarlo.budget.sourceDataLabel')}</FormLabel>
+                                    <FormControl>
+                                        <Textarea placeholder={"Ex:\n150 F\n210 S"} rows={6} {...field} />
+                                    </FormControl>
+                                    <FormDescription>{t('monteCarlo.budget.sourceDataDescription')}</FormDescription>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="budgetPopulationData"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>{t('monteCarlo.budget.populationDataLabel')}</FormLabel>
+                                    <FormControl>
+                                        <Textarea placeholder={"Ex:\n0 133\n5 1\n33 1"} rows={4} {...field} />
+                                    </FormControl>
+                                    <FormDescription>{t('monteCarlo.budget.populationDataDescription')}</FormDescription>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <div className="grid grid-cols-2 gap-4">
+                            {numberField('sparesLeadTime', 'monteCarlo.spares.leadTimeLabel', 'Ex: 60')}
+                            {numberField('sparesReviewPeriod', 'monteCarlo.spares.reviewPeriodLabel', 'Ex: 30')}
+                            {numberField('budgetItemCost', 'monteCarlo.budget.costLabel', 'Ex: 2500')}
+                            {numberField('sparesHoldingCost', 'monteCarlo.spares.holdingCostLabel', 'Ex: 500')}
+                            {numberField('sparesFillRate', 'monteCarlo.spares.fillRateLabel', 'Ex: 95')}
+                        </div>
+                        <FormField
+                            control={form.control}
+                            name="sparesMethod"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>{t('monteCarlo.spares.methodLabel')}</FormLabel>
+                                    <FormControl>
+                                        <RadioGroup onValueChange={field.onChange} value={field.value} className="flex gap-6">
+                                            <FormItem className="flex items-center space-x-2 space-y-0">
+                                                <FormControl><RadioGroupItem value="simulation" /></FormControl>
+                                                <FormLabel className="font-normal">{t('monteCarlo.spares.simulation')}</FormLabel>
+                                            </FormItem>
+                                            <FormItem className="flex items-center space-x-2 space-y-0">
+                                                <FormControl><RadioGroupItem value="poisson" /></FormControl>
+                                                <FormLabel className="font-normal">{t('monteCarlo.spares.poisson')}</FormLabel>
+                                            </FormItem>
+                                        </RadioGroup>
+                                    </FormControl>
+                                    <FormDescription>{t('monteCarlo.spares.methodDescription')}</FormDescription>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <Button type="submit" disabled={isSimulating} className="w-full">
+                            {isSimulating ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />{t('monteCarlo.calculating')}</> : t('monteCarlo.spares.button')}
+                        </Button>
+                    </form>
+                </Form>
+            </CardContent>
+        </Card>
+    );
+};
+
 const CompetingModesControls = ({ form, isSimulating, onSubmit, t }: { form: any; isSimulating: boolean; onSubmit: (data: FormData) => void; t: (key: string) => string; }) => {
     const { fields, append, remove } = useFieldArray({
         control: form.control,
@@ -1076,6 +1315,59 @@ const ResultsDisplay = ({ result, timeForCalc, t }: { result: SimulationResult,
     );
 };
 
+const ProfileBoundsDisplay = ({ profile, t }: { profile: ProfileBoundsResult, t: (key: string, args?: any) => string }) => {
+    const { reliabilityAtT, timeAtReliability, confidenceLevel = 90, distribution } = profile;
+    if (!reliabilityAtT && !timeAtReliability) return null;
+    const pct = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>{t('monteCarlo.confidence.profileResults.title', { distribution })}</CardTitle>
+                <CardDescription>{t('monteCarlo.confidence.profileResults.description', { level: confidenceLevel })}</CardDescription>
+            </CardHeader>
+            <CardContent>
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>{t('monteCarlo.confidence.results.metric')}</TableHead>
+                            <TableHead className="text-right">{t('monteCarlo.confidence.profileResults.lower')}</TableHead>
+                            <TableHead className="text-right">{t('monteCarlo.confidence.profileResults.estimate')}</TableHead>
+                            <TableHead className="text-right">{t('monteCarlo.confidence.profileResults.upper')}</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {reliabilityAtT && (
+                            <>
+                                <TableRow>
+                                    <TableCell className="font-medium">{t('monteCarlo.confidence.profileResults.reliabilityAt', { time: reliabilityAtT.time })}</TableCell>
+                                    <TableCell className="text-right font-mono text-red-400">{pct(reliabilityAtT.lower)}</TableCell>
+                                    <TableCell className="text-right font-mono text-blue-400">{pct(reliabilityAtT.value)}</TableCell>
+                                    <TableCell className="text-right font-mono text-red-400">{pct(reliabilityAtT.upper)}</TableCell>
+                                </TableRow>
+                                <TableRow>
+                                    <TableCell className="font-medium">{t('monteCarlo.confidence.profileResults.failureProbAt', { time: reliabilityAtT.time })}</TableCell>
+                                    <TableCell className="text-right font-mono text-red-400">{pct(1 - reliabilityAtT.upper)}</TableCell>
+                                    <TableCell className="text-right font-mono text-blue-400">{pct(1 - reliabilityAtT.value)}</TableCell>
+                                    <TableCell className="text-right font-mono text-red-400">{pct(1 - reliabilityAtT.lower)}</TableCell>
+                                </TableRow>
+                            </>
+                        )}
+                        {timeAtReliability && (
+                            <TableRow>
+                                <TableCell className="font-medium">{t('monteCarlo.confidence.profileResults.timeAt', { reliability: (timeAtReliability.reliability * 100).toFixed(1) })}</TableCell>
+                                <TableCell className="text-right font-mono text-red-400">{timeAtReliability.lower.toFixed(1)}</TableCell>
+                                <TableCell className="text-right font-mono text-blue-400">{timeAtReliability.value.toFixed(1)}</TableCell>
+                                <TableCell className="text-right font-mono text-red-400">{isFinite(timeAtReliability.upper) ? timeAtReliability.upper.toFixed(1) : '∞'}</TableCell>
+                            </TableRow>
+                        )}
+                    </TableBody>
+                </Table>
+            </CardContent>
+        </Card>
+    );
+};
+
 const ContourResultsDisplay = ({ result, t }: { result: SimulationResult, t: (key: string) => string }) => {
     if (!result.contourData) return null;
     const { center, bounds } = result.contourData;
@@ -1120,7 +1412,7 @@ const ContourResultsDisplay = ({ result, t }: { result: SimulationResult, t: (ke
 
 const BudgetResultsDisplay = ({ result, itemCost, confidenceLevel, t }: { result: SimulationResult, itemCost: number, confidenceLevel: number, t: (key: string, args?: any) => string }) => {
     if (!result.budgetResult) return null;
-    const { totals } = result.budgetResult;
+    const { totals, standardErrors } = result.budgetResult;
     const formatCurrency = (value: number) => {
         return value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
     }
@@ -1140,10 +1432,16 @@ const BudgetResultsDisplay = ({ result, itemCost, confidenceLevel, t }: { result
                             <div className="rounded-md border p-4">
                                 <p className="text-sm text-muted-foreground">{t('parameters.beta')}</p>
                                 <p className="text-2xl font-bold">{result.budgetParams.beta.toFixed(3)}</p>
+                                {standardErrors?.beta != null && (
+                                    <p className="text-xs text-muted-foreground">{t('monteCarlo.budget.results.standardError', { value: standardErrors.beta.toFixed(3) })}</p>
+                                )}
                             </div>
                             <div className="rounded-md border p-4">
                                 <p className="text-sm text-muted-foreground">{t('parameters.eta')}</p>
                                 <p className="text-2xl font-bold">{result.budgetParams.eta.toFixed(0)}</p>
+                                {standardErrors?.eta != null && (
+                                    <p className="text-xs text-muted-foreground">{t('monteCarlo.budget.results.standardError', { value: standardErrors.eta.toFixed(0) })}</p>
+                                )}
                             </div>
                         </div>
                     </CardContent>
@@ -1154,6 +1452,8 @@ const BudgetResultsDisplay = ({ result, itemCost, confidenceLevel, t }: { result
                     <CardTitle>{t('monteCarlo.budget.results.budgetTitle')}</CardTitle>
                     <CardDescription>
                         {t('monteCarlo.budget.results.budgetDescription')}
+                        {' '}
+                        {t(result.budgetRenewals ? 'monteCarlo.budget.results.withRenewalsNote' : 'monteCarlo.budget.results.firstFailureNote')}
                     </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -1238,6 +1538,129 @@ const BudgetResultsDisplay = ({ result, itemCost, confidenceLevel, t }: { result
     );
 };
 
+const SparesResultsDisplay = ({ result, t }: { result: SimulationResult, t: (key: string, args?: any) => string }) => {
+    if (!result.sparesResult) return null;
+    const spares = result.sparesResult;
+    const formatCurrency = (value: number) => {
+        return value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+    }
+    const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+    const option = {
+        backgroundColor: 'transparent',
+        grid: { left: 60, right: 30, top: 30, bottom: 50 },
+        tooltip: {
+            trigger: 'axis',
+            formatter: (params: any[]) => `${t('monteCarlo.spares.results.demand')}: ${params[0].name}<br/>${t('monteCarlo.spares.results.probability')}: ${formatPercent(params[0].value)}`,
+        },
+        xAxis: {
+            type: 'category',
+            name: t('monteCarlo.spares.results.demand'),
+            nameLocation: 'middle',
+            nameGap: 30,
+            data: spares.demandDistribution.map(d => d.demand),
+            axisLabel: { color: 'hsl(var(--muted-foreground))' },
+        },
+        yAxis: {
+            type: 'value',
+            axisLabel: { color: 'hsl(var(--muted-foreground))', formatter: (v: number) => `${(v * 100).toFixed(0)}%` },
+            splitLine: { show: true, lineStyle: { type: 'dashed', color: 'rgba(255,255,255,0.04)' } },
+        },
+        series: [{
+            type: 'bar',
+            data: spares.demandDistribution.map(d => ({
+                value: d.probability,
+                itemStyle: { color: d.demand > spares.min ? 'hsl(var(--destructive))' : 'hsl(var(--primary))' },
+            })),
+        }],
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('monteCarlo.spares.results.policyTitle')}</CardTitle>
+                    <CardDescription>
+                        {t('monteCarlo.spares.results.policyDescription', {
+                            beta: result.budgetParams?.beta.toFixed(3) ?? '--',
+                            eta: result.budgetParams?.eta.toFixed(0) ?? '--',
+                            mean: spares.leadTimeDemand.mean.toFixed(2),
+                        })}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div className="rounded-md border p-4">
+                            <p className="text-sm text-muted-foreground">{t('monteCarlo.spares.results.min')}</p>
+                            <p className="text-2xl font-bold">{spares.min}</p>
+                        </div>
+                        <div className="rounded-md border p-4">
+                            <p className="text-sm text-muted-foreground">{t('monteCarlo.spares.results.max')}</p>
+                            <p className="text-2xl font-bold">{spares.max}</p>
+                        </div>
+                        <div className="rounded-md border p-4">
+                            <p className="text-sm text-muted-foreground">{t('monteCarlo.spares.results.fillRate')}</p>
+                            <p className="text-2xl font-bold">{formatPercent(spares.fillRate)}</p>
+                        </div>
+                        <div className="rounded-md border p-4">
+                            <p className="text-sm text-muted-foreground">{t('monteCarlo.spares.results.stockOut')}</p>
+                            <p className="text-2xl font-bold">{formatPercent(spares.stockOutProbability)}</p>
+                        </div>
+                        <div className="rounded-md border p-4">
+                            <p className="text-sm text-muted-foreground">{t('monteCarlo.spares.results.onHand')}</p>
+                            <p className="text-2xl font-bold">{spares.expectedOnHand.toFixed(1)}</p>
+                        </div>
+                        <div className="rounded-md border p-4">
+                            <p className="text-sm text-muted-foreground">{t('monteCarlo.spares.results.holdingCost')}</p>
+                            <p className="text-2xl font-bold">{formatCurrency(spares.holdingCost)}</p>
+                        </div>
+                        <div className="rounded-md border p-4 col-span-2">
+                            <p className="text-sm text-muted-foreground">{t('monteCarlo.spares.results.investment')}</p>
+                            <p className="text-2xl font-bold">{formatCurrency(spares.stockInvestment)}</p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('monteCarlo.spares.results.demandTitle')}</CardTitle>
+                    <CardDescription>{t('monteCarlo.spares.results.demandDescription')}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <ReactECharts option={option} style={{ height: 300 }} notMerge />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>{t('monteCarlo.spares.results.levelsTitle')}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>{t('monteCarlo.spares.results.stock')}</TableHead>
+                                <TableHead className="text-right">{t('monteCarlo.spares.results.fillRate')}</TableHead>
+                                <TableHead className="text-right">{t('monteCarlo.spares.results.stockOut')}</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {spares.levels.map(level => (
+                                <TableRow key={level.stock} className={cn(level.stock === spares.min && 'bg-primary/10')}>
+                                    <TableCell className="font-mono">{level.stock}</TableCell>
+                                    <TableCell className="text-right font-mono">{formatPercent(level.fillRate)}</TableCell>
+                                    <TableCell className="text-right font-mono">{formatPercent(level.stockOutProbability)}</TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
 const CompetingModesResultsDisplay = ({ result, t }: { result: SimulationResult, t: (key: string, args?: any) => string }) => {
     if (!result.competingModesResult) return null;
     const { analyses, failureProbabilities, period, tables } = result.competingModesResult;
@@ -1374,7 +1797,7 @@ interface MonteCarloSimulatorProps {
 export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorProps) {
   const [result, setResult] = useState<SimulationResult | null>(null);
   const [isSimulating, setIsSimulating] = useState(false);
-  const [simulationType, setSimulationType] = useState<'confidence' | 'dispersion' | 'contour' | 'budget' | 'competing'>('confidence');
+  const [simulationType, setSimulationType] = useState<'confidence' | 'dispersion' | 'contour' | 'budget' | 'competing' | 'spares'>('confidence');
   const [isClient, setIsClient] = useState(false);
   const { toast } = useToast();
   const { t } = useI18n();
@@ -1388,11 +1811,21 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
       simulationCount: 200,
       confidenceLevel: 90,
       manualData: '500, 900, 1200, 1600, 1800',
+      manualSuspensions: '',
+      confidenceDistribution: 'Weibull',
       timeForCalc: 700,
+      reliabilityForCalc: 90,
       budgetSourceData: "5 S\n33 S\n39 F\n41 F\n57 F\n60 S\n64 F\n78 S\n91 F\n117 S\n118 S\n124 S\n133 S\n134 F\n135 F\n186 S\n196 F\n203 S\n228 S\n235 F\n241 S\n272 F\n276 S\n277 F\n282 F\n289 S\n290 F\n291 S\n295 F\n296 F\n299 F\n302 F\n302 S\n303 F\n308 F\n326 F\n336 F\n338 F\n347 S\n354 S\n376 S\n376 S\n385 F\n388 S\n389 F\n415 S\n416 S\n422 F\n424 S\n425 F\n425 S\n429 F\n429 F\n434 S\n440 F\n444 F\n458 F\n459 S\n460 S\n471 F\n475 F\n475 S\n482 F\n497 F\n497 F\n520 F\n528 S\n535 F\n541 S\n543 S\n563 F\n576 F\n586 F\n613 F\n618 S\n626 S\n657 S\n662 F\n669 S\n670 F\n677 F\n688 S\n689 S\n708 S\n735 F\n748 F\n754 F\n760 F\n760 F\n773 S\n777 F\n782 F\n821 F\n833 F\n839 F\n859 F\n868 F\n884 S\n896 F\n902 S\n907 F\n931 S\n936 F\n940 F\n940 F\n950 F\n951 F\n968 S\n969 F\n970 F\n970 S\n984 F\n986 F\n1004 F\n1012 S\n1016 F\n1027 S\n1039 F\n1047 S\n1049 F\n1049 S\n1050 S\n1052 S\n1060 F\n1078 F\n1084 S\n1170 S\n1181 S\n1185 S\n1200 F\n1201 S\n1202 F\n1210 F\n1227 F\n1229 F\n1249 F\n1261 F\n1264 S\n1287 F\n1293 S\n1298 F\n1298 S\n1313 F\n1325 F\n1364 F\n1375 S\n1378 F\n1387 S\n1409 F\n1424 S\n1428 F\n1434 F\n1452 F\n1454 F\n1469 F\n1503 F\n1538 F\n1540 F\n1540 F\n1548 F\n1567 F\n1613 F\n1650 F\n1676 F\n1680 F\n1683 S\n1710 F\n1719 F\n1725 S\n1731 F\n1737 F\n1810 F\n1836 F\n1912 F\n1954 S\n2023 F\n2109 F\n2120 F\n2121 F\n2224 F\n2229 F\n2291 F\n2300 F\n2340 F\n2396 F\n2397 F\n2567 F\n2652 F\n2698 F\n2708 F\n2725 F\n2781 F\n2818 F\n2861 F\n2899 F\n2942 F\n3158 F\n3562 F\n3631 F",
       budgetPopulationData: "0 133",
       budgetPeriod: 365,
       budgetItemCost: 2500,
+      budgetBoundsSide: 'two-sided',
+      budgetFailureCounting: 'first',
+      sparesLeadTime: 60,
+      sparesReviewPeriod: 30,
+      sparesHoldingCost: 500,
+      sparesFillRate: 95,
+      sparesMethod: 'simulation',
       competingModes: [
         { name: 'Quebra', times: '980, 1253, 1589, 1785, 1996, 2357, 2467, 3013' },
         { name: 'Empenamento', times: '2345, 2467, 2789, 2996, 3025, 3321' },
@@ -1410,7 +1843,7 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
   const budgetItemCost = form.watch('budgetItemCost');
   const confidenceLevel = form.watch('confidenceLevel');
   
-  const handleSimulationTypeChange = (type: 'confidence' | 'dispersion' | 'contour' | 'budget' | 'competing') => {
+  const handleSimulationTypeChange = (type: 'confidence' | 'dispersion' | 'contour' | 'budget' | 'competing' | 'spares') => {
       setSimulationType(type);
       setResult(null);
   }
@@ -1445,8 +1878,10 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
     })
   };
 
+  const parseTimes = (value?: string) => value?.replace(/\./g, '').split(/[\s,]+/).map(v => parseFloat(v.trim())).filter(v => !isNaN(v) && v > 0) || [];
+
   const runConfidenceSimulation = (data: FormData) => {
-    const failureTimes = data.manualData?.replace(/\./g, '').split(/[\s,]+/).map(v => parseFloat(v.trim())).filter(v => !isNaN(v) && v > 0) || [];
+    const failureTimes = parseTimes(data.manualData);
                 
     if (failureTimes.length < 2) {
         toast({
@@ -1467,7 +1902,25 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
     if (!boundsData || boundsData.error) {
         throw new Error(boundsData?.error || t('monteCarlo.errors.confidence'));
     }
-    setResult({ boundsData });
+
+    // Likelihood ratio bounds also use the suspensions, which the rank bands cannot
+    const profileBounds = calculateProfileLikelihoodBounds({
+        dist: data.confidenceDistribution,
+        failureTimes,
+        suspensionTimes: parseTimes(data.manualSuspensions),
+        confidenceLevel: data.confidenceLevel,
+        tValue: data.timeForCalc ?? null,
+        reliabilityValue: data.reliabilityForCalc ? data.reliabilityForCalc / 100 : null,
+    });
+    // The rank bounds are still worth showing, so a failed profile only raises a toast
+    if (profileBounds.error) {
+        toast({
+            variant: 'destructive',
+            title: t('toasts.simulationError.title'),
+            description: profileBounds.error,
+        });
+    }
+    setResult({ boundsData, profileBounds: profileBounds.error ? undefined : profileBounds });
   }
 
   const runDispersionSimulation = (data: FormData) => {
@@ -1500,7 +1953,7 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
   }
 
   const runContourSimulation = (data: FormData) => {
-    const failureTimes = data.manualData?.replace(/\./g, '').split(/[\s,]+/).map(v => parseFloat(v.trim())).filter(v => !isNaN(v) && v > 0) || [];
+    const failureTimes = parseTimes(data.manualData);
     
     if (failureTimes.length < 2) {
         toast({
@@ -1511,36 +1964,53 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
         return;
     }
 
-    const contourData = calculateLikelihoodRatioContour(failureTimes, [], data.confidenceLevel);
+    const contourData = calculateLikelihoodRatioContour(failureTimes, parseTimes(data.manualSuspensions), data.confidenceLevel);
     if (!contourData) {
         throw new Error(t('monteCarlo.errors.contour'));
     }
     setResult({ contourData });
   };
   
-  const runBudgetSimulation = (data: FormData) => {
-    const { budgetSourceData, budgetPopulationData, budgetPeriod, budgetItemCost, confidenceLevel } = data;
-    if (!budgetSourceData || !budgetPeriod || !budgetItemCost || !confidenceLevel || !budgetPopulationData) {
-        toast({ variant: 'destructive', title: t('toasts.missingParams.title'), description: t('toasts.missingParams.budget') });
-        return;
-    }
-
-    const sourceLines = budgetSourceData.trim().split('\n');
+  // "time F|S" per line, as in the budget source data
+  const parseSourceData = (value: string) => {
     const censoredData: CensoredData[] = [];
-    const failureTimes: number[] = [];
-    sourceLines.forEach(line => {
+    value.trim().split('\n').forEach(line => {
         const parts = line.trim().split(/[\s,]+/);
         if (parts.length === 2) {
             const time = parseFloat(parts[0]);
             const status = parts[1].toUpperCase();
             if (!isNaN(time) && (status === 'F' || status === 'S')) {
                 censoredData.push({ time, event: status === 'F' ? 1 : 0 });
-                if (status === 'F') {
-                  failureTimes.push(time);
-                }
             }
         }
     });
+    return censoredData;
+  };
+
+  // "age quantity" per line
+  const parsePopulationData = (value: string) => {
+    const items: { age: number, quantity: number }[] = [];
+    value.trim().split('\n').forEach(line => {
+        const parts = line.trim().split(/[\s,]+/);
+        if (parts.length === 2) {
+            const age = parseInt(parts[0], 10);
+            const quantity = parseInt(parts[1], 10);
+            if (!isNaN(age) && !isNaN(quantity)) {
+                items.push({ age, quantity });
+            }
+        }
+    });
+    return items;
+  };
+
+  const runBudgetSimulation = (data: FormData) => {
+    const { budgetSourceData, budgetPopulationData, budgetPeriod, budgetItemCost, confidenceLevel, budgetBoundsSide, budgetFailureCounting } = data;
+    if (!budgetSourceData || !budgetPeriod || !budgetItemCost || !confidenceLevel || !budgetPopulationData) {
+        toast({ variant: 'destructive', title: t('toasts.missingParams.title'), description: t('toasts.missingParams.budget') });
+        return;
+    }
+
+    const censoredData = parseSourceData(budgetSourceData);
 
     if (censoredData.filter(d => d.event === 1).length < 2) {
         toast({ variant: 'destructive', title: t('toasts.insufficientData.title'), description: t('toasts.insufficientData.budgetSource') });
@@ -1553,19 +2023,7 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
         return;
     }
 
-    const populationLines = budgetPopulationData.trim().split('\n');
-    const items: { age: number, quantity: number }[] = [];
-    populationLines.forEach(line => {
-        const parts = line.trim().split(/[\s,]+/);
-        if (parts.length === 2) {
-            const age = parseInt(parts[0], 10);
-            const quantity = parseInt(parts[1], 10);
-            if (!isNaN(age) && !isNaN(quantity)) {
-                items.push({ age, quantity });
-            }
-        }
-    });
-    
+    const items = parsePopulationData(budgetPopulationData);
     if (items.length === 0) {
         toast({ variant: 'destructive', title: t('toasts.emptyPopulation.title'), description: t('toasts.emptyPopulation.description') });
         return;
@@ -1577,13 +2035,57 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
         items,
         period: budgetPeriod,
         confidenceLevel: confidenceLevel / 100,
-        failureTimes: failureTimes,
+        data: censoredData,
+        sided: budgetBoundsSide,
+        renewals: budgetFailureCounting === 'renewals',
     };
 
     const budgetResult = calculateExpectedFailures(budgetInput);
-    setResult({ budgetResult, budgetParams: { beta: mleParams.beta, eta: mleParams.eta } });
+    setResult({ budgetResult, budgetParams: { beta: mleParams.beta, eta: mleParams.eta }, budgetRenewals: budgetInput.renewals });
   };
   
+  const runSparesSimulation = (data: FormData) => {
+    const { budgetSourceData, budgetPopulationData, budgetItemCost, sparesLeadTime, sparesReviewPeriod, sparesHoldingCost, sparesFillRate, sparesMethod } = data;
+    if (!budgetSourceData || !budgetPopulationData || !budgetItemCost || !sparesLeadTime || sparesReviewPeriod === undefined || sparesHoldingCost === undefined) {
+        toast({ variant: 'destructive', title: t('toasts.missingParams.title'), description: t('toasts.missingParams.spares') });
+        return;
+    }
+
+    const censoredData = parseSourceData(budgetSourceData);
+    if (censoredData.filter(d => d.event === 1).length < 2) {
+        toast({ variant: 'destructive', title: t('toasts.insufficientData.title'), description: t('toasts.insufficientData.budgetSource') });
+        return;
+    }
+
+    const mleParams = fitWeibullMLE(censoredData);
+    if (!mleParams?.beta || !mleParams?.eta) {
+        toast({ variant: 'destructive', title: t('toasts.calculationError.title'), description: t('toasts.calculationError.budgetParams') });
+        return;
+    }
+
+    const items = parsePopulationData(budgetPopulationData);
+    if (items.length === 0) {
+        toast({ variant: 'destructive', title: t('toasts.emptyPopulation.title'), description: t('toasts.emptyPopulation.description') });
+        return;
+    }
+
+    const sparesResult = optimizeSpareStock({
+        distribution: 'Weibull',
+        params: { beta: mleParams.beta, eta: mleParams.eta },
+        items,
+        leadTime: sparesLeadTime,
+        reviewPeriod: sparesReviewPeriod,
+        unitCost: budgetItemCost,
+        holdingCost: sparesHoldingCost,
+        fillRate: sparesFillRate / 100,
+        method: sparesMethod,
+    });
+    if ('error' in sparesResult) {
+        throw new Error(sparesResult.error);
+    }
+    setResult({ sparesResult, budgetParams: { beta: mleParams.beta, eta: mleParams.eta } });
+  };
+
     const runCompetingModesSimulation = (data: FormData) => {
         const { competingModes, competingModesPeriod } = data;
         if (!competingModes || competingModes.length === 0 || !competingModesPeriod) {
@@ -1625,6 +2127,8 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
                 runBudgetSimulation(data);
             } else if (simulationType === 'competing') {
                 runCompetingModesSimulation(data);
+            } else if (simulationType === 'spares') {
+                runSparesSimulation(data);
             }
         } catch (error: any) {
              toast({
@@ -1639,13 +2143,13 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
   }
 
   useEffect(() => {
-    if (isClient && (simulationType === 'budget' || simulationType === 'competing' || simulationType === 'confidence')) {
+    if (isClient && (simulationType === 'budget' || simulationType === 'spares' || simulationType === 'competing' || simulationType === 'confidence')) {
         const sourceData = form.getValues('budgetSourceData');
         const populationData = form.getValues('budgetPopulationData');
         const competingData = form.getValues('competingModes');
         const manualData = form.getValues('manualData');
         
-        if(simulationType === 'budget' && sourceData && populationData){
+        if((simulationType === 'budget' || simulationType === 'spares') && sourceData && populationData){
             form.handleSubmit(onSubmit)();
         } else if (simulationType === 'competing' && competingData && competingData.length > 0) {
             form.handleSubmit(onSubmit)();
@@ -1674,7 +2178,7 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
                 <CardDescription>{t('monteCarlo.cardDescription')}</CardDescription>
             </CardHeader>
              <CardContent>
-                <RadioGroup defaultValue={simulationType} onValueChange={(v) => handleSimulationTypeChange(v as 'confidence' | 'dispersion' | 'contour' | 'budget' | 'competing')} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+                <RadioGroup defaultValue={simulationType} onValueChange={(v) => handleSimulationTypeChange(v as 'confidence' | 'dispersion' | 'contour' | 'budget' | 'competing' | 'spares')} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4">
                       <Label htmlFor="confidence" className={`flex flex-col items-center justify-between rounded-md border-2 p-4 cursor-pointer ${simulationType === 'confidence' ? 'border-primary' : 'border-muted'}`}>
                           <RadioGroupItem value="confidence" id="confidence" className="sr-only" />
                           <TestTube className="mb-3 h-6 w-6" />
@@ -1700,6 +2204,11 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
                            <TestTube className="mb-3 h-6 w-6" />
                           {t('monteCarlo.competing.title')}
                       </Label>
+                       <Label htmlFor="spares" className={`flex flex-col items-center justify-between rounded-md border-2 p-4 cursor-pointer ${simulationType === 'spares' ? 'border-primary' : 'border-muted'}`}>
+                          <RadioGroupItem value="spares" id="spares" className="sr-only" />
+                           <TestTube className="mb-3 h-6 w-6" />
+                          {t('monteCarlo.spares.title')}
+                      </Label>
               </RadioGroup>
             </CardContent>
         </Card>
@@ -1720,6 +2229,9 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
                  {simulationType === 'competing' &&
                     <CompetingModesControls form={form} isSimulating={isSimulating} onSubmit={onSubmit} t={t} />
                 }
+                 {simulationType === 'spares' &&
+                    <SparesControls form={form} isSimulating={isSimulating} onSubmit={onSubmit} t={t} />
+                }
             </div>
 
             <div className="lg:col-span-2 space-y-6">
@@ -1738,7 +2250,7 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
                 )}
 
                 {result?.boundsData && simulationType === 'confidence' && (
-                    <FisherMatrixPlot data={result.boundsData} timeForCalc={form.getValues('timeForCalc')} t={t} />
+                    <FisherMatrixPlot data={result.boundsData} profile={result.profileBounds} timeForCalc={form.getValues('timeForCalc')} t={t} />
                 )}
 
                 {result?.dispersionData && result.simulationCount && simulationType === 'dispersion' && (
@@ -1757,10 +2269,18 @@ export default function MonteCarloSimulator({ suppliers }: MonteCarloSimulatorPr
                   <BudgetResultsDisplay result={result} itemCost={budgetItemCost} confidenceLevel={confidenceLevel} t={t} />
                 )}
 
+                {result?.sparesResult && simulationType === 'spares' && (
+                  <SparesResultsDisplay result={result} t={t} />
+                )}
+
                 {!isSimulating && result?.boundsData && simulationType === 'confidence' && (
                     <ResultsDisplay result={result} timeForCalc={form.getValues('timeForCalc')} t={t} />
                 )}
 
+                {!isSimulating && result?.profileBounds && simulationType === 'confidence' && (
+                    <ProfileBoundsDisplay profile={result.profileBounds} t={t} />
+                )}
+
                 {!isSimulating && result?.contourData && simulationType === 'contour' && (
                   <ContourResultsDisplay result={result} t={t} />
                 )}
@@ -1,12 +1,17 @@
 'use client';
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, ReferenceLine, ReferenceDot } from 'recharts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useI18n } from '@/i18n/i18n-provider';
 import { cn } from '@/lib/utils';
-import { ShieldAlert, ShieldCheck, ShieldHalf, ShieldX, HelpCircle, Sigma } from 'lucide-react';
-import type { Distribution } from '@/lib/types';
+import { planConditionMonitoring } from '@/lib/maintenance-policies';
+import { ShieldAlert, ShieldCheck, ShieldHalf, ShieldX, HelpCircle, Sigma, Plus, Trash2 } from 'lucide-react';
+import type { Distribution, PFFailureMode, PFInspectionPlan } from '@/lib/types';
 
 interface PFCurveChartProps {
   pdmHealth?: number | null;
@@ -14,98 +19,180 @@ interface PFCurveChartProps {
   beta?: number | null;
   rho?: number | null;
   failureTimesCount?: number | null;
+  timeSinceMaintenance?: number | null;
+  failureTime?: number | null; // expected time to functional failure, places F on the time axis
+  mtbf?: number | null;
+  failureCost?: number | null;
+  units?: string;
 }
 
-const PFCurveSVG = ({ health, beta, distribution, curveStyle, t }: { health: number; beta?: number | null; distribution?: Distribution | null; curveStyle: React.CSSProperties; t: (key: string, args?: any) => string }) => {
-  const controlPointX = (distribution === 'Weibull' && beta && beta > 3) ? 80 : 55;
-  const curvePath = `M 5,10 Q ${controlPointX},10 95,45`;
+const DEFAULT_PF_INTERVAL = 720;
+const DEFAULT_DETECTION_PROBABILITY = 0.9;
+const DEFAULT_INSPECTION_COST = 200;
+const DEFAULT_CONSEQUENCE_COST = 10000;
+const DEFAULT_MTBF = 8760;
 
-  const getYOnCurve = (xPercent: number) => {
-    const t_bezier = (xPercent - 5) / 90;
-    const p0_y = 10, p1_y = 10, p2_y = 45;
-    return Math.pow(1 - t_bezier, 2) * p0_y + 2 * (1 - t_bezier) * t_bezier * p1_y + Math.pow(t_bezier, 2) * p2_y;
-  };
+const PF_CURVE_POINTS = 60;
+// Inspection marks are only drawn while they stay readable
+const MAX_INSPECTION_MARKS = 40;
 
-  const assetX = 5 + (100 - health) * 0.9;
-  const assetY = getYOnCurve(assetX);
-  const healthColor = health < 20 ? 'border-red-500' : health < 50 ? 'border-yellow-500' : health < 80 ? 'border-blue-500' : 'border-green-500';
-  const healthTextColor = health < 20 ? 'text-red-500' : health < 50 ? 'text-yellow-500' : health < 80 ? 'text-blue-500' : 'text-green-500';
+// Condition (100 = as new, 0 = functional failure) of the asset along its real time axis:
+// flat up to P, then an accelerating decline that reaches F after the P-F interval.
+const conditionAt = (time: number, pTime: number, fTime: number, exponent: number) =>
+  time <= pTime ? 100 : Math.max(0, 100 * (1 - Math.pow((time - pTime) / (fTime - pTime), exponent)));
 
-  const pPointX = 5 + (100 - 70) * 0.9;
-  const pPointY = getYOnCurve(pPointX);
-  
-  const fPointX = 95;
-  const fPointY = 45;
+const PFCurvePlot = ({ health, fTime, pfInterval, inspectionInterval, timeSinceMaintenance, steep, units, curveStyle, t }: {
+  health: number;
+  fTime: number;
+  pfInterval: number;
+  inspectionInterval: number | null;
+  timeSinceMaintenance?: number | null;
+  steep: boolean;
+  units?: string;
+  curveStyle: React.CSSProperties;
+  t: (key: string, args?: any) => string;
+}) => {
+  const pTime = Math.max(0, fTime - pfInterval);
+  const exponent = steep ? 3 : 2;
+  const end = Math.max(fTime, timeSinceMaintenance ?? 0) * 1.1;
+  const data = Array.from({ length: PF_CURVE_POINTS + 1 }, (_, i) => {
+    const time = end * i / PF_CURVE_POINTS;
+    return { time, condition: conditionAt(time, pTime, fTime, exponent) };
+  });
+  const inspections = inspectionInterval && end / inspectionInterval <= MAX_INSPECTION_MARKS
+    ? Array.from({ length: Math.floor(end / inspectionInterval) }, (_, i) => (i + 1) * inspectionInterval)
+    : [];
+  const healthColor = health < 20 ? 'hsl(var(--destructive))' : health < 50 ? 'hsl(var(--chart-4))' : 'hsl(var(--chart-2))';
 
   return (
-    <div className="relative w-full aspect-[2/1] max-w-lg mx-auto">
-      <svg viewBox="-10 0 115 55" className="w-full h-auto" preserveAspectRatio="xMidYMin meet">
-        <defs>
-          <marker id="arrow" viewBox="0 0 10 10" refX="5" refY="5" markerWidth="3" markerHeight="3" orient="auto-start-reverse">
-            <path d="M 0 0 L 10 5 L 0 10 z" fill="hsl(var(--border))" />
-          </marker>
-        </defs>
-        
-        <line x1="5" y1="5" x2="5" y2="45" stroke="hsl(var(--border))" strokeWidth="0.5" markerEnd="url(#arrow)" />
-        <line x1="5" y1="45" x2="95" y2="45" stroke="hsl(var(--border))" strokeWidth="0.5" markerEnd="url(#arrow)" />
-        <text x="-2" y="25" textAnchor="middle" transform="rotate(-90 -2 25)" className="text-[4px] fill-muted-foreground">{t('assetDetail.pfCurve.condition')}</text>
-        <text x="50" y="50" textAnchor="middle" className="text-[4px] fill-muted-foreground">{t('charts.time')}</text>
-        <text x="3" y="10" textAnchor="end" dominantBaseline="middle" className="text-[3px] fill-muted-foreground">Normal</text>
-        <text x="3" y="45" textAnchor="end" dominantBaseline="middle" className="text-[3px] fill-muted-foreground">Fallo</text>
-        
-        <path d={curvePath} stroke="hsl(var(--primary))" strokeWidth="1.2" fill="none" style={curveStyle} />
+    <div className="h-72 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 15, right: 20, left: 10, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={[0, 'dataMax']}
+            stroke="hsl(var(--muted-foreground))"
+            tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+            tickFormatter={(tick: number) => Math.round(tick).toLocaleString()}
+            label={{ value: t('assetDetail.pfCurve.planning.timeAxis', { units: units ?? 'h' }), position: 'insideBottom', offset: -10, fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+          />
+          <YAxis
+            domain={[0, 105]}
+            stroke="hsl(var(--muted-foreground))"
+            tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+            label={{ value: t('assetDetail.pfCurve.condition'), angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+          />
+          <RechartsTooltip
+            formatter={(value: number) => [`${value.toFixed(0)}%`, t('assetDetail.pfCurve.condition')]}
+            labelFormatter={(label: number) => `${t('charts.time')}: ${Math.round(label)}`}
+            wrapperClassName="!border-border !bg-background !shadow-lg"
+          />
+          {inspections.map(time => (
+            <ReferenceLine key={time} x={time} stroke="hsl(var(--border))" strokeDasharray="2 2" />
+          ))}
+          <Line type="monotone" dataKey="condition" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} style={curveStyle} />
+          <ReferenceDot x={pTime} y={100} r={5} fill="hsl(var(--chart-4))" stroke="white" label={{ value: 'P', position: 'top', fill: 'hsl(var(--chart-4))', fontSize: 12 }} />
+          <ReferenceDot x={fTime} y={0} r={5} fill="hsl(var(--destructive))" stroke="white" label={{ value: 'F', position: 'top', fill: 'hsl(var(--destructive))', fontSize: 12 }} />
+          {timeSinceMaintenance != null && (
+            <ReferenceDot
+              x={timeSinceMaintenance}
+              y={conditionAt(timeSinceMaintenance, pTime, fTime, exponent)}
+              r={6}
+              fill="hsl(var(--background))"
+              stroke={healthColor}
+              strokeWidth={3}
+              label={{ value: t('assetDetail.pfCurve.assetHealth', { health: health.toFixed(0) }), position: 'right', fill: healthColor, fontSize: 12 }}
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
 
-        <g>
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <g className="cursor-pointer">
-                    <circle cx={pPointX} cy={pPointY} r="1.5" fill="hsl(var(--chart-4))" />
-                    <circle cx={pPointX} cy={pPointY} r="3" fill="transparent" />
-                </g>
-              </TooltipTrigger>
-              <TooltipContent><p>{t('assetDetail.pfCurve.potentialFailure')}</p></TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
-          <text x={pPointX} y={pPointY - 3} textAnchor="middle" className="text-[5px] font-bold fill-chart-4">P</text>
-        </g>
+const PFPlanningTable = ({ modes, plans, selectedId, onSelect, onChange, onAdd, onRemove, units, t }: {
+  modes: PFFailureMode[];
+  plans: Record<string, PFInspectionPlan | { error: string }>;
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onChange: (id: string, update: Partial<PFFailureMode>) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  units?: string;
+  t: (key: string, args?: any) => string;
+}) => {
+  const numberCell = (mode: PFFailureMode, field: 'pfInterval' | 'detectionProbability' | 'inspectionCost' | 'consequenceCost' | 'mtbf', step = 1) => (
+    <TableCell>
+      <Input
+        type="number" min={0} step={step} className="h-8 w-24 text-xs"
+        value={mode[field]}
+        onChange={e => onChange(mode.id, { [field]: Number(e.target.value) })}
+      />
+    </TableCell>
+  );
 
-        <g>
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                 <g className="cursor-pointer">
-                    <circle cx={fPointX} cy={fPointY} r="1.5" fill="hsl(var(--destructive))" />
-                    <circle cx={fPointX} cy={fPointY} r="3" fill="transparent" />
-                 </g>
-              </TooltipTrigger>
-              <TooltipContent><p>{t('assetDetail.pfCurve.functionalFailure')}</p></TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
-          <text x={fPointX} y={fPointY - 3} textAnchor="middle" className="text-[5px] font-bold fill-destructive">F</text>
-        </g>
-      </svg>
-      
-      <TooltipProvider>
-        <Tooltip>
-          <TooltipTrigger asChild>
-            <div
-              className="absolute transform -translate-x-1/2 -translate-y-1/2 cursor-pointer"
-              style={{ left: `${assetX}%`, top: `${assetY}%` }}
-            >
-              <div className={cn("w-3 h-3 rounded-full border-2 bg-background animate-pulse", healthColor)} />
-            </div>
-          </TooltipTrigger>
-          <TooltipContent>
-            <p className={cn(healthTextColor)}>{t('assetDetail.pfCurve.assetHealth', { health: health.toFixed(0) })}</p>
-          </TooltipContent>
-        </Tooltip>
-      </TooltipProvider>
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('assetDetail.pfCurve.planning.mode')}</TableHead>
+              <TableHead>{t('assetDetail.pfCurve.planning.pfInterval')}</TableHead>
+              <TableHead>{t('assetDetail.pfCurve.planning.detectionProbability')}</TableHead>
+              <TableHead>{t('assetDetail.pfCurve.planning.inspectionCost')}</TableHead>
+              <TableHead>{t('assetDetail.pfCurve.planning.consequenceCost')}</TableHead>
+              <TableHead>{t('assetDetail.pfCurve.planning.mtbf')}</TableHead>
+              <TableHead className="text-right">{t('assetDetail.pfCurve.planning.inspectionInterval')}</TableHead>
+              <TableHead className="text-right">{t('assetDetail.pfCurve.planning.netPFInterval')}</TableHead>
+              <TableHead className="text-right">{t('assetDetail.pfCurve.planning.detection')}</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {modes.map(mode => {
+              const plan = plans[mode.id];
+              return (
+                <TableRow key={mode.id} className={cn('cursor-pointer', mode.id === selectedId && 'bg-muted/50')} onClick={() => onSelect(mode.id)}>
+                  <TableCell>
+                    <Input className="h-8 min-w-32 text-xs" value={mode.name} onChange={e => onChange(mode.id, { name: e.target.value })} />
+                  </TableCell>
+                  {numberCell(mode, 'pfInterval')}
+                  {numberCell(mode, 'detectionProbability', 0.05)}
+                  {numberCell(mode, 'inspectionCost')}
+                  {numberCell(mode, 'consequenceCost')}
+                  {numberCell(mode, 'mtbf')}
+                  {'error' in plan ? (
+                    <TableCell colSpan={3} className="text-xs text-muted-foreground">{plan.error}</TableCell>
+                  ) : (
+                    <>
+                      <TableCell className="text-right font-mono">
+                        {plan.worthwhile ? `${Math.round(plan.inspectionInterval).toLocaleString()} ${units ?? ''}` : <Badge variant="outline">{t('assetDetail.pfCurve.planning.notWorthwhile')}</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{plan.worthwhile ? Math.round(plan.netPFInterval).toLocaleString() : '-'}</TableCell>
+                      <TableCell className="text-right font-mono">{plan.worthwhile ? `${(plan.detectionProbability * 100).toFixed(1)}%` : '-'}</TableCell>
+                    </>
+                  )}
+                  <TableCell>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" disabled={modes.length === 1} onClick={(e) => { e.stopPropagation(); onRemove(mode.id); }} aria-label={t('assetDetail.pfCurve.planning.remove')}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+      <Button variant="outline" size="sm" onClick={onAdd}>
+        <Plus className="mr-1 h-3 w-3" />{t('assetDetail.pfCurve.planning.addMode')}
+      </Button>
     </div>
   );
 };
 
-
 const InterpretationSection = ({ health, t }: { 
     health: number, 
     t: (key: string, args?: any) => string 
@@ -185,9 +272,30 @@ const ModelInfoSection = ({ uncertaintyLevel, uncertaintyDescription, curveShape
   )
 }
 
-export default function PFCurveChart({ pdmHealth, distribution, beta, rho, failureTimesCount }: PFCurveChartProps) {
+export default function PFCurveChart({ pdmHealth, distribution, beta, rho, failureTimesCount, timeSinceMaintenance, failureTime, mtbf, failureCost, units }: PFCurveChartProps) {
   const { t } = useI18n();
 
+  const newMode = (name: string): PFFailureMode => ({
+    id: `${new Date().getTime()}-${Math.random().toString(36).slice(2, 7)}`,
+    name,
+    pfInterval: DEFAULT_PF_INTERVAL,
+    detectionProbability: DEFAULT_DETECTION_PROBABILITY,
+    inspectionCost: DEFAULT_INSPECTION_COST,
+    consequenceCost: failureCost && failureCost > 0 ? Math.round(failureCost) : DEFAULT_CONSEQUENCE_COST,
+    mtbf: mtbf && mtbf > 0 ? Math.round(mtbf) : DEFAULT_MTBF,
+  });
+
+  const [modes, setModes] = useState<PFFailureMode[]>(() => [newMode(t('assetDetail.pfCurve.planning.defaultMode'))]);
+  const [selectedId, setSelectedId] = useState(modes[0].id);
+
+  const plans = useMemo(() => Object.fromEntries(modes.map(mode => [mode.id, planConditionMonitoring(mode)])), [modes]);
+  const selectedMode = modes.find(m => m.id === selectedId) ?? modes[0];
+  const selectedPlan = plans[selectedMode.id];
+
+  const handleChange = (id: string, update: Partial<PFFailureMode>) => setModes(prev => prev.map(m => (m.id === id ? { ...m, ...update } : m)));
+  const handleAdd = () => setModes(prev => [...prev, newMode(t('assetDetail.pfCurve.planning.newMode', { n: prev.length + 1 }))]);
+  const handleRemove = (id: string) => setModes(prev => prev.filter(m => m.id !== id));
+
   const uncertaintyLevel = useMemo(() => {
     if (!failureTimesCount || !rho) return 'high';
     if (failureTimesCount < 5 || rho < 0.85) return 'high';
@@ -252,13 +360,47 @@ export default function PFCurveChart({ pdmHealth, distribution, beta, rho, failu
         <CardDescription>{t('assetDetail.pfCurve.cardDescription')}</CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        <PFCurveSVG 
-            health={pdmHealth} 
-            beta={beta}
-            distribution={distribution}
-            curveStyle={curveStyle}
-            t={t} 
+        <PFPlanningTable
+            modes={modes}
+            plans={plans}
+            selectedId={selectedMode.id}
+            onSelect={setSelectedId}
+            onChange={handleChange}
+            onAdd={handleAdd}
+            onRemove={handleRemove}
+            units={units}
+            t={t}
         />
+        {failureTime && failureTime > 0 ? (
+            <div className="space-y-2">
+                <p className="text-sm font-medium">{t('assetDetail.pfCurve.planning.curveTitle', { mode: selectedMode.name })}</p>
+                <PFCurvePlot
+                    health={pdmHealth}
+                    fTime={failureTime}
+                    pfInterval={selectedMode.pfInterval}
+                    inspectionInterval={'error' in selectedPlan || !selectedPlan.worthwhile ? null : selectedPlan.inspectionInterval}
+                    timeSinceMaintenance={timeSinceMaintenance}
+                    steep={distribution === 'Weibull' && !!beta && beta > 3}
+                    units={units}
+                    curveStyle={curveStyle}
+                    t={t}
+                />
+                {!('error' in selectedPlan) && (
+                    <p className="text-xs text-muted-foreground">
+                        {t(selectedPlan.worthwhile ? 'assetDetail.pfCurve.planning.recommendation' : 'assetDetail.pfCurve.planning.notWorthwhileDescription', {
+                            interval: Math.round(selectedPlan.inspectionInterval).toLocaleString(),
+                            net: Math.round(selectedPlan.netPFInterval).toLocaleString(),
+                            detection: (selectedPlan.detectionProbability * 100).toFixed(1),
+                            cost: selectedPlan.costRate.toFixed(2),
+                            noInspection: selectedPlan.noInspectionCostRate.toFixed(2),
+                            units: units ?? 'h',
+                        })}
+                    </p>
+                )}
+            </div>
+        ) : (
+            <p className="text-sm text-muted-foreground">{t('assetDetail.pfCurve.planning.noTimeScale')}</p>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <InterpretationSection health={pdmHealth} t={t} />
             <ModelInfoSection
@@ -1,36 +1,44 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ReferenceDot } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ReferenceDot, ReferenceArea } from 'recharts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Loader2, Lightbulb, Target, TrendingUp, TrendingDown, Minus } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import type { AssetData } from '@/lib/types';
+import type { AgeReplacementObjective, AgeReplacementPoint, AgeReplacementResult, AssetData, BlockReplacementResult, CensoredData, OpportunisticReplacementInput } from '@/lib/types';
 import { useI18n } from '@/i18n/i18n-provider';
-import { calculateOptimalInterval } from '@/lib/reliability';
+import { calculateFisherMatrix, getAssetParameters, getReliability } from '@/lib/reliability';
+import { calculateBlockReplacement, calculateOptimalInterval, evaluateOpportunisticReplacement } from '@/lib/maintenance-policies';
 import { useToast } from '@/hooks/use-toast';
 import { Separator } from '@/components/ui/separator';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 
 const formSchema = z.object({
   costCp: z.coerce.number().min(1, 'O custo deve ser maior que zero.'),
   costCu: z.coerce.number().min(1, 'O custo deve ser maior que zero.'),
+  pmDuration: z.coerce.number().min(0, 'A duração não pode ser negativa.'),
+  mttr: z.coerce.number().min(0, 'A duração não pode ser negativa.'),
+  downtimeCostPerHour: z.coerce.number().min(0, 'O custo não pode ser negativo.'),
+  objective: z.enum(['cost', 'availability']),
 });
 
-interface CalculationResult {
-  costCurve: { time: number; cost: number; }[];
-  optimalInterval: number;
-  minCost: number;
-}
+const OBJECTIVES: AgeReplacementObjective[] = ['cost', 'availability'];
+const CONFIDENCE = 0.9;
+// One month of continuous operation
+const DEFAULT_NEXT_STOP = 720;
 
 interface OptimizerProps {
   asset: AssetData;
-  onCalculationComplete?: (result: { optimalInterval: number; minCost: number; }) => void;
+  failureTimes: number[]; // for the parameter covariance behind the confidence band
+  currentAge?: number; // operating time since the last renewal, seeds the opportunistic window
+  onCalculationComplete?: (result: { optimalInterval: number; cost: number; availability: number; }) => void;
 }
 
 const BetaAnalysis = ({ beta, t }: { beta: number, t: (key: string) => string }) => {
@@ -91,42 +99,195 @@ const EtaAnalysis = ({ eta, t }: { eta: number, t: (key: string) => string }) =>
 };
 
 
-export default function PreventiveMaintenanceOptimizer({ asset, onCalculationComplete }: OptimizerProps) {
-  const [result, setResult] = useState<CalculationResult | null>(null);
+const PolicyComparison = ({ age, block, units, t }: { age: AgeReplacementResult, block: BlockReplacementResult, units?: string, t: (key: string, args?: any) => string }) => {
+    const isCost = age.objective === 'cost';
+    const key = isCost ? 'cost' : 'availability';
+    const toChart = (curve: AgeReplacementPoint[]) => curve.map(p => ({ time: p.time, cost: p.cost, availability: p.availability * 100 }));
+    const rows = [
+        { policy: 'age', interval: age.hasOptimum ? age.optimalInterval : null, cost: age.cost, availability: age.availability },
+        { policy: 'block', interval: block.hasOptimum ? block.optimalInterval : null, cost: block.cost, availability: block.availability },
+        { policy: 'runToFailure', interval: null, cost: age.runToFailure.cost, availability: age.runToFailure.availability },
+    ];
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base">{t('assetDetail.optimizePM.policies.title')}</CardTitle>
+                <CardDescription>{t('assetDetail.optimizePM.policies.description')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <ResponsiveContainer width="100%" height={250}>
+                    <LineChart margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(tick) => tick.toLocaleString()} />
+                        <YAxis domain={['auto', 'auto']} tickFormatter={(tick) => isCost ? `$${tick.toPrecision(2)}` : `${tick.toFixed(1)}%`} />
+                        <Tooltip
+                            formatter={(value: number, name: string) => [isCost ? `$${value.toFixed(2)}` : `${value.toFixed(3)}%`, name]}
+                            labelFormatter={(label) => `${t('charts.time')}: ${Math.round(label)}`}
+                        />
+                        <Legend verticalAlign="top" wrapperStyle={{ fontSize: '0.8rem' }} />
+                        <Line data={toChart(age.costCurve)} dataKey={key} name={t('assetDetail.optimizePM.policies.age')} stroke="hsl(var(--chart-1))" dot={false} strokeWidth={2} isAnimationActive={false} />
+                        <Line data={toChart(block.costCurve)} dataKey={key} name={t('assetDetail.optimizePM.policies.block')} stroke="hsl(var(--chart-2))" dot={false} strokeWidth={2} isAnimationActive={false} />
+                        {block.hasOptimum && (
+                            <ReferenceDot x={block.optimalInterval} y={isCost ? block.cost : block.availability * 100} r={4} fill="hsl(var(--chart-2))" stroke="white" />
+                        )}
+                        {age.hasOptimum && (
+                            <ReferenceDot x={age.optimalInterval} y={isCost ? age.cost : age.availability * 100} r={4} fill="hsl(var(--chart-1))" stroke="white" />
+                        )}
+                    </LineChart>
+                </ResponsiveContainer>
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>{t('assetDetail.optimizePM.policies.policy')}</TableHead>
+                            <TableHead className="text-right">{t('assetDetail.optimizePM.optimalInterval')}</TableHead>
+                            <TableHead className="text-right">{t('assetDetail.optimizePM.costAtOptimum')}</TableHead>
+                            <TableHead className="text-right">{t('assetDetail.optimizePM.availabilityAtOptimum')}</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {rows.map(row => (
+                            <TableRow key={row.policy}>
+                                <TableCell>{t(`assetDetail.optimizePM.policies.${row.policy}`)}</TableCell>
+                                <TableCell className="text-right font-mono">{row.interval !== null ? `${Math.round(row.interval).toLocaleString()} ${units ?? ''}` : '-'}</TableCell>
+                                <TableCell className="text-right font-mono">${row.cost.toFixed(2)}</TableCell>
+                                <TableCell className="text-right font-mono">{(row.availability * 100).toFixed(3)}%</TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+                <p className="text-xs text-muted-foreground">
+                    {t('assetDetail.optimizePM.policies.blockFailures', { failures: block.expectedFailures.toFixed(3) })}
+                </p>
+            </CardContent>
+        </Card>
+    );
+};
+
+const OpportunisticWindow = ({ input, costRate, currentAge, units, t }: {
+    input: Omit<OpportunisticReplacementInput, 'age' | 'nextStop' | 'opportunityCost' | 'costRate'>,
+    costRate: number,
+    currentAge?: number,
+    units?: string,
+    t: (key: string, args?: any) => string,
+}) => {
+    const [age, setAge] = useState(Math.round(currentAge ?? 0));
+    const [nextStop, setNextStop] = useState(DEFAULT_NEXT_STOP);
+    const [opportunityCost, setOpportunityCost] = useState(Math.round(input.costCp / 2));
+
+    const evaluation = useMemo(
+        () => evaluateOpportunisticReplacement({ ...input, age, nextStop, opportunityCost, costRate }),
+        [input, age, nextStop, opportunityCost, costRate]
+    );
+
+    const numberInput = (id: string, label: string, value: number, onChange: (value: number) => void) => (
+        <div className="space-y-1">
+            <Label htmlFor={id} className="text-xs">{label}</Label>
+            <Input id={id} type="number" min={0} className="h-8 w-36" value={value} onChange={e => onChange(Math.max(0, Number(e.target.value) || 0))} />
+        </div>
+    );
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base">{t('assetDetail.optimizePM.opportunistic.title')}</CardTitle>
+                <CardDescription>{t('assetDetail.optimizePM.opportunistic.description')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-end gap-4">
+                    {numberInput('opportunistic-age', t('assetDetail.optimizePM.opportunistic.age'), age, setAge)}
+                    {numberInput('opportunistic-next-stop', t('assetDetail.optimizePM.opportunistic.nextStop'), nextStop, setNextStop)}
+                    {numberInput('opportunistic-cost', t('assetDetail.optimizePM.opportunistic.opportunityCost'), opportunityCost, setOpportunityCost)}
+                </div>
+                {evaluation ? (
+                    <Alert>
+                        <AlertTitle>{t(evaluation.replace ? 'assetDetail.optimizePM.opportunistic.replace' : 'assetDetail.optimizePM.opportunistic.keep')}</AlertTitle>
+                        <AlertDescription className="mt-2 grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <div>
+                                <p className="text-xs text-muted-foreground">{t('assetDetail.optimizePM.opportunistic.failureProbability')}</p>
+                                <p className="text-lg font-bold">{(evaluation.conditionalFailureProbability * 100).toFixed(1)}%</p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-muted-foreground">{t('assetDetail.optimizePM.opportunistic.keepCost')}</p>
+                                <p className="text-lg font-bold">${evaluation.keepCost.toFixed(2)}</p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-muted-foreground">{t('assetDetail.optimizePM.opportunistic.breakEvenAge')}</p>
+                                <p className="text-lg font-bold">{evaluation.breakEvenAge !== null ? `${Math.round(evaluation.breakEvenAge).toLocaleString()} ${units ?? ''}` : '-'}</p>
+                            </div>
+                        </AlertDescription>
+                    </Alert>
+                ) : (
+                    <p className="text-sm text-muted-foreground">{t('assetDetail.optimizePM.opportunistic.invalid')}</p>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default function PreventiveMaintenanceOptimizer({ asset, failureTimes, currentAge, onCalculationComplete }: OptimizerProps) {
+  const [result, setResult] = useState<AgeReplacementResult | null>(null);
+  const [blockResult, setBlockResult] = useState<BlockReplacementResult | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
   const { t } = useI18n();
   const { toast } = useToast();
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
-    defaultValues: { costCp: 1000, costCu: 5000 },
+    defaultValues: {
+      costCp: 1000,
+      costCu: 5000,
+      pmDuration: 4,
+      mttr: asset.mttr ?? 0,
+      downtimeCostPerHour: asset.downtimeCostPerHour ?? 0,
+      objective: 'cost',
+    },
   });
-  
-  const costCp = form.watch('costCp');
-  const costCu = form.watch('costCu');
+
+  const { costCp, costCu, pmDuration, mttr, downtimeCostPerHour, objective } = form.watch();
+
+  const params = useMemo(() => getAssetParameters(asset), [asset]);
+
+  const canOptimize = !!asset.distribution && !Number.isNaN(getReliability(asset.distribution, params, 1));
+
+  // Covariance of the fitted parameters, from the asset's own failure history
+  const fisher = useMemo(() => {
+    if (!canOptimize || failureTimes.length < 2) return null;
+    const data: CensoredData[] = failureTimes.map(time => ({ time, event: 1 }));
+    return calculateFisherMatrix(asset.distribution!, params, data);
+  }, [canOptimize, asset.distribution, params, failureTimes]);
+
+  // Policy inputs shared by the age, block and opportunistic models
+  const policyInput = useMemo(() => ({
+    distribution: asset.distribution!,
+    params,
+    // Watched values are still the raw input strings
+    costCp: Number(costCp),
+    costCu: Number(costCu),
+    pmDuration: Number(pmDuration) || 0,
+    mttr: Number(mttr) || 0,
+    downtimeCostPerHour: Number(downtimeCostPerHour) || 0,
+  }), [asset.distribution, params, costCp, costCu, pmDuration, mttr, downtimeCostPerHour]);
 
   const runCalculation = useCallback(() => {
-    if (asset.distribution !== 'Weibull' || !asset.beta || !asset.eta || !costCp || !costCu) {
+    if (!canOptimize || !costCp || !costCu) {
       return;
     }
     
     setIsCalculating(true);
     setResult(null);
+    setBlockResult(null);
 
     setTimeout(() => {
         try {
-            const calculationResult = calculateOptimalInterval({
-                beta: asset.beta!,
-                eta: asset.eta!,
-                costCp,
-                costCu
-            });
+            const calculationResult = calculateOptimalInterval({ ...policyInput, objective, fisher, confidence: CONFIDENCE });
 
             if (!calculationResult) {
                 throw new Error('Não foi possível calcular a curva de custo.');
             }
 
             setResult(calculationResult);
+            setBlockResult(calculateBlockReplacement({ ...policyInput, objective }));
             if (onCalculationComplete) {
                 onCalculationComplete(calculationResult);
             }
@@ -140,28 +301,47 @@ export default function PreventiveMaintenanceOptimizer({ asset, onCalculationCom
             setIsCalculating(false);
         }
     }, 50);
-  }, [asset.beta, asset.eta, asset.distribution, costCp, costCu, t, toast, onCalculationComplete]);
+  }, [canOptimize, policyInput, costCp, costCu, objective, fisher, t, toast, onCalculationComplete]);
   
   useEffect(() => {
-    if (asset.distribution === 'Weibull' && asset.beta && asset.eta) {
+    if (canOptimize) {
       runCalculation();
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [asset.beta, asset.eta, costCp, costCu, asset.distribution]);
+  }, [canOptimize, policyInput, objective, fisher]);
   
-  if (asset.distribution !== 'Weibull' || !asset.beta || !asset.eta) {
+  if (!canOptimize) {
     return (
         <Card>
             <CardHeader>
                 <CardTitle>{t('assetDetail.weibullAndOptimize.title')}</CardTitle>
             </CardHeader>
             <CardContent>
-                <p className="text-sm text-muted-foreground">{t('assetDetail.optimizePM.noWeibull')}</p>
+                <p className="text-sm text-muted-foreground">{t('assetDetail.optimizePM.noDistribution')}</p>
             </CardContent>
         </Card>
     );
   }
 
+  const isCost = result?.objective !== 'availability';
+  const chartKey = isCost ? 'cost' : 'availability';
+  const chartData = result?.costCurve.map(p => ({ time: p.time, cost: p.cost, availability: p.availability * 100 }));
+  const optimumValue = result ? (isCost ? result.cost : result.availability * 100) : 0;
+  const formatValue = (value: number) => isCost ? `$${value.toFixed(2)}` : `${value.toFixed(3)}%`;
+  const numberField = (name: 'costCp' | 'costCu' | 'pmDuration' | 'mttr' | 'downtimeCostPerHour', label: string) => (
+    <FormField
+        control={form.control}
+        name={name}
+        render={({ field }) => (
+            <FormItem>
+                <FormLabel>{label}</FormLabel>
+                <FormControl><Input type="number" min={0} {...field} /></FormControl>
+                <FormMessage />
+            </FormItem>
+        )}
+    />
+  );
+
   return (
     <Card>
         <CardHeader>
@@ -169,39 +349,42 @@ export default function PreventiveMaintenanceOptimizer({ asset, onCalculationCom
             <CardDescription>{t('assetDetail.weibullAndOptimize.description')}</CardDescription>
         </CardHeader>
         <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {asset.beta != null && <BetaAnalysis beta={asset.beta} t={t} />}
-                {asset.eta != null && <EtaAnalysis eta={asset.eta} t={t} />}
-            </div>
-
-            <Separator className="my-6" />
+            {asset.distribution === 'Weibull' && asset.beta != null && asset.eta != null && (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <BetaAnalysis beta={asset.beta} t={t} />
+                        <EtaAnalysis eta={asset.eta} t={t} />
+                    </div>
+                    <Separator className="my-6" />
+                </>
+            )}
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 pt-4">
                 <div className="md:col-span-1">
                     <Form {...form}>
-                        <form onSubmit={form.handleSubmit(runCalculation)} className="space-y-6">
-                            <FormField
-                                control={form.control}
-                                name="costCp"
-                                render={({ field }) => (
-                                    <FormItem>
-                                        <FormLabel>{t('assetDetail.optimizePM.costCpLabel')}</FormLabel>
-                                        <FormControl><Input type="number" {...field} /></FormControl>
-                                        <FormMessage />
-                                    </FormItem>
-                                )}
-                            />
+                        <form onSubmit={form.handleSubmit(runCalculation)} className="space-y-4">
                             <FormField
                                 control={form.control}
-                                name="costCu"
+                                name="objective"
                                 render={({ field }) => (
                                     <FormItem>
-                                        <FormLabel>{t('assetDetail.optimizePM.costCuLabel')}</FormLabel>
-                                        <FormControl><Input type="number" {...field} /></FormControl>
-                                        <FormMessage />
+                                        <FormLabel>{t('assetDetail.optimizePM.objectiveLabel')}</FormLabel>
+                                        <Select onValueChange={field.onChange} value={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {OBJECTIVES.map(o => <SelectItem key={o} value={o}>{t(`assetDetail.optimizePM.objectives.${o}`)}</SelectItem>)}
+                                            </SelectContent>
+                                        </Select>
                                     </FormItem>
                                 )}
                             />
+                            {numberField('costCp', t('assetDetail.optimizePM.costCpLabel'))}
+                            {numberField('costCu', t('assetDetail.optimizePM.costCuLabel'))}
+                            {numberField('pmDuration', t('assetDetail.optimizePM.pmDurationLabel'))}
+                            {numberField('mttr', t('assetDetail.optimizePM.mttrLabel'))}
+                            {numberField('downtimeCostPerHour', t('assetDetail.optimizePM.downtimeCostLabel'))}
                         </form>
                     </Form>
                 </div>
@@ -213,47 +396,85 @@ export default function PreventiveMaintenanceOptimizer({ asset, onCalculationCom
                     )}
                     {!isCalculating && !result && (
                         <div className="flex flex-col items-center justify-center h-full min-h-[300px] bg-muted rounded-md text-center p-4">
-                            <p className="text-sm text-muted-foreground">{t('assetDetail.optimizePM.noWeibull')}</p>
+                            <p className="text-sm text-muted-foreground">{t('assetDetail.optimizePM.noDistribution')}</p>
                         </div>
                     )}
                     {result && (
                         <div className="space-y-4">
                             <Alert>
                                 <AlertTitle>{t('assetDetail.optimizePM.resultTitle')}</AlertTitle>
-                                <AlertDescription className="grid grid-cols-2 gap-4 mt-2">
-                                    <div>
-                                        <p className="text-xs text-muted-foreground">{t('assetDetail.optimizePM.optimalInterval')}</p>
-                                        <p className="text-xl font-bold text-primary">{Math.round(result.optimalInterval).toLocaleString()} {asset.units}</p>
-                                    </div>
-                                    <div>
-                                        <p className="text-xs text-muted-foreground">{t('assetDetail.optimizePM.minimumCost')}</p>
-                                        <p className="text-xl font-bold text-primary">${result.minCost.toFixed(2)}</p>
-                                    </div>
+                                <AlertDescription className="mt-2 space-y-3">
+                                    {result.hasOptimum ? (
+                                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                            <div>
+                                                <p className="text-xs text-muted-foreground">{t('assetDetail.optimizePM.optimalInterval')}</p>
+                                                <p className="text-xl font-bold text-primary">{Math.round(result.optimalInterval).toLocaleString()} {asset.units}</p>
+                                                {result.intervalBounds && (
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {t('assetDetail.optimizePM.confidenceBand', {
+                                                            confidence: CONFIDENCE * 100,
+                                                            lower: Math.round(result.intervalBounds.lower).toLocaleString(),
+                                                            upper: Math.round(result.intervalBounds.upper).toLocaleString(),
+                                                        })}
+                                                    </p>
+                                                )}
+                                            </div>
+                                            <div>
+                                                <p className="text-xs text-muted-foreground">{t('assetDetail.optimizePM.costAtOptimum')}</p>
+                                                <p className="text-xl font-bold text-primary">${result.cost.toFixed(2)}</p>
+                                            </div>
+                                            <div>
+                                                <p className="text-xs text-muted-foreground">{t('assetDetail.optimizePM.availabilityAtOptimum')}</p>
+                                                <p className="text-xl font-bold text-primary">{(result.availability * 100).toFixed(3)}%</p>
+                                            </div>
+                                        </div>
+                                    ) : (
+                                        <p className="text-sm">{t('assetDetail.optimizePM.noOptimum')}</p>
+                                    )}
+                                    <p className="text-xs text-muted-foreground">
+                                        {t('assetDetail.optimizePM.runToFailure', {
+                                            cost: result.runToFailure.cost.toFixed(2),
+                                            availability: (result.runToFailure.availability * 100).toFixed(3),
+                                        })}
+                                    </p>
                                 </AlertDescription>
                             </Alert>
                             <Card>
                                 <CardHeader>
-                                    <CardTitle className="text-base">{t('assetDetail.optimizePM.chartTitle')}</CardTitle>
+                                    <CardTitle className="text-base">{t(isCost ? 'assetDetail.optimizePM.chartTitle' : 'assetDetail.optimizePM.availabilityChartTitle')}</CardTitle>
                                 </CardHeader>
                                 <CardContent>
                                     <ResponsiveContainer width="100%" height={250}>
-                                        <LineChart data={result.costCurve} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                                        <LineChart data={chartData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
                                             <CartesianGrid strokeDasharray="3 3" />
                                             <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(tick) => tick.toLocaleString()} />
-                                            <YAxis dataKey="cost" name={t('assetDetail.optimizePM.yAxis')} domain={['dataMin', 'dataMax']} tickFormatter={(tick) => `$${tick.toPrecision(2)}`} />
+                                            <YAxis dataKey={chartKey} domain={['auto', 'auto']} tickFormatter={(tick) => isCost ? `$${tick.toPrecision(2)}` : `${tick.toFixed(1)}%`} />
                                             <Tooltip
-                                                formatter={(value: number, name, props) => [`$${value.toFixed(2)}`, t('assetDetail.optimizePM.yAxis')]}
+                                                formatter={(value: number) => [formatValue(value), t(isCost ? 'assetDetail.optimizePM.yAxis' : 'assetDetail.optimizePM.availabilityAxis')]}
                                                 labelFormatter={(label) => `${t('charts.time')}: ${Math.round(label)}`}
                                             />
-                                            <Line type="monotone" dataKey="cost" stroke="hsl(var(--primary))" dot={false} strokeWidth={2} />
-                                            {result.optimalInterval > 0 && (
+                                            {result.intervalBounds && (
+                                                <ReferenceArea x1={result.intervalBounds.lower} x2={result.intervalBounds.upper} fill="hsl(var(--destructive))" fillOpacity={0.08} />
+                                            )}
+                                            <Line type="monotone" dataKey={chartKey} stroke="hsl(var(--primary))" dot={false} strokeWidth={2} />
+                                            {result.hasOptimum && (
                                                 <ReferenceLine x={result.optimalInterval} stroke="hsl(var(--destructive))" strokeDasharray="3 3" />
                                             )}
-                                            <ReferenceDot x={result.optimalInterval} y={result.minCost} r={5} fill="hsl(var(--destructive))" stroke="white" />
+                                            {result.hasOptimum && (
+                                                <ReferenceDot x={result.optimalInterval} y={optimumValue} r={5} fill="hsl(var(--destructive))" stroke="white" />
+                                            )}
                                         </LineChart>
                                     </ResponsiveContainer>
                                 </CardContent>
                             </Card>
+                            {blockResult && <PolicyComparison age={result} block={blockResult} units={asset.units} t={t} />}
+                            <OpportunisticWindow
+                                input={policyInput}
+                                costRate={Math.min(result.cost, result.runToFailure.cost)}
+                                currentAge={currentAge}
+                                units={asset.units}
+                                t={t}
+                            />
                              <Alert>
                                 <Lightbulb className="h-4 w-4" />
                                 <AlertTitle>{t('assetDetail.optimizePM.interpretationTitle')}</AlertTitle>
@@ -16,7 +16,7 @@ function normalInverse(p: number): number {
     if (p >= 1) p = 0.999999;
 
     // A&S formula 26.2.23
-    const t = Math.sqrt(-2 * Math.log(1 - p));
+    const t = Math.sqrt(-2 * Math.log(p < 0.5 ? p : 1 - p));
     const c0 = 2.515517;
     const c1 = 0.802853;
     const c2 = 0.010328;
@@ -50,7 +50,7 @@ export default function ProbabilityPlot({ suppliers = [], paperType }: React.Pro
     
     // ECharts series
     const series = validSuppliers.flatMap(supplier => {
-        const { plotData, color, name } = supplier;
+        const { plotData, color, name, params, id } = supplier;
         if (!plotData || !plotData.points?.median || !plotData.line) return [];
         
         let transformedPoints: [number, number][] = [];
@@ -59,7 +59,8 @@ export default function ProbabilityPlot({ suppliers = [], paperType }: React.Pro
         // Data transformation based on paper type
         switch(paperType) {
             case 'Weibull':
-                transformedPoints = plotData.points.median.map(p => [p.x, p.y]);
+                // 3-parameter Weibull is plotted against ln(t - gamma), which straightens the curve
+                transformedPoints = plotData.points.median.map(p => [Math.log(p.time - (params.gamma ?? 0)), p.y]);
                 transformedLine = plotData.line.map(p => [p.x, p.y]);
                 break;
             case 'Lognormal':
@@ -82,11 +83,30 @@ export default function ProbabilityPlot({ suppliers = [], paperType }: React.Pro
                 transformedPoints = plotData.points.median.map(p => [p.time, -Math.log(-Math.log(p.prob))]);
                 transformedLine = plotData.line.map(p => [p.x, p.y]);
                 break;
+            case 'Gamma':
+            case 'GeneralizedGamma':
+            case 'MixedWeibull':
+                // Shape-dependent papers (and the mixture, on Weibull paper) come already transformed
+                transformedPoints = plotData.points.median.map(p => [p.x, p.y]);
+                transformedLine = plotData.line.map(p => [p.x, p.y]);
+                break;
         }
 
+        // MLE fits carry Fisher matrix bounds, drawn dashed around the fitted line
+        const { bounds } = plotData;
+        const boundsSeries = bounds ? (['lower', 'upper'] as const).map(side => ({
+            type: 'line',
+            id: `${id}:bounds:${side}`,
+            name: `${name} (${t('probabilityPlot.bounds', { level: bounds.confidenceLevel })})`,
+            data: bounds[side].map(p => [p.x, p.y]),
+            showSymbol: false,
+            lineStyle: { width: 1, type: 'dashed', color: color }
+        })) : [];
+
         return [
             {
                 type: 'scatter',
+                id: `${id}:points`,
                 name: name,
                 data: transformedPoints,
                 symbolSize: 8,
@@ -94,11 +114,13 @@ export default function ProbabilityPlot({ suppliers = [], paperType }: React.Pro
             },
             {
                 type: 'line',
+                id: `${id}:fit`,
                 name: `${name} (${t('probabilityPlot.fit')})`,
                 data: transformedLine,
                 showSymbol: false,
                 lineStyle: { width: 2, color: color }
-            }
+            },
+            ...boundsSeries
         ];
     });
 
@@ -126,7 +148,7 @@ export default function ProbabilityPlot({ suppliers = [], paperType }: React.Pro
     const probabilityTicks = [0.01, 0.1, 1, 5, 10, 20, 30, 40, 50, 60, 70, 80, 90, 95, 99, 99.9, 99.99];
 
     let yAxisSettings = {};
-    if (paperType === 'Weibull') {
+    if (paperType === 'Weibull' || paperType === 'MixedWeibull') {
         yAxisSettings = {
             type: 'value',
             min: finalMinY,
@@ -194,13 +216,18 @@ export default function ProbabilityPlot({ suppliers = [], paperType }: React.Pro
         }
     }
 
+    const hasLocationParam = paperType === 'Weibull' && validSuppliers.some(s => s.params.gamma != null);
+
     const xAxisSettings = {
-        Weibull: { name: 'ln(Tempo)', type: 'value', min: finalMinX, max: finalMaxX },
+        Weibull: { name: hasLocationParam ? 'ln(Tempo - γ)' : 'ln(Tempo)', type: 'value', min: finalMinX, max: finalMaxX },
         Lognormal: { name: 'ln(Tempo)', type: 'value', min: finalMinX, max: finalMaxX },
         Normal: { name: t('charts.time'), type: 'value', min: finalMinX, max: finalMaxX },
         Exponential: { name: t('charts.time'), type: 'value', min: finalMinX, max: finalMaxX },
         Loglogistic: { name: 'ln(Tempo)', type: 'value', min: finalMinX, max: finalMaxX },
-        Gumbel: { name: t('charts.time'), type: 'value', min: finalMinX, max: finalMaxX }
+        Gumbel: { name: t('charts.time'), type: 'value', min: finalMinX, max: finalMaxX },
+        Gamma: { name: 'ln(Tempo)', type: 'value', min: finalMinX, max: finalMaxX },
+        GeneralizedGamma: { name: 'ln(Tempo)', type: 'value', min: finalMinX, max: finalMaxX },
+        MixedWeibull: { name: 'ln(Tempo)', type: 'value', min: finalMinX, max: finalMaxX }
     };
     
     // ECharts option object
@@ -230,6 +257,9 @@ export default function ProbabilityPlot({ suppliers = [], paperType }: React.Pro
             selected: validSuppliers.reduce((acc, s) => {
                 acc[s.name] = true;
                 acc[`${s.name} (${t('probabilityPlot.fit')})`] = true;
+                if (s.plotData?.bounds) {
+                    acc[`${s.name} (${t('probabilityPlot.bounds', { level: s.plotData.bounds.confidenceLevel })})`] = true;
+                }
                 return acc;
             }, {} as Record<string, boolean>),
         },
@@ -258,14 +288,17 @@ export default function ProbabilityPlot({ suppliers = [], paperType }: React.Pro
                     const lineParam = params[0];
                     if (!lineParam) return '';
                     let timeVal;
-                    if(paperType === 'Weibull' || paperType === 'Lognormal' || paperType === 'Loglogistic') {
+                    if (paperType === 'Weibull' || paperType === 'MixedWeibull') {
+                        const lineSupplier = validSuppliers.find(s => lineParam.seriesId?.startsWith(`${s.id}:`));
+                        timeVal = (Math.exp(lineParam.axisValue) + (lineSupplier?.params.gamma ?? 0)).toPrecision(4);
+                    } else if (paperType === 'Lognormal' || paperType === 'Loglogistic' || paperType === 'Gamma' || paperType === 'GeneralizedGamma') {
                         timeVal = Math.exp(lineParam.axisValue).toPrecision(4);
                     } else {
                         timeVal = lineParam.axisValue.toPrecision(4);
                     }
                     
                     let probVal;
-                     if (paperType === 'Weibull') {
+                     if (paperType === 'Weibull' || paperType === 'MixedWeibull') {
                         probVal = (1 - Math.exp(-Math.exp(lineParam.value[1]))) * 100;
                     } else {
                         probVal = 'N/A'; // Need CDF for others
@@ -285,6 +318,9 @@ export default function ProbabilityPlot({ suppliers = [], paperType }: React.Pro
                 if (supplier.params.rho != null) {
                     tooltip += `<br/>R²: ${supplier.params.rho.toFixed(3)}`;
                 }
+                if (paperType === 'Weibull' && supplier.params.gamma != null) {
+                    tooltip += `<br/>γ: ${supplier.params.gamma.toFixed(2)}`;
+                }
                 return tooltip;
             }
         },
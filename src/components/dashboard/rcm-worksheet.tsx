@@ -0,0 +1,335 @@
+'use client';
+
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { useI18n } from '@/i18n/i18n-provider';
+import { cn } from '@/lib/utils';
+import { getAssetParameters, getReliability, sampleLifetime } from '@/lib/reliability';
+import { calculateFailureFindingInterval, calculateOptimalInterval, planConditionMonitoring } from '@/lib/maintenance-policies';
+import { evaluateRcmDecision } from '@/lib/rcm';
+import type { AssetData, Parameters, RcmConsequence, RcmDecision, RcmFailureMode, RcmFunction, RcmFunctionalFailure } from '@/lib/types';
+
+interface RcmWorksheetProps {
+  asset: AssetData;
+  mtbf: number; // observed, for the failure rate behind on-condition intervals
+  onChange: (worksheet: RcmFunction[]) => void;
+}
+
+type Translate = (key: string, args?: any) => string;
+
+// Task inputs the asset does not carry, matching the defaults of the individual calculators
+const DEFAULT_PF_INTERVAL = 720;
+const DEFAULT_DETECTION_PROBABILITY = 0.9;
+const DEFAULT_INSPECTION_COST = 200;
+const DEFAULT_DEMAND_RATE = 0.1;
+const DEFAULT_TOLERABLE_PROBABILITY = 1e-4;
+const DEFAULT_PM_COST = 1000;
+const DEFAULT_CM_COST = 5000;
+const DEFAULT_PM_DURATION = 4;
+// Safety and environmental consequences call for a safe-life limit rather than the economic optimum
+const SAFE_LIFE_RELIABILITY = 0.999;
+const SAVE_DELAY_MS = 600;
+
+const CONSEQUENCE_COLORS: Record<RcmConsequence, string> = {
+  hidden: 'border-purple-500 text-purple-600',
+  safety: 'border-red-500 text-red-600',
+  environmental: 'border-green-600 text-green-700',
+  operational: 'border-yellow-500 text-yellow-600',
+  nonOperational: 'border-blue-500 text-blue-600',
+};
+
+const newId = () => `${new Date().getTime()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const newFailureMode = (): RcmFailureMode => ({ id: newId(), description: '', effect: '', answers: {} });
+const newFunctionalFailure = (): RcmFunctionalFailure => ({ id: newId(), description: '', failureModes: [newFailureMode()] });
+const newFunction = (): RcmFunction => ({ id: newId(), description: '', functionalFailures: [newFunctionalFailure()] });
+
+type TaskInterval = { interval: number | null; basis: string };
+
+const YesNo = ({ value, onChange, t }: { value?: boolean, onChange: (value: boolean) => void, t: Translate }) => (
+  <div className="flex gap-1">
+    <Button type="button" size="sm" variant={value === true ? 'default' : 'outline'} className="h-7 px-3 text-xs" onClick={() => onChange(true)}>{t('rcm.yes')}</Button>
+    <Button type="button" size="sm" variant={value === false ? 'default' : 'outline'} className="h-7 px-3 text-xs" onClick={() => onChange(false)}>{t('rcm.no')}</Button>
+  </div>
+);
+
+const FailureModeEditor = ({ mode, decision, interval, canRemove, onChange, onRemove, t }: {
+  mode: RcmFailureMode,
+  decision: RcmDecision,
+  interval: TaskInterval | null,
+  canRemove: boolean,
+  onChange: (update: Partial<RcmFailureMode>) => void,
+  onRemove: () => void,
+  t: Translate,
+}) => {
+  const questions = decision.nextQuestion ? [...decision.path, decision.nextQuestion] : decision.path;
+  const numberInput = (field: 'pfInterval' | 'detectionProbability' | 'inspectionCost' | 'demandRate' | 'tolerableProbability', fallback: number, step = 1) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{t(`rcm.inputs.${field}`)}</Label>
+      <Input
+        type="number" min={0} step={step} className="h-8 w-32 text-xs"
+        value={mode[field] ?? fallback}
+        onChange={e => onChange({ [field]: Number(e.target.value) })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input className="h-8 min-w-40 flex-1 text-xs" placeholder={t('rcm.failureMode')} value={mode.description} onChange={e => onChange({ description: e.target.value })} />
+        <Input className="h-8 min-w-40 flex-1 text-xs" placeholder={t('rcm.effect')} value={mode.effect} onChange={e => onChange({ effect: e.target.value })} />
+        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" disabled={!canRemove} onClick={onRemove} aria-label={t('rcm.remove')}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {questions.map(question => (
+          <div key={question} className={cn('flex flex-wrap items-center justify-between gap-2 text-xs', question === decision.nextQuestion && 'font-semibold')}>
+            <span>{t(`rcm.questions.${question}`)}</span>
+            <YesNo value={mode.answers[question]} onChange={value => onChange({ answers: { ...mode.answers, [question]: value } })} t={t} />
+          </div>
+        ))}
+      </div>
+
+      {decision.task === 'onCondition' && (
+        <div className="flex flex-wrap gap-3">
+          {numberInput('pfInterval', DEFAULT_PF_INTERVAL)}
+          {numberInput('detectionProbability', DEFAULT_DETECTION_PROBABILITY, 0.05)}
+          {numberInput('inspectionCost', DEFAULT_INSPECTION_COST)}
+        </div>
+      )}
+      {decision.task === 'failureFinding' && (
+        <div className="flex flex-wrap gap-3">
+          {numberInput('demandRate', DEFAULT_DEMAND_RATE, 0.01)}
+          {numberInput('tolerableProbability', DEFAULT_TOLERABLE_PROBABILITY, 0.00001)}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {decision.consequence && (
+          <Badge variant="outline" className={CONSEQUENCE_COLORS[decision.consequence]}>{t(`rcm.consequences.${decision.consequence}`)}</Badge>
+        )}
+        {decision.task ? (
+          <>
+            <Badge>{t(`rcm.tasks.${decision.task}`)}</Badge>
+            {interval && (
+              <span className="text-muted-foreground">
+                {interval.interval !== null && <strong className="text-foreground">{`${Math.round(interval.interval).toLocaleString()} h · `}</strong>}
+                {interval.basis}
+              </span>
+            )}
+          </>
+        ) : (
+          <span className="text-muted-foreground">{t('rcm.pending')}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default function RcmWorksheet({ asset, mtbf, onChange }: RcmWorksheetProps) {
+  const { t } = useI18n();
+  // Edited locally and saved to the asset once typing pauses
+  const [worksheet, setWorksheet] = useState<RcmFunction[]>(() => asset.rcmWorksheet ?? []);
+  const savedWorksheet = useRef(worksheet);
+  const latestWorksheet = useRef(worksheet);
+  // The parent passes a new callback on every render, which must not restart the pause
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    latestWorksheet.current = worksheet;
+    if (worksheet === savedWorksheet.current) return;
+    const timer = setTimeout(() => {
+      savedWorksheet.current = worksheet;
+      onChangeRef.current(worksheet);
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [worksheet]);
+
+  // Leaving the asset cancels the timer above, so an edit still waiting for the pause is saved here
+  useEffect(() => () => {
+    if (latestWorksheet.current !== savedWorksheet.current) onChangeRef.current(latestWorksheet.current);
+  }, []);
+
+  const params: Parameters = useMemo(() => getAssetParameters(asset), [asset]);
+
+  const isFitted = !!asset.distribution && !Number.isNaN(getReliability(asset.distribution, params, 1));
+  const failureCost = (asset.cmCost ?? DEFAULT_CM_COST) + (asset.downtimeCostPerHour ?? 0) * (asset.mttr ?? 0);
+
+  // Age-based tasks share one optimisation of the asset's fitted model
+  const ageReplacement = useMemo(() => {
+    if (!isFitted) return null;
+    return calculateOptimalInterval({
+      distribution: asset.distribution!,
+      params,
+      costCp: asset.pmCost ?? DEFAULT_PM_COST,
+      costCu: asset.cmCost ?? DEFAULT_CM_COST,
+      pmDuration: DEFAULT_PM_DURATION,
+      mttr: asset.mttr ?? 0,
+      downtimeCostPerHour: asset.downtimeCostPerHour ?? 0,
+      objective: 'cost',
+    });
+  }, [isFitted, asset.distribution, asset.pmCost, asset.cmCost, asset.mttr, asset.downtimeCostPerHour, params]);
+
+  const taskInterval = (mode: RcmFailureMode, decision: RcmDecision): TaskInterval | null => {
+    switch (decision.task) {
+      case 'onCondition': {
+        if (!(mtbf > 0)) return { interval: null, basis: t('rcm.basis.noModel') };
+        const pfInterval = mode.pfInterval ?? DEFAULT_PF_INTERVAL;
+        const plan = planConditionMonitoring({
+          id: mode.id,
+          name: mode.description,
+          pfInterval,
+          detectionProbability: mode.detectionProbability ?? DEFAULT_DETECTION_PROBABILITY,
+          inspectionCost: mode.inspectionCost ?? DEFAULT_INSPECTION_COST,
+          consequenceCost: failureCost,
+          mtbf,
+        });
+        if ('error' in plan) return { interval: null, basis: plan.error };
+        return { interval: plan.inspectionInterval, basis: t('rcm.basis.onCondition', { pf: pfInterval, net: Math.round(plan.netPFInterval) }) };
+      }
+      case 'scheduledRestoration':
+      case 'scheduledDiscard': {
+        if (!isFitted) return { interval: null, basis: t('rcm.basis.noModel') };
+        if (decision.consequence === 'safety' || decision.consequence === 'environmental') {
+          return {
+            interval: sampleLifetime(asset.distribution!, params, SAFE_LIFE_RELIABILITY),
+            basis: t('rcm.basis.safeLife', { reliability: SAFE_LIFE_RELIABILITY * 100 }),
+          };
+        }
+        if (!ageReplacement?.hasOptimum) return { interval: null, basis: t('rcm.basis.noOptimum') };
+        return { interval: ageReplacement.optimalInterval, basis: t('rcm.basis.ageReplacement', { distribution: asset.distribution! }) };
+      }
+      case 'failureFinding': {
+        if (!isFitted) return { interval: null, basis: t('rcm.basis.noModel') };
+        const ffi = calculateFailureFindingInterval({
+          distribution: asset.distribution!,
+          params,
+          demandRate: mode.demandRate ?? DEFAULT_DEMAND_RATE,
+          tolerableProbability: mode.tolerableProbability ?? DEFAULT_TOLERABLE_PROBABILITY,
+        });
+        if ('error' in ffi) return { interval: null, basis: ffi.error };
+        return { interval: ffi.exactInterval, basis: t('rcm.basis.failureFinding', { unavailability: ffi.allowedUnavailability.toExponential(1) }) };
+      }
+      case 'redesign':
+      case 'runToFailure':
+        return { interval: null, basis: t(`rcm.basis.${decision.task}`) };
+      default:
+        return null;
+    }
+  };
+
+  const rows = worksheet.flatMap(fn => fn.functionalFailures.flatMap(ff => ff.failureModes.map(mode => {
+    const decision = evaluateRcmDecision(mode.answers);
+    return { fn, ff, mode, decision, interval: taskInterval(mode, decision) };
+  })));
+  const byMode = Object.fromEntries(rows.map(row => [row.mode.id, row]));
+
+  const updateFunction = (fnId: string, update: (fn: RcmFunction) => RcmFunction) =>
+    setWorksheet(prev => prev.map(fn => (fn.id === fnId ? update(fn) : fn)));
+  const updateFailure = (fnId: string, ffId: string, update: (ff: RcmFunctionalFailure) => RcmFunctionalFailure) =>
+    updateFunction(fnId, fn => ({ ...fn, functionalFailures: fn.functionalFailures.map(ff => (ff.id === ffId ? update(ff) : ff)) }));
+  const updateMode = (fnId: string, ffId: string, modeId: string, update: Partial<RcmFailureMode>) =>
+    updateFailure(fnId, ffId, ff => ({ ...ff, failureModes: ff.failureModes.map(m => (m.id === modeId ? { ...m, ...update } : m)) }));
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">{t('rcm.description')}</p>
+      {!isFitted && <p className="text-xs text-muted-foreground">{t('rcm.noModel')}</p>}
+
+      {worksheet.map((fn, fnIndex) => (
+        <div key={fn.id} className="space-y-3 rounded-md border p-4">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-semibold">{fnIndex + 1}.</span>
+            <Input className="h-8 flex-1" placeholder={t('rcm.function')} value={fn.description} onChange={e => updateFunction(fn.id, f => ({ ...f, description: e.target.value }))} />
+            <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => setWorksheet(prev => prev.filter(f => f.id !== fn.id))} aria-label={t('rcm.remove')}>
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+          <div className="space-y-3 border-l-2 border-dashed pl-3">
+            {fn.functionalFailures.map((ff, ffIndex) => (
+              <div key={ff.id} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-semibold">{`${fnIndex + 1}.${String.fromCharCode(65 + ffIndex)}`}</span>
+                  <Input className="h-8 flex-1 text-xs" placeholder={t('rcm.functionalFailure')} value={ff.description} onChange={e => updateFailure(fn.id, ff.id, f => ({ ...f, description: e.target.value }))} />
+                  <Button
+                    variant="ghost" size="icon" className="h-8 w-8 shrink-0" disabled={fn.functionalFailures.length === 1}
+                    onClick={() => updateFunction(fn.id, f => ({ ...f, functionalFailures: f.functionalFailures.filter(x => x.id !== ff.id) }))}
+                    aria-label={t('rcm.remove')}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+                <div className="space-y-2 pl-6">
+                  {ff.failureModes.map(mode => (
+                    <FailureModeEditor
+                      key={mode.id}
+                      mode={mode}
+                      decision={byMode[mode.id].decision}
+                      interval={byMode[mode.id].interval}
+                      canRemove={ff.failureModes.length > 1}
+                      onChange={update => updateMode(fn.id, ff.id, mode.id, update)}
+                      onRemove={() => updateFailure(fn.id, ff.id, f => ({ ...f, failureModes: f.failureModes.filter(m => m.id !== mode.id) }))}
+                      t={t}
+                    />
+                  ))}
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => updateFailure(fn.id, ff.id, f => ({ ...f, failureModes: [...f.failureModes, newFailureMode()] }))}>
+                    <Plus className="mr-1 h-3 w-3" />{t('rcm.addFailureMode')}
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => updateFunction(fn.id, f => ({ ...f, functionalFailures: [...f.functionalFailures, newFunctionalFailure()] }))}>
+              <Plus className="mr-1 h-3 w-3" />{t('rcm.addFunctionalFailure')}
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={() => setWorksheet(prev => [...prev, newFunction()])}>
+        <Plus className="mr-1 h-4 w-4" />{t('rcm.addFunction')}
+      </Button>
+
+      {rows.length > 0 && (
+        <div>
+          <h4 className="mb-2 text-sm font-semibold">{t('rcm.summaryTitle')}</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('rcm.function')}</TableHead>
+                <TableHead>{t('rcm.functionalFailure')}</TableHead>
+                <TableHead>{t('rcm.failureMode')}</TableHead>
+                <TableHead>{t('rcm.consequence')}</TableHead>
+                <TableHead>{t('rcm.task')}</TableHead>
+                <TableHead className="text-right">{t('rcm.interval')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ fn, ff, mode, decision, interval }) => (
+                <TableRow key={mode.id}>
+                  <TableCell className="text-xs">{fn.description || '-'}</TableCell>
+                  <TableCell className="text-xs">{ff.description || '-'}</TableCell>
+                  <TableCell className="text-xs">{mode.description || '-'}</TableCell>
+                  <TableCell className="text-xs">{decision.consequence ? t(`rcm.consequences.${decision.consequence}`) : '-'}</TableCell>
+                  <TableCell className="text-xs">{decision.task ? t(`rcm.tasks.${decision.task}`) : t('rcm.pending')}</TableCell>
+                  <TableCell className="text-right font-mono text-xs">{interval?.interval != null ? `${Math.round(interval.interval).toLocaleString()} h` : '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
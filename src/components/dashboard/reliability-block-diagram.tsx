@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2, Network } from 'lucide-react';
+import { useI18n } from '@/i18n/i18n-provider';
+import { getAssetParameters } from '@/lib/reliability';
+import { analyzeReliabilityBlockDiagram } from '@/lib/rbd';
+import type { AssetData, RbdBlock, RbdBlockType, Supplier } from '@/lib/types';
+
+interface ReliabilityBlockDiagramProps {
+  suppliers: Supplier[];
+}
+
+type Translate = (key: string, args?: any) => string;
+
+const GROUP_TYPES: Exclude<RbdBlockType, 'component'>[] = ['series', 'parallel', 'kOutOfN', 'standby'];
+
+const newBlockId = () => `${new Date().getTime()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const newComponent = (): RbdBlock => ({ id: newBlockId(), type: 'component' });
+
+const newGroup = (type: RbdBlockType = 'parallel'): RbdBlock => ({ id: newBlockId(), type, children: [newComponent(), newComponent()], k: 1, switchReliability: 1 });
+
+const updateBlock = (block: RbdBlock, id: string, update: (b: RbdBlock) => RbdBlock): RbdBlock =>
+  block.id === id ? update(block) : { ...block, children: block.children?.map(child => updateBlock(child, id, update)) };
+
+const removeBlock = (block: RbdBlock, id: string): RbdBlock =>
+  ({ ...block, children: block.children?.filter(child => child.id !== id).map(child => removeBlock(child, id)) });
+
+// Assets are fitted and saved by the Performance dashboard
+const getFittedAssets = (): AssetData[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const savedAssets = localStorage.getItem('rcm-assets');
+    const assets: AssetData[] = savedAssets ? JSON.parse(savedAssets) : [];
+    return assets.filter(a => a.distribution && a.analysisState === 'ok');
+  } catch (error) {
+    console.error("Failed to parse assets from localStorage", error);
+    return [];
+  }
+};
+
+const BlockEditor = ({ block, isRoot, sources, onChange, onRemove, t }: {
+  block: RbdBlock,
+  isRoot?: boolean,
+  sources: { suppliers: Supplier[], assets: AssetData[] },
+  onChange: (id: string, update: (b: RbdBlock) => RbdBlock) => void,
+  onRemove: (id: string) => void,
+  t: Translate,
+}) => {
+  if (block.type === 'component') {
+    const value = block.source ? `${block.source.kind}:${block.source.id}` : undefined;
+    return (
+      <div className="flex items-center gap-2">
+        <Select
+          value={value}
+          onValueChange={(val) => {
+            const [kind, ...rest] = val.split(':');
+            onChange(block.id, b => ({ ...b, source: { kind: kind as 'supplier' | 'asset', id: rest.join(':') } }));
+          }}
+        >
+          <SelectTrigger className="h-8 text-xs"><SelectValue placeholder={t('rbd.selectComponent')} /></SelectTrigger>
+          <SelectContent>
+            {sources.suppliers.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>{t('rbd.suppliers')}</SelectLabel>
+                {sources.suppliers.map(s => <SelectItem key={s.id} value={`supplier:${s.id}`}>{`${s.name} (${s.distribution})`}</SelectItem>)}
+              </SelectGroup>
+            )}
+            {sources.assets.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>{t('rbd.assets')}</SelectLabel>
+                {sources.assets.map(a => <SelectItem key={a.id} value={`asset:${a.id}`}>{`${a.name} (${a.distribution})`}</SelectItem>)}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => onRemove(block.id)} aria-label={t('rbd.remove')}>
+          <Trash2 className="h-4 w-4 text-destructive" />
+        </Button>
+      </div>
+    );
+  }
+
+  const children = block.children ?? [];
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={block.type} onValueChange={(val) => onChange(block.id, b => ({ ...b, type: val as RbdBlockType }))}>
+          <SelectTrigger className="h-8 w-40 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {GROUP_TYPES.map(type => <SelectItem key={type} value={type}>{t(`rbd.types.${type}`)}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        {block.type === 'kOutOfN' && (
+          <div className="flex items-center gap-1 text-xs">
+            <Label className="text-xs">k</Label>
+            <Input
+              type="number" min={1} max={children.length} className="h-8 w-16"
+              value={block.k ?? 1}
+              onChange={e => onChange(block.id, b => ({ ...b, k: Number(e.target.value) }))}
+            />
+            <span className="text-muted-foreground">{t('rbd.ofN', { n: children.length })}</span>
+          </div>
+        )}
+        {block.type === 'standby' && (
+          <div className="flex items-center gap-1">
+            <Label className="text-xs">{t('rbd.switchReliability')}</Label>
+            <Input
+              type="number" min={0} max={1} step={0.01} className="h-8 w-20"
+              value={block.switchReliability ?? 1}
+              onChange={e => onChange(block.id, b => ({ ...b, switchReliability: Number(e.target.value) }))}
+            />
+          </div>
+        )}
+        {!isRoot && (
+          <Button variant="ghost" size="icon" className="ml-auto h-8 w-8" onClick={() => onRemove(block.id)} aria-label={t('rbd.remove')}>
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        )}
+      </div>
+      {block.type === 'standby' && <p className="text-xs text-muted-foreground">{t('rbd.standbyHint')}</p>}
+      <div className="space-y-2 border-l-2 border-dashed pl-3">
+        {children.map(child => (
+          <BlockEditor key={child.id} block={child} sources={sources} onChange={onChange} onRemove={onRemove} t={t} />
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onChange(block.id, b => ({ ...b, children: [...(b.children ?? []), newComponent()] }))}>
+          <Plus className="mr-1 h-3 w-3" />{t('rbd.addComponent')}
+        </Button>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onChange(block.id, b => ({ ...b, children: [...(b.children ?? []), newGroup()] }))}>
+          <Plus className="mr-1 h-3 w-3" />{t('rbd.addBlock')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default function ReliabilityBlockDiagram({ suppliers }: ReliabilityBlockDiagramProps) {
+  const { t } = useI18n();
+  const [root, setRoot] = useState<RbdBlock>(() => ({ id: 'root', type: 'series', children: [newComponent(), newGroup('parallel')] }));
+  const [missionTime, setMissionTime] = useState(1000);
+  const [assets, setAssets] = useState<AssetData[]>([]);
+
+  useEffect(() => {
+    setAssets(getFittedAssets());
+  }, []);
+
+  const fittedSuppliers = useMemo(() => suppliers.filter(s => s.params && Object.keys(s.params).length > 0), [suppliers]);
+
+  // Attach the current distribution of each referenced supplier or asset
+  const resolved = useMemo(() => {
+    const resolve = (block: RbdBlock): RbdBlock => {
+      if (block.type !== 'component') return { ...block, children: block.children?.map(resolve) };
+      if (block.source?.kind === 'supplier') {
+        const supplier = fittedSuppliers.find(s => s.id === block.source?.id);
+        if (supplier) return { ...block, name: supplier.name, distribution: supplier.distribution, params: supplier.params };
+      }
+      if (block.source?.kind === 'asset') {
+        const asset = assets.find(a => a.id === block.source?.id);
+        if (asset?.distribution) {
+          return { ...block, name: asset.name, distribution: asset.distribution, params: getAssetParameters(asset) };
+        }
+      }
+      return { ...block, name: t('rbd.unassigned') };
+    };
+    return resolve(root);
+  }, [root, fittedSuppliers, assets, t]);
+
+  const analysis = useMemo(() => analyzeReliabilityBlockDiagram(resolved, missionTime), [resolved, missionTime]);
+
+  const handleChange = (id: string, update: (b: RbdBlock) => RbdBlock) => setRoot(prev => updateBlock(prev, id, update));
+  const handleRemove = (id: string) => setRoot(prev => removeBlock(prev, id));
+
+  const renderCurve = (titleKey: string, dataKey: 'reliability' | 'hazard', yDomain: any) => 'curve' in analysis && (
+    <div>
+      <h4 className="mb-2 text-sm font-semibold">{t(titleKey)}</h4>
+      <div className="h-64 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={analysis.curve} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              stroke="hsl(var(--muted-foreground))"
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+              tickFormatter={(tick: number) => tick >= 1000 ? `${(tick / 1000).toPrecision(2)}k` : tick.toFixed(0)}
+            />
+            <YAxis
+              domain={yDomain}
+              stroke="hsl(var(--muted-foreground))"
+              tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+              tickFormatter={(tick: number) => tick.toPrecision(2)}
+            />
+            <Tooltip
+              formatter={(value: number) => value.toPrecision(4)}
+              labelFormatter={(label: number) => `${t('charts.time')}: ${Math.round(label)}`}
+              wrapperClassName="!border-border !bg-background !shadow-lg"
+            />
+            <ReferenceLine x={missionTime} stroke="hsl(var(--chart-4))" strokeDasharray="4 4" />
+            <Line type="monotone" dataKey={dataKey} name={t('rbd.system')} stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} connectNulls={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-7">
+      <Card className="lg:col-span-3">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Network className="h-5 w-5" />{t('rbd.cardTitle')}</CardTitle>
+          <CardDescription>{t('rbd.cardDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="rbd-mission" className="text-sm">{t('rbd.missionTime')}</Label>
+            <Input id="rbd-mission" type="number" min={0} className="h-8 w-32" value={missionTime} onChange={e => setMissionTime(Number(e.target.value))} />
+          </div>
+          {fittedSuppliers.length === 0 && assets.length === 0 && (
+            <p className="text-sm text-muted-foreground">{t('rbd.noSources')}</p>
+          )}
+          <BlockEditor block={root} isRoot sources={{ suppliers: fittedSuppliers, assets }} onChange={handleChange} onRemove={handleRemove} t={t} />
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-4">
+        <CardHeader>
+          <CardTitle>{t('rbd.resultsTitle')}</CardTitle>
+          <CardDescription>{t('rbd.resultsDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {'error' in analysis ? (
+            <p className="text-sm text-muted-foreground">{analysis.error}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="rounded-md border p-3 bg-muted/30">
+                  <div className="text-xs text-muted-foreground">{t('rbd.reliabilityAtMission', { time: analysis.missionTime })}</div>
+                  <div className="text-2xl font-bold">{(analysis.reliabilityAtMission * 100).toFixed(2)}%</div>
+                </div>
+                <div className="rounded-md border p-3 bg-muted/30">
+                  <div className="text-xs text-muted-foreground">MTTF</div>
+                  <div className="text-2xl font-bold">{analysis.mttf.toFixed(0)}</div>
+                </div>
+              </div>
+              <div className="grid gap-4 xl:grid-cols-2">
+                {renderCurve('rbd.reliabilityCurve', 'reliability', [0, 1])}
+                {renderCurve('rbd.hazardCurve', 'hazard', [0, 'auto'])}
+              </div>
+              <div>
+                <h4 className="mb-2 text-sm font-semibold">{t('rbd.importanceTitle', { time: analysis.missionTime })}</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('rbd.component')}</TableHead>
+                      <TableHead className="text-right">R(t)</TableHead>
+                      <TableHead className="text-right">{t('rbd.birnbaum')}</TableHead>
+                      <TableHead className="text-right">{t('rbd.criticality')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analysis.importance.map(item => (
+                      <TableRow key={item.id}>
+                        <TableCell>{item.name}</TableCell>
+                        <TableCell className="text-right font-mono">{item.reliability.toFixed(4)}</TableCell>
+                        <TableCell className="text-right font-mono">{item.birnbaum.toFixed(4)}</TableCell>
+                        <TableCell className="text-right font-mono">{item.criticality.toFixed(4)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
 'use client';
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import type { ReliabilityData, Supplier } from '@/lib/types';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ReliabilityData, Supplier, SurvivalIntervalMethod } from '@/lib/types';
+import { calculateNonParametricSurvival } from '@/lib/reliability';
 import { useI18n } from '@/i18n/i18n-provider';
 
 interface ReliabilityChartsProps {
@@ -38,6 +42,23 @@ const CustomTooltip = ({ active, payload, label, t }: any) => {
 export default function ReliabilityCharts({ chartData, suppliers }: ReliabilityChartsProps) {
   const hasData = suppliers.length > 0;
   const { t } = useI18n();
+  const [showNonParametric, setShowNonParametric] = useState(false);
+  const [intervalMethod, setIntervalMethod] = useState<SurvivalIntervalMethod>('logLog');
+
+  // Kaplan-Meier steps per supplier, starting from R(0) = 1, to check the parametric R(t) against
+  const nonParametric = useMemo(() => {
+    if (!showNonParametric) return [];
+    return suppliers.map(supplier => {
+      const { steps } = calculateNonParametricSurvival({
+        failureTimes: supplier.failureTimes,
+        suspensionTimes: supplier.suspensionTimes,
+        intervals: supplier.intervals,
+        counts: supplier.dataType.isGrouped ? supplier : {},
+        method: intervalMethod,
+      });
+      return { supplier, steps: [{ time: 0, survival: 1, lower: 1, upper: 1 }, ...steps] };
+    });
+  }, [suppliers, showNonParametric, intervalMethod]);
 
   const renderChart = (titleKey: string, descriptionKey: string, dataKey: keyof ReliabilityData, yDomain: any) => (
     <Card>
@@ -83,6 +104,35 @@ export default function ReliabilityCharts({ chartData, suppliers }: ReliabilityC
                   isAnimationActive={false}
                 />
               ))}
+              {dataKey === 'Rt' && nonParametric.flatMap(({ supplier, steps }) => [
+                <Line
+                  key={`${supplier.id}-km`}
+                  data={steps}
+                  type="stepAfter"
+                  dataKey="survival"
+                  name={`${supplier.name} (${t('charts.nonParametric.kaplanMeier')})`}
+                  stroke={supplier.color}
+                  strokeWidth={1.5}
+                  dot={false}
+                  isAnimationActive={false}
+                />,
+                ...(['lower', 'upper'] as const).map(side => (
+                  <Line
+                    key={`${supplier.id}-km-${side}`}
+                    data={steps}
+                    type="stepAfter"
+                    dataKey={side}
+                    name={`${supplier.name} (${t(`charts.nonParametric.${side}`)})`}
+                    stroke={supplier.color}
+                    strokeOpacity={0.6}
+                    strokeWidth={1}
+                    strokeDasharray="4 3"
+                    dot={false}
+                    legendType="none"
+                    isAnimationActive={false}
+                  />
+                )),
+              ])}
             </LineChart>
           </ResponsiveContainer>
         ) : (
@@ -97,6 +147,23 @@ export default function ReliabilityCharts({ chartData, suppliers }: ReliabilityC
 
   return (
     <div className="space-y-4">
+      {hasData && (
+        <div className="flex flex-wrap items-center justify-end gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="non-parametric-overlay" checked={showNonParametric} onCheckedChange={setShowNonParametric} />
+            <Label htmlFor="non-parametric-overlay" className="text-sm">{t('charts.nonParametric.toggle')}</Label>
+          </div>
+          <Select value={intervalMethod} onValueChange={(val) => setIntervalMethod(val as SurvivalIntervalMethod)} disabled={!showNonParametric}>
+            <SelectTrigger className="h-8 w-48 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="logLog">{t('charts.nonParametric.logLog')}</SelectItem>
+              <SelectItem value="greenwood">{t('charts.nonParametric.greenwood')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
       <div className="grid grid-cols-1 gap-4 xl:grid-cols-2">
         {renderChart('charts.reliability.title', 'charts.reliability.description', 'Rt', [0, 1])}
         {renderChart('charts.failureProb.title', 'charts.failureProb.description', 'Ft', [0, 1])}
@@ -8,7 +8,7 @@ import type { Supplier, EstimationMethod } from '@/lib/types';
 import SupplierManager from './supplier-manager';
 import ReliabilityCharts from './reliability-charts';
 import AiRiskPredictor from './ai-risk-predictor';
-import { LineChart as LineChartIcon, TestTube, LayoutDashboard } from '@/components/icons';
+import { LineChart as LineChartIcon, TestTube, LayoutDashboard, Flame, Network } from '@/components/icons';
 import AiComprehensiveAnalysis from './ai-comprehensive-analysis';
 import WeibullParameterAnalysis from './weibull-parameter-analysis';
 import BathtubCurveAnalysis from './bathtub-curve-analysis';
@@ -17,6 +17,13 @@ import MonteCarloSimulator from './monte-carlo-simulator';
 import LanguageSwitcher from './language-switcher';
 import { useI18n } from '@/i18n/i18n-provider';
 import MaintenanceDashboard from './maintenance-dashboard';
+import AcceleratedLifeTesting from './accelerated-life-testing';
+import DegradationAnalysis from './degradation-analysis';
+import ReliabilityBlockDiagram from './reliability-block-diagram';
+
+// Grouped suppliers hold one entry per distinct time, so repeat each time by its count
+const expandCounts = (times: number[], counts?: number[]) =>
+  counts ? times.flatMap((time, i) => Array<number>(counts[i] ?? 1).fill(time)) : times;
 
 const initialSuppliersData = [
   { 
@@ -88,6 +95,9 @@ export default function ReliabilityDashboard() {
             const needsReEstimation = !originalSupplier || 
               JSON.stringify(originalSupplier.failureTimes) !== JSON.stringify(s.failureTimes) ||
               JSON.stringify(originalSupplier.suspensionTimes) !== JSON.stringify(s.suspensionTimes) ||
+              JSON.stringify(originalSupplier.intervals) !== JSON.stringify(s.intervals) ||
+              JSON.stringify(originalSupplier.failureCounts) !== JSON.stringify(s.failureCounts) ||
+              JSON.stringify(originalSupplier.suspensionCounts) !== JSON.stringify(s.suspensionCounts) ||
               originalSupplier.distribution !== s.distribution ||
               s.dataType.isGrouped !== originalSupplier.dataType.isGrouped ||
               s.dataType.hasSuspensions !== originalSupplier.dataType.hasSuspensions;
@@ -97,8 +107,13 @@ export default function ReliabilityDashboard() {
                     dist: s.distribution, 
                     failureTimes: s.failureTimes, 
                     suspensionTimes: s.suspensionTimes, 
+                    intervals: s.intervals,
+                    failureCounts: s.failureCounts,
+                    suspensionCounts: s.suspensionCounts,
                     method: estimationMethod,
-                    isGrouped: s.dataType.isGrouped
+                    isGrouped: s.dataType.isGrouped,
+                    threeParameter: s.params?.gamma != null,
+                    subpopulations: s.params?.subpopulations?.length
                 });
                 return { 
                   ...s, 
@@ -119,7 +134,14 @@ export default function ReliabilityDashboard() {
 
   const chartData = useMemo(() => calculateReliabilityData(suppliers), [suppliers]);
   const weibullSuppliers = useMemo(() => suppliers.filter(s => s.distribution === 'Weibull' && s.params.beta != null && s.params.eta != null), [suppliers]);
-  const allFailureTimes = useMemo(() => suppliers.flatMap(s => s.failureTimes), [suppliers]);
+  const allFailureTimes = useMemo(
+    () => suppliers.flatMap(s => expandCounts(s.failureTimes, s.dataType.isGrouped ? s.failureCounts : undefined)),
+    [suppliers]
+  );
+  const allSuspensionTimes = useMemo(
+    () => suppliers.flatMap(s => expandCounts(s.suspensionTimes || [], s.dataType.isGrouped ? s.suspensionCounts : undefined)),
+    [suppliers]
+  );
 
   // Assume all suppliers in the plot share the same distribution type as the first one.
   const plotDistributionType = suppliers.length > 0 ? suppliers[0].distribution : 'Weibull';
@@ -142,6 +164,8 @@ export default function ReliabilityDashboard() {
             <TabsTrigger value="performance" className="gap-2 px-4 py-2 text-base"><LayoutDashboard />{t('tabs.performanceDashboard')}</TabsTrigger>
             <TabsTrigger value="analysis" className="gap-2 px-4 py-2 text-base"><LineChartIcon />{t('tabs.reliabilityAnalysis')}</TabsTrigger>
             <TabsTrigger value="monte_carlo" className="gap-2 px-4 py-2 text-base"><TestTube />{t('tabs.monteCarlo')}</TabsTrigger>
+            <TabsTrigger value="alt" className="gap-2 px-4 py-2 text-base"><Flame />{t('tabs.acceleratedLifeTesting')}</TabsTrigger>
+            <TabsTrigger value="rbd" className="gap-2 px-4 py-2 text-base"><Network />{t('tabs.rbd')}</TabsTrigger>
           </TabsList>
         </div>
         <TabsContent value="performance" className="space-y-4">
@@ -181,7 +205,8 @@ export default function ReliabilityDashboard() {
                   </Card>
                )}
               <WeibullParameterAnalysis suppliers={weibullSuppliers} />
-              <BathtubCurveAnalysis failureTimes={allFailureTimes} />
+              <BathtubCurveAnalysis failureTimes={allFailureTimes} suspensionTimes={allSuspensionTimes} />
+              <DegradationAnalysis suppliers={suppliers} setSuppliers={handleSetSuppliers} estimationMethod={estimationMethod} />
               <AiRiskPredictor suppliers={suppliers} />
               <AiComprehensiveAnalysis suppliers={suppliers} chartData={chartData} />
             </div>
@@ -190,6 +215,12 @@ export default function ReliabilityDashboard() {
         <TabsContent value="monte_carlo" className="space-y-4">
           <MonteCarloSimulator suppliers={suppliers} />
         </TabsContent>
+        <TabsContent value="alt" className="space-y-4">
+          <AcceleratedLifeTesting />
+        </TabsContent>
+        <TabsContent value="rbd" className="space-y-4">
+          <ReliabilityBlockDiagram suppliers={suppliers} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { useI18n } from '@/i18n/i18n-provider';
+import { cumulativeFailureTimes, fitCrowAmsaa } from '@/lib/repairable-systems';
+
+interface RepairableSystemAnalysisProps {
+  timesBetweenFailures: number[]; // in event log order
+  units?: string;
+}
+
+// One year of continuous operation
+const DEFAULT_PROJECTION_HOURS = 8760;
+
+// Band around beta = 1 read as a constant failure rate
+const STABLE_BETA_BAND = 0.1;
+
+const formatTick = (tick: number) => tick >= 1000 ? `${(tick / 1000).toPrecision(2)}k` : tick.toPrecision(2);
+
+const Metric = ({ label, value }: { label: string, value: string }) => (
+  <div className="rounded-md border p-3">
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className="text-lg font-bold font-mono">{value}</div>
+  </div>
+);
+
+export default function RepairableSystemAnalysis({ timesBetweenFailures, units = 'h' }: RepairableSystemAnalysisProps) {
+  const { t } = useI18n();
+  const [horizon, setHorizon] = useState(DEFAULT_PROJECTION_HOURS);
+
+  const fit = useMemo(
+    () => fitCrowAmsaa(cumulativeFailureTimes(timesBetweenFailures), horizon),
+    [JSON.stringify(timesBetweenFailures), horizon]
+  );
+
+  if (!fit) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('assetDetail.repairable.title')}</CardTitle>
+          <CardDescription>{t('assetDetail.repairable.description')}</CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-center h-48">
+          <p className="text-muted-foreground">{t('assetDetail.repairable.noData')}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const trend = fit.beta > 1 + STABLE_BETA_BAND ? 'deteriorating' : fit.beta < 1 - STABLE_BETA_BAND ? 'improving' : 'stable';
+  const TrendIcon = trend === 'deteriorating' ? TrendingUp : trend === 'improving' ? TrendingDown : Minus;
+  const trendColor = trend === 'deteriorating' ? 'text-red-400' : trend === 'improving' ? 'text-green-400' : 'text-yellow-400';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('assetDetail.repairable.title')}</CardTitle>
+        <CardDescription>{t('assetDetail.repairable.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          <Metric label="β" value={fit.beta.toFixed(3)} />
+          <Metric label="λ" value={fit.lambda.toExponential(3)} />
+          <Metric label={t('assetDetail.repairable.instantaneousMtbf')} value={`${fit.instantaneousMtbf.toFixed(0)} ${units}`} />
+          <Metric label={t('assetDetail.repairable.cumulativeMtbf')} value={`${fit.cumulativeMtbf.toFixed(0)} ${units}`} />
+        </div>
+
+        <div className={`flex items-start gap-2 text-sm ${trendColor}`}>
+          <TrendIcon className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{t(`assetDetail.repairable.trend.${trend}`)}</span>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="crow-amsaa-horizon" className="text-xs">{t('assetDetail.repairable.horizon', { units })}</Label>
+            <Input
+              id="crow-amsaa-horizon"
+              type="number"
+              min={0}
+              className="h-8 w-32"
+              value={horizon}
+              onChange={(e) => setHorizon(Math.max(0, Number(e.target.value) || 0))}
+            />
+          </div>
+          <p className="text-sm">
+            {t('assetDetail.repairable.projectedFailures', { count: fit.projectedFailures.toFixed(1), horizon: fit.projectionHorizon, units })}
+          </p>
+        </div>
+
+        <div className="h-80 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart margin={{ top: 5, right: 20, left: 10, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="log"
+                domain={['auto', 'auto']}
+                allowDataOverflow
+                stroke="hsl(var(--muted-foreground))"
+                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                tickFormatter={formatTick}
+                label={{ value: t('assetDetail.repairable.cumulativeTime', { units }), position: 'insideBottom', offset: -10, fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+              />
+              <YAxis
+                type="number"
+                scale="log"
+                domain={['auto', 'auto']}
+                allowDataOverflow
+                stroke="hsl(var(--muted-foreground))"
+                tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+                tickFormatter={formatTick}
+                label={{ value: t('assetDetail.repairable.cumulativeFailures'), angle: -90, position: 'insideLeft', fill: 'hsl(var(--muted-foreground))', fontSize: 12 }}
+              />
+              <Tooltip
+                formatter={(value: number) => value.toFixed(2)}
+                labelFormatter={(label: number) => `${t('assetDetail.repairable.cumulativeTime', { units })}: ${Math.round(label)}`}
+                wrapperClassName="!border-border !bg-background !shadow-lg"
+              />
+              <Legend verticalAlign="top" wrapperStyle={{ fontSize: '0.8rem' }} />
+              <Line
+                data={fit.line}
+                dataKey="failures"
+                name={t('assetDetail.repairable.fitted')}
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+              <Line
+                data={fit.points}
+                dataKey="failures"
+                name={t('assetDetail.repairable.observed')}
+                stroke="hsl(var(--chart-2))"
+                strokeWidth={0}
+                dot={{ r: 3, fill: 'hsl(var(--chart-2))' }}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -22,11 +22,11 @@ import {
 } from "@/components/ui/select"
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import type { Supplier, Distribution, EstimationMethod, DistributionAnalysisResult } from '@/lib/types';
+import type { Supplier, Distribution, EstimationMethod, DistributionAnalysisResult, IntervalData, RankingRule } from '@/lib/types';
 import { X, Wand2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { estimateParameters, findBestDistribution } from '@/lib/reliability';
+import { estimateParameters, findBestDistribution, rankDistributionResults, MIXED_WEIBULL_SUBPOPULATIONS } from '@/lib/reliability';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import React, { useState } from 'react';
@@ -45,7 +45,7 @@ const formSchema = z.object({
     },
     { message: 'A entrada de dados não pode estar vazia.' }
   ),
-  distribution: z.enum(['Weibull', 'Normal', 'Lognormal', 'Exponential']),
+  distribution: z.enum(['Weibull', 'Normal', 'Lognormal', 'Exponential', 'Loglogistic', 'Gumbel', 'Gamma', 'GeneralizedGamma', 'MixedWeibull']),
   units: z.string().min(1, { message: 'A unidade é obrigatória.' }),
   hasSuspensions: z.boolean(),
   hasIntervals: z.boolean(),
@@ -60,7 +60,7 @@ const chartColors = [
   'hsl(var(--chart-5))',
 ];
 
-const distributionOptions: Distribution[] = ['Weibull', 'Normal', 'Lognormal', 'Exponential'];
+const distributionOptions: Distribution[] = ['Weibull', 'Normal', 'Lognormal', 'Exponential', 'Loglogistic', 'Gumbel', 'Gamma', 'GeneralizedGamma', 'MixedWeibull'];
 
 interface SupplierManagerProps {
   suppliers: Supplier[];
@@ -69,12 +69,16 @@ interface SupplierManagerProps {
   setEstimationMethod: (method: EstimationMethod) => void;
 }
 
-const DataInputInstructions = ({ isGrouped, hasSuspensions, t }: { isGrouped: boolean, hasSuspensions: boolean, t: (key: string) => string }) => {
+const DataInputInstructions = ({ isGrouped, hasSuspensions, hasIntervals, t }: { isGrouped: boolean, hasSuspensions: boolean, hasIntervals: boolean, t: (key: string) => string }) => {
     let title = t('dataInstructions.simple.title');
     let placeholder = t('dataInstructions.simple.placeholder');
     let description = t('dataInstructions.simple.description');
 
-    if (isGrouped && hasSuspensions) {
+    if (hasIntervals) {
+        title = t('dataInstructions.intervals.title');
+        placeholder = t('dataInstructions.intervals.placeholder');
+        description = t('dataInstructions.intervals.description');
+    } else if (isGrouped && hasSuspensions) {
         title = t('dataInstructions.groupedSuspensions.title');
         placeholder = t('dataInstructions.groupedSuspensions.placeholder');
         description = t('dataInstructions.groupedSuspensions.description');
@@ -92,18 +96,39 @@ const DataInputInstructions = ({ isGrouped, hasSuspensions, t }: { isGrouped: bo
 };
 
 
-const DistributionWizardDialog = ({ supplier, onApply, t }: { supplier: Supplier, onApply: (dist: Distribution) => void, t: (key: string, args?: any) => string }) => {
+const distributionLabel = (distribution: Distribution, params?: { gamma?: number }) => 
+    distribution === 'Weibull' && params?.gamma != null ? 'Weibull 3P'
+        : distribution === 'GeneralizedGamma' ? 'Generalized Gamma'
+        : distribution === 'MixedWeibull' ? 'Mixed Weibull' : distribution;
+
+const rankingRules: RankingRule[] = ['aicc', 'bic', 'logLikelihood', 'andersonDarling', 'ksPValue'];
+
+const DistributionWizardDialog = ({ supplier, onApply, t }: { supplier: Supplier, onApply: (dist: Distribution, threeParameter: boolean) => void, t: (key: string, args?: any) => string }) => {
     const [analysisResults, setAnalysisResults] = useState<DistributionAnalysisResult[]>([]);
-    const [bestDist, setBestDist] = useState<Distribution | null>(null);
+    const [bestDist, setBestDist] = useState<string | null>(null);
     const [bestDistExplanation, setBestDistExplanation] = useState('');
+    const [rankingRule, setRankingRule] = useState<RankingRule>('aicc');
+    const [analyzed, setAnalyzed] = useState(false);
     
-    const handleAnalyze = () => {
-        const { results, best } = findBestDistribution(supplier.failureTimes, supplier.suspensionTimes);
+    const showRanking = (results: DistributionAnalysisResult[], rule: RankingRule) => {
         setAnalysisResults(results);
-        setBestDist(best);
 
-        const bestResult = results.find(r => r.distribution === best);
-        if (best === "Lognormal" && bestResult?.params.lkv) {
+        // Results are ranked, so the first entry is the recommended fit
+        const bestResult = results[0];
+        const best = bestResult?.distribution;
+        setBestDist(bestResult ? distributionLabel(bestResult.distribution, bestResult.params) : null);
+
+        if (bestResult && rule !== 'logLikelihood') {
+            setBestDistExplanation(t('distributionWizard.explanationRanked', {
+                bestDist: distributionLabel(bestResult.distribution, bestResult.params),
+                rule: t(`distributionWizard.rules.${rule}.label`),
+                aicc: bestResult.aicc.toFixed(2),
+                ad: bestResult.andersonDarling.toFixed(3),
+                ksP: bestResult.ksPValue.toFixed(3),
+            }));
+        } else if (best === "Weibull" && bestResult?.params.gamma != null) {
+            setBestDistExplanation(t('distributionWizard.explanationWeibull3P', { lkv: bestResult.logLikelihood.toFixed(2), gamma: bestResult.params.gamma.toFixed(2) }));
+        } else if (best === "Lognormal" && bestResult?.params.lkv) {
           setBestDistExplanation(t('distributionWizard.explanationLognormal', { lkv: bestResult.logLikelihood.toFixed(2) }));
         } else if (best === "Weibull" && bestResult?.params.lkv) {
             setBestDistExplanation(t('distributionWizard.explanationWeibull', { lkv: bestResult.logLikelihood.toFixed(2) }));
@@ -112,15 +137,34 @@ const DistributionWizardDialog = ({ supplier, onApply, t }: { supplier: Supplier
         }
     };
 
+    const handleAnalyze = (rule: RankingRule = rankingRule) => {
+        const counts = supplier.dataType.isGrouped
+            ? { failureCounts: supplier.failureCounts, suspensionCounts: supplier.suspensionCounts }
+            : {};
+        const { results } = findBestDistribution(supplier.failureTimes, supplier.suspensionTimes, supplier.intervals, counts, rule);
+        showRanking(results, rule);
+        setAnalyzed(true);
+    };
+
+    // AICc leaves out models it cannot rank, so switching to or from it fits again
+    const handleRuleChange = (rule: RankingRule) => {
+        setRankingRule(rule);
+        if (rule === 'aicc' || rankingRule === 'aicc') {
+            if (analyzed) handleAnalyze(rule);
+        } else if (analysisResults.length > 0) {
+            showRanking(rankDistributionResults(analysisResults, rule), rule);
+        }
+    };
+
     return (
-        <Dialog onOpenChange={(open) => { if(!open) { setAnalysisResults([]); setBestDist(null); setBestDistExplanation('') }}}>
+        <Dialog onOpenChange={(open) => { if(!open) { setAnalysisResults([]); setBestDist(null); setBestDistExplanation(''); setAnalyzed(false) }}}>
             <DialogTrigger asChild>
                 <Button variant="outline" size="sm" className="w-full mt-2">
                     <Wand2 className="mr-2 h-4 w-4" />
                     {t('distributionWizard.button')}
                 </Button>
             </DialogTrigger>
-            <DialogContent className="max-w-2xl">
+            <DialogContent className="max-w-4xl">
                 <DialogHeader>
                     <DialogTitle>{t('distributionWizard.title', { supplierName: supplier.name })}</DialogTitle>
                      <DialogDescription>
@@ -128,8 +172,25 @@ const DistributionWizardDialog = ({ supplier, onApply, t }: { supplier: Supplier
                     </DialogDescription>
                 </DialogHeader>
                 <div className="space-y-4">
-                    <Button onClick={handleAnalyze}>{t('distributionWizard.analyzeButton')}</Button>
+                    <div className="flex flex-wrap items-end gap-4">
+                        <Button onClick={() => handleAnalyze()}>{t('distributionWizard.analyzeButton')}</Button>
+                        <div className="space-y-1">
+                            <Label className="text-xs">{t('distributionWizard.rankingRule')}</Label>
+                            <Select value={rankingRule} onValueChange={(value) => handleRuleChange(value as RankingRule)}>
+                                <SelectTrigger className="w-[240px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {rankingRules.map(rule => <SelectItem key={rule} value={rule}>{t(`distributionWizard.rules.${rule}.label`)}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
                     
+                    {analyzed && analysisResults.length === 0 && (
+                        <p className="text-sm text-muted-foreground">{t('distributionWizard.insufficientData')}</p>
+                    )}
+
                     {analysisResults.length > 0 && (
                         <>
                             <Card>
@@ -138,9 +199,12 @@ const DistributionWizardDialog = ({ supplier, onApply, t }: { supplier: Supplier
                                 </CardHeader>
                                 <CardContent className="text-sm text-foreground/80 space-y-2">
                                     <p>{t('distributionWizard.howIntro')}</p>
-                                    <p className="font-semibold text-foreground">{t('distributionWizard.howCriterion')}</p>
-                                    <p>{t('distributionWizard.howLkv')}</p>
-                                    <p className="text-xs pt-1">{t('distributionWizard.howR2')}</p>
+                                    <p className="font-semibold text-foreground">{t(`distributionWizard.rules.${rankingRule}.label`)}</p>
+                                    <p>{t(`distributionWizard.rules.${rankingRule}.description`)}</p>
+                                    <p className="text-xs pt-1">{t('distributionWizard.howGof')}</p>
+                                    <p className="text-xs">{t('distributionWizard.howR2')}</p>
+                                    <p className="text-xs">{t('distributionWizard.howThreeParameter')}</p>
+                                    <p className="text-xs">{t('distributionWizard.howGeneralizedGamma')}</p>
                                 </CardContent>
                             </Card>
 
@@ -151,26 +215,38 @@ const DistributionWizardDialog = ({ supplier, onApply, t }: { supplier: Supplier
                                             <TableRow>
                                                 <TableHead>{t('distributionWizard.table.distribution')}</TableHead>
                                                 <TableHead className="text-right">{t('distributionWizard.table.lkv')}</TableHead>
+                                                <TableHead className="text-right">AICc</TableHead>
+                                                <TableHead className="text-right">BIC</TableHead>
+                                                <TableHead className="text-right">{t('distributionWizard.table.ad')}</TableHead>
+                                                <TableHead className="text-right">{t('distributionWizard.table.ksPValue')}</TableHead>
                                                 <TableHead className="text-right">{t('distributionWizard.table.r2')}</TableHead>
                                                 <TableHead className="text-right">{t('distributionWizard.table.action')}</TableHead>
                                             </TableRow>
                                         </TableHeader>
                                         <TableBody>
-                                            {analysisResults.map(result => (
-                                                <TableRow key={result.distribution} className={cn(result.distribution === bestDist && 'bg-primary/10')}>
+                                            {analysisResults.map(result => {
+                                                const label = distributionLabel(result.distribution, result.params);
+                                                return (
+                                                <TableRow key={label} className={cn(label === bestDist && 'bg-primary/10')}>
                                                     <TableCell className="font-medium">
-                                                        {result.distribution}
-                                                        {result.distribution === bestDist && <Badge variant="secondary" className="ml-2">{t('distributionWizard.table.best')}</Badge>}
+                                                        {label}
+                                                        {label === bestDist && <Badge variant="secondary" className="ml-2">{t('distributionWizard.table.best')}</Badge>}
+                                                        {result.params.gamma != null && <span className="block text-xs text-muted-foreground">{t('parameters.gamma')}: {result.params.gamma.toFixed(2)}</span>}
                                                     </TableCell>
                                                     <TableCell className="text-right font-mono">{result.logLikelihood.toFixed(2)}</TableCell>
+                                                    <TableCell className="text-right font-mono">{isFinite(result.aicc) ? result.aicc.toFixed(2) : '-'}</TableCell>
+                                                    <TableCell className="text-right font-mono">{result.bic.toFixed(2)}</TableCell>
+                                                    <TableCell className="text-right font-mono">{result.andersonDarling.toFixed(3)}</TableCell>
+                                                    <TableCell className="text-right font-mono">{result.ksPValue.toFixed(3)}</TableCell>
                                                     <TableCell className="text-right font-mono">{result.rSquared.toFixed(4)}</TableCell>
                                                     <TableCell className="text-right">
-                                                        <Button variant="ghost" size="sm" onClick={() => onApply(result.distribution)}>
-                                                            {result.distribution === bestDist ? t('distributionWizard.table.applyBest') : t('distributionWizard.table.apply')}
+                                                        <Button variant="ghost" size="sm" onClick={() => onApply(result.distribution, result.params.gamma != null)}>
+                                                            {label === bestDist ? t('distributionWizard.table.applyBest') : t('distributionWizard.table.apply')}
                                                         </Button>
                                                     </TableCell>
                                                 </TableRow>
-                                            ))}
+                                                );
+                                            })}
                                         </TableBody>
                                     </Table>
                                 </CardContent>
@@ -214,7 +290,8 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
 
   const isGrouped = useWatch({ control: form.control, name: 'isGrouped' });
   const hasSuspensions = useWatch({ control: form.control, name: 'hasSuspensions' });
-  const { title: inputTitle, placeholder: inputPlaceholder, description: inputDescription } = DataInputInstructions({ isGrouped, hasSuspensions, t });
+  const hasIntervals = useWatch({ control: form.control, name: 'hasIntervals' });
+  const { title: inputTitle, placeholder: inputPlaceholder, description: inputDescription } = DataInputInstructions({ isGrouped, hasSuspensions, hasIntervals, t });
 
   function onSubmit(values: z.infer<typeof formSchema>) {
     if (suppliers.length >= 5) {
@@ -228,13 +305,46 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
     
     let failureTimes: number[] = [];
     let suspensionTimes: number[] = [];
+    const intervals: IntervalData[] = [];
+    // Grouped rows keep one entry per time, with the number of units kept alongside
+    const failureCounts: number[] = [];
+    const suspensionCounts: number[] = [];
 
     const rawInput = values.failureTimes.trim();
 
     try {
         const lines = rawInput.split('\n').filter(line => line.trim() !== '');
 
-        if (values.isGrouped && values.hasSuspensions) {
+        if (values.hasIntervals) {
+            lines.forEach(line => {
+                const parts = line.trim().split(/\s+/);
+                if (parts.length === 2) {
+                    const value = parts[0].replace(/\./g, '');
+                    const status = parts[1].toUpperCase();
+
+                    if (status === 'I') {
+                        // Failure found between two inspections; a start of 0 means left-censored
+                        const [lower, upper] = value.split('-').map(v => parseFloat(v));
+                        if (!isNaN(lower) && !isNaN(upper) && lower >= 0 && upper > lower) {
+                            intervals.push({ lower, upper });
+                        } else {
+                            throw new Error(t('toasts.invalidData.intervals', { line }));
+                        }
+                    } else {
+                        const time = parseFloat(value);
+                        if (!isNaN(time) && status === 'F') {
+                            failureTimes.push(time);
+                        } else if (!isNaN(time) && status === 'S') {
+                            suspensionTimes.push(time);
+                        } else {
+                            throw new Error(t('toasts.invalidData.intervals', { line }));
+                        }
+                    }
+                } else {
+                    throw new Error(t('toasts.invalidData.intervals', { line }));
+                }
+            });
+        } else if (values.isGrouped && values.hasSuspensions) {
             lines.forEach(line => {
                 const parts = line.trim().split(/[\s,]+/);
                 if (parts.length === 3) {
@@ -242,8 +352,14 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
                     const numFailures = parseInt(parts[1], 10);
                     const numSuspensions = parseInt(parts[2], 10);
                     if (!isNaN(time) && !isNaN(numFailures) && !isNaN(numSuspensions)) {
-                        for (let i = 0; i < numFailures; i++) failureTimes.push(time);
-                        for (let i = 0; i < numSuspensions; i++) suspensionTimes.push(time);
+                        if (numFailures > 0) {
+                            failureTimes.push(time);
+                            failureCounts.push(numFailures);
+                        }
+                        if (numSuspensions > 0) {
+                            suspensionTimes.push(time);
+                            suspensionCounts.push(numSuspensions);
+                        }
                     } else {
                         throw new Error(t('toasts.invalidData.groupedSuspensions', { line }));
                     }
@@ -281,8 +397,9 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
                     const time = parseFloat(parts[0].replace(/\./g, ''));
                     const quantity = parseInt(parts[1], 10);
                     if (!isNaN(time) && !isNaN(quantity)) {
-                        for (let i = 0; i < quantity; i++) {
+                        if (quantity > 0) {
                             failureTimes.push(time);
+                            failureCounts.push(quantity);
                         }
                     } else {
                          throw new Error(t('toasts.invalidData.grouped', { line }));
@@ -295,7 +412,7 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
              failureTimes = rawInput.replace(/\./g, '').split(/[\s,]+/).map(v => parseFloat(v.trim())).filter(v => !isNaN(v) && v > 0);
         }
 
-        if (failureTimes.length === 0 && suspensionTimes.length === 0) {
+        if (failureTimes.length === 0 && suspensionTimes.length === 0 && intervals.length === 0) {
             throw new Error(t('toasts.invalidData.noData'));
         }
 
@@ -308,11 +425,17 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
         return;
     }
 
+    const isGroupedInput = values.isGrouped && !values.hasIntervals;
+    const counts = isGroupedInput ? { failureCounts, suspensionCounts } : {};
+
     const { params, plotData } = estimateParameters({
       dist: values.distribution,
       failureTimes,
       suspensionTimes,
+      intervals,
+      ...counts,
       method: estimationMethod,
+      isGrouped: isGroupedInput,
     });
 
     const newSupplier: Supplier = {
@@ -320,6 +443,8 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
       name: values.name,
       failureTimes: failureTimes,
       suspensionTimes: suspensionTimes,
+      intervals: intervals,
+      ...counts,
       color: chartColors[suppliers.length % chartColors.length],
       distribution: values.distribution as Distribution,
       params,
@@ -350,7 +475,7 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
     });
   }
   
-  function handleDistributionChange(id: string, newDistribution: Distribution) {
+  function handleDistributionChange(id: string, newDistribution: Distribution, threeParameter: boolean = false, subpopulations?: number) {
     setSuppliers(prev => 
       prev.map(s => {
         if (s.id === id) {
@@ -358,7 +483,13 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
             dist: newDistribution,
             failureTimes: s.failureTimes,
             suspensionTimes: s.suspensionTimes,
+            intervals: s.intervals,
+            failureCounts: s.failureCounts,
+            suspensionCounts: s.suspensionCounts,
             method: estimationMethod,
+            isGrouped: s.dataType.isGrouped,
+            threeParameter,
+            subpopulations,
           });
           return { ...s, distribution: newDistribution, params, plotData };
         }
@@ -397,6 +528,12 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
                 <Label htmlFor={`rho-${supplier.id}`} className="text-xs text-muted-foreground">{t('parameters.rho')}</Label>
                 <Input id={`rho-${supplier.id}`} type="number" step="0.01" className="h-8 text-sm" value={supplier.params.rho?.toFixed(2) ?? ''} onChange={(e) => handleParamChange(supplier.id, 'rho', e.target.value)} disabled />
             </div>
+            {supplier.params.gamma != null && (
+              <div>
+                <Label htmlFor={`gamma-${supplier.id}`} className="text-xs text-muted-foreground">{t('parameters.gamma')}</Label>
+                <Input id={`gamma-${supplier.id}`} type="number" step="0.01" className="h-8 text-sm" value={supplier.params.gamma.toFixed(2)} onChange={(e) => handleParamChange(supplier.id, 'gamma', e.target.value)} />
+              </div>
+            )}
           </>
         );
       case 'Normal':
@@ -420,6 +557,97 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
             <Input id={`lambda-${supplier.id}`} type="number" step="0.001" className="h-8 text-sm" value={supplier.params.lambda?.toPrecision(4) ?? ''} onChange={(e) => handleParamChange(supplier.id, 'lambda', e.target.value)} />
           </div>
         );
+      case 'Loglogistic':
+        return (
+          <>
+            <div>
+              <Label htmlFor={`beta-${supplier.id}`} className="text-xs text-muted-foreground">{t('parameters.beta')}</Label>
+              <Input id={`beta-${supplier.id}`} type="number" step="0.01" className="h-8 text-sm" value={supplier.params.beta?.toFixed(2) ?? ''} onChange={(e) => handleParamChange(supplier.id, 'beta', e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor={`alpha-${supplier.id}`} className="text-xs text-muted-foreground">{t('parameters.alpha')}</Label>
+              <Input id={`alpha-${supplier.id}`} type="number" step="0.01" className="h-8 text-sm" value={supplier.params.alpha?.toFixed(2) ?? ''} onChange={(e) => handleParamChange(supplier.id, 'alpha', e.target.value)} />
+            </div>
+          </>
+        );
+      case 'Gumbel':
+        return (
+          <>
+            <div>
+              <Label htmlFor={`mu-${supplier.id}`} className="text-xs text-muted-foreground">{t('parameters.mu')}</Label>
+              <Input id={`mu-${supplier.id}`} type="number" step="0.01" className="h-8 text-sm" value={supplier.params.mu?.toFixed(2) ?? ''} onChange={(e) => handleParamChange(supplier.id, 'mu', e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor={`sigma-${supplier.id}`} className="text-xs text-muted-foreground">{t('parameters.sigma')}</Label>
+              <Input id={`sigma-${supplier.id}`} type="number" step="0.01" className="h-8 text-sm" value={supplier.params.sigma?.toFixed(2) ?? ''} onChange={(e) => handleParamChange(supplier.id, 'sigma', e.target.value)} />
+            </div>
+          </>
+        );
+      case 'Gamma':
+        return (
+          <>
+            <div>
+              <Label htmlFor={`k-${supplier.id}`} className="text-xs text-muted-foreground">{t('parameters.k')}</Label>
+              <Input id={`k-${supplier.id}`} type="number" step="0.01" className="h-8 text-sm" value={supplier.params.k?.toFixed(2) ?? ''} onChange={(e) => handleParamChange(supplier.id, 'k', e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor={`theta-${supplier.id}`} className="text-xs text-muted-foreground">{t('parameters.theta')}</Label>
+              <Input id={`theta-${supplier.id}`} type="number" step="0.01" className="h-8 text-sm" value={supplier.params.theta?.toFixed(2) ?? ''} onChange={(e) => handleParamChange(supplier.id, 'theta', e.target.value)} />
+            </div>
+          </>
+        );
+      case 'GeneralizedGamma':
+        return (
+          <>
+            <div>
+              <Label htmlFor={`mu-${supplier.id}`} className="text-xs text-muted-foreground">{t('parameters.logMean')}</Label>
+              <Input id={`mu-${supplier.id}`} type="number" step="0.01" className="h-8 text-sm" value={supplier.params.mu?.toFixed(3) ?? ''} onChange={(e) => handleParamChange(supplier.id, 'mu', e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor={`sigma-${supplier.id}`} className="text-xs text-muted-foreground">{t('parameters.sigma')}</Label>
+              <Input id={`sigma-${supplier.id}`} type="number" step="0.01" className="h-8 text-sm" value={supplier.params.sigma?.toFixed(3) ?? ''} onChange={(e) => handleParamChange(supplier.id, 'sigma', e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor={`q-${supplier.id}`} className="text-xs text-muted-foreground">{t('parameters.q')}</Label>
+              <Input id={`q-${supplier.id}`} type="number" step="0.01" className="h-8 text-sm" value={supplier.params.q?.toFixed(3) ?? ''} onChange={(e) => handleParamChange(supplier.id, 'q', e.target.value)} />
+            </div>
+          </>
+        );
+      case 'MixedWeibull':
+        return (
+          <>
+            <div className="col-span-3">
+              <Label className="text-xs text-muted-foreground">{t('parameters.subpopulations')}</Label>
+              <Select value={String(supplier.params.subpopulations?.length ?? 2)} onValueChange={(val) => handleDistributionChange(supplier.id, 'MixedWeibull', false, Number(val))}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MIXED_WEIBULL_SUBPOPULATIONS.map(n => <SelectItem key={n} value={String(n)}>{n}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            {!supplier.params.subpopulations && (
+              <p className="col-span-3 text-xs text-muted-foreground">{t('parameters.mixedWeibullFailed')}</p>
+            )}
+            {supplier.params.subpopulations?.map((sub, i) => (
+              <React.Fragment key={i}>
+                <div>
+                  <Label className="text-xs text-muted-foreground">{`${t('parameters.beta')} ${i + 1}`}</Label>
+                  <Input type="number" className="h-8 text-sm" value={sub.beta.toFixed(2)} disabled />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">{`${t('parameters.eta')} ${i + 1}`}</Label>
+                  <Input type="number" className="h-8 text-sm" value={sub.eta.toFixed(2)} disabled />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">{`${t('parameters.proportion')} ${i + 1}`}</Label>
+                  <Input type="number" className="h-8 text-sm" value={sub.proportion.toFixed(3)} disabled />
+                </div>
+              </React.Fragment>
+            ))}
+          </>
+        );
       default:
         return null;
     }
@@ -574,7 +802,6 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
                                                     form.setValue('isGrouped', false);
                                                 }
                                             }}
-                                            disabled // Disabling until logic is implemented
                                         />
                                     </FormControl>
                                     <div className="space-y-1 leading-none">
@@ -614,7 +841,7 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {distributionOptions.map(dist => <SelectItem key={dist} value={dist}>{dist}</SelectItem>)}
+                        {distributionOptions.map(dist => <SelectItem key={dist} value={dist}>{distributionLabel(dist)}</SelectItem>)}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -638,7 +865,7 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
                     <div className="w-2 h-8 rounded-full" style={{ backgroundColor: supplier.color }} />
                     <div className="flex flex-col">
                       <span className="font-medium">{supplier.name}</span>
-                      <span className="text-xs text-muted-foreground">{`${supplier.distribution} / ${supplier.units}`}</span>
+                      <span className="text-xs text-muted-foreground">{`${distributionLabel(supplier.distribution, supplier.params)} / ${supplier.units}`}</span>
                     </div>
                 </div>
                 <Button variant="ghost" size="icon" onClick={() => removeSupplier(supplier.id)} aria-label={`${t('supplierManager.removeAriaLabel')} ${supplier.name}`}>
@@ -651,14 +878,14 @@ export default function SupplierManager({ suppliers, setSuppliers, estimationMet
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {distributionOptions.map(dist => <SelectItem key={dist} value={dist}>{dist}</SelectItem>)}
+                  {distributionOptions.map(dist => <SelectItem key={dist} value={dist}>{distributionLabel(dist)}</SelectItem>)}
                 </SelectContent>
               </Select>
             </div>
             <div className="mt-4 grid grid-cols-3 gap-2">
                 {renderParams(supplier)}
             </div>
-             <DistributionWizardDialog supplier={supplier} onApply={(dist) => handleDistributionChange(supplier.id, dist)} t={t} />
+             <DistributionWizardDialog supplier={supplier} onApply={(dist, threeParameter) => handleDistributionChange(supplier.id, dist, threeParameter)} t={t} />
           </div>
         ))}
         </div>
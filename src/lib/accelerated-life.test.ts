@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { altAccelerationFactor, altQuantile, altReliability, fitAcceleratedLifeModel } from './accelerated-life';
+import type { AcceleratedLifeFit, AltObservation } from './types';
+
+describe('accelerated life models', () => {
+  const arrhenius: AcceleratedLifeFit = {
+    model: 'arrhenius', distribution: 'Weibull', theta: [-5, 6000], coefficients: {}, shape: 2,
+    logLikelihood: 0, failures: 0, suspensions: 0, stressLevels: [],
+  };
+
+  it('accelerates by exp(B (1/T_use - 1/T_test)) under Arrhenius', () => {
+    const factor = altAccelerationFactor(arrhenius, { stress: 40 }, { stress: 120 });
+    expect(factor).toBeCloseTo(Math.exp(6000 * (1 / 313.15 - 1 / 393.15)), 8);
+  });
+
+  it('inverts the reliability at the B-life', () => {
+    expect(altReliability(arrhenius, altQuantile(arrhenius, 0.1, 60), 60)).toBeCloseTo(0.9, 10);
+    // The inverse normal CDF is a rational approximation good to about 4.5e-4
+    const lognormal: AcceleratedLifeFit = { ...arrhenius, distribution: 'Lognormal', shape: 0.6 };
+    expect(altReliability(lognormal, altQuantile(lognormal, 0.1, 60), 60)).toBeCloseTo(0.9, 3);
+  });
+
+  it('recovers the exponent of an inverse power law from Weibull quantiles', () => {
+    // eta = 1e6 / S^2 with beta = 2, twenty units per stress level placed on their plotting positions
+    const observations: AltObservation[] = [10, 20, 40].flatMap(stress => Array.from({ length: 20 }, (_, i) => ({
+      time: 1e6 / stress ** 2 * Math.sqrt(-Math.log(1 - (i + 0.7) / 20.4)),
+      event: 1 as const,
+      stress,
+    })));
+    const fit = fitAcceleratedLifeModel(observations, 'inversePowerLaw', 'Weibull') as AcceleratedLifeFit;
+    expect(fit.coefficients.n).toBeCloseTo(2, 1);
+    expect(fit.shape).toBeGreaterThan(1.8);
+    expect(fit.shape).toBeLessThan(2.4);
+  });
+
+  it('needs as many stress levels as coefficients', () => {
+    const observations: AltObservation[] = [100, 200, 300].map(time => ({ time, event: 1, stress: 50 }));
+    expect(fitAcceleratedLifeModel(observations, 'arrhenius', 'Weibull')).toHaveProperty('error');
+  });
+});
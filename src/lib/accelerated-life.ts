@@ -0,0 +1,157 @@
+import type { AcceleratedLifeFit, AltDistribution, AltObservation, LifeStressModel } from './types';
+import { invNormalCdf, lognormalSurvival, nelderMead, normalCdf, weibullSurvival } from './reliability';
+
+/* -----------------------
+   Accelerated Life Testing (life-stress relationships)
+   ----------------------- */
+
+const KELVIN_OFFSET = 273.15;
+const BOLTZMANN_EV = 8.617333262e-5; // eV/K
+
+// Every supported relationship is log-linear in transformed stresses:
+// ln L(S) = offset(S) + theta0 + theta1 * x1 (+ theta2 * x2)
+export const LIFE_STRESS_MODELS: Record<LifeStressModel, { usesHumidity: boolean; isThermal: boolean; covariates: (s: number, h?: number) => number[]; offset: (s: number) => number; coefficients: (theta: number[]) => Record<string, number> }> = {
+    // L = C * exp(B / T)
+    arrhenius: {
+        usesHumidity: false,
+        isThermal: true,
+        covariates: s => [1 / (s + KELVIN_OFFSET)],
+        offset: () => 0,
+        coefficients: ([t0, t1]) => ({ B: t1, C: Math.exp(t0), activationEnergy: t1 * BOLTZMANN_EV }),
+    },
+    // L = (1 / T) * exp(-(A - B / T))
+    eyring: {
+        usesHumidity: false,
+        isThermal: true,
+        covariates: s => [1 / (s + KELVIN_OFFSET)],
+        offset: s => -Math.log(s + KELVIN_OFFSET),
+        coefficients: ([t0, t1]) => ({ A: -t0, B: t1 }),
+    },
+    // L = 1 / (K * S^n)
+    inversePowerLaw: {
+        usesHumidity: false,
+        isThermal: false,
+        covariates: s => [Math.log(s)],
+        offset: () => 0,
+        coefficients: ([t0, t1]) => ({ K: Math.exp(-t0), n: -t1 }),
+    },
+    // L = A * exp(phi / T + b / RH)
+    temperatureHumidity: {
+        usesHumidity: true,
+        isThermal: true,
+        covariates: (s, h) => [1 / (s + KELVIN_OFFSET), 1 / h!], // validStress requires the humidity
+        offset: () => 0,
+        coefficients: ([t0, t1, t2]) => ({ A: Math.exp(t0), phi: t1, b: t2 }),
+    },
+};
+
+const validStress = (model: LifeStressModel, stress: number, humidity?: number) => {
+    const spec = LIFE_STRESS_MODELS[model];
+    if (!isFinite(stress) || (spec.isThermal ? stress <= -KELVIN_OFFSET : stress <= 0)) return false;
+    return !spec.usesHumidity || (humidity !== undefined && humidity > 0 && humidity <= 100);
+};
+
+const altLogLife = (model: LifeStressModel, theta: number[], stress: number, humidity?: number) => {
+    const spec = LIFE_STRESS_MODELS[model];
+    return spec.covariates(stress, humidity).reduce((sum, x, j) => sum + theta[j + 1] * x, spec.offset(stress) + theta[0]);
+};
+
+// Log-likelihood contribution of one unit given ln L at its stress and the common shape
+const altLogLikTerm = (distribution: AltDistribution, logLife: number, shape: number, time: number, event: 1 | 0) => {
+    if (distribution === 'Weibull') {
+        const z = shape * (Math.log(time) - logLife);
+        return event === 1 ? Math.log(shape / time) + z - Math.exp(z) : -Math.exp(z);
+    }
+    const z = (Math.log(time) - logLife) / shape;
+    return event === 1
+        ? -0.5 * z * z - Math.log(shape * time * Math.sqrt(2 * Math.PI))
+        : Math.log(Math.max(1 - normalCdf(z), 1e-300));
+};
+
+// Joint MLE of the life-stress coefficients and the common shape over all stress levels,
+// with right-censored units. Covariates are standardised so Nelder-Mead sees a well-scaled problem.
+export function fitAcceleratedLifeModel(observations: AltObservation[], model: LifeStressModel, distribution: AltDistribution): AcceleratedLifeFit | { error: string } {
+    const spec = LIFE_STRESS_MODELS[model];
+    const data = observations.filter(o => o.time > 0 && validStress(model, o.stress, o.humidity));
+    if (data.length < observations.length) {
+        return { error: spec.isThermal ? 'Há tempos ou níveis de estresse inválidos (temperaturas em °C, umidade entre 0 e 100%).' : 'Há tempos ou níveis de estresse inválidos (o estresse deve ser positivo).' };
+    }
+
+    const levelKey = (o: AltObservation) => spec.usesHumidity ? `${o.stress}|${o.humidity}` : `${o.stress}`;
+    const levels = [...new Map(data.map(o => [levelKey(o), { stress: o.stress, ...(spec.usesHumidity ? { humidity: o.humidity } : {}) }])).values()];
+    const coefficientCount = spec.covariates(data[0].stress, data[0].humidity).length + 1;
+    const failures = data.filter(o => o.event === 1);
+    if (levels.length < coefficientCount) {
+        return { error: `O modelo requer pelo menos ${coefficientCount} níveis de estresse distintos.` };
+    }
+    if (failures.length < coefficientCount + 1) {
+        return { error: `São necessárias pelo menos ${coefficientCount + 1} falhas.` };
+    }
+
+    const rows = data.map(o => spec.covariates(o.stress, o.humidity));
+    const offsets = data.map(o => spec.offset(o.stress));
+    const k = rows[0].length;
+    const means = Array.from({ length: k }, (_, j) => rows.reduce((sum, r) => sum + r[j], 0) / rows.length);
+    const sds = means.map((m, j) => Math.sqrt(rows.reduce((sum, r) => sum + (r[j] - m) ** 2, 0) / rows.length) || 1);
+    const scaled = rows.map(r => r.map((x, j) => (x - means[j]) / sds[j]));
+
+    const nll = (x: number[]) => {
+        const shape = Math.exp(x[k + 1]);
+        let ll = 0;
+        for (let i = 0; i < data.length; i++) {
+            const logLife = scaled[i].reduce((sum, v, j) => sum + x[j + 1] * v, offsets[i] + x[0]);
+            ll += altLogLikTerm(distribution, logLife, shape, data[i].time, data[i].event);
+        }
+        return isFinite(ll) ? -ll : 1e300;
+    };
+
+    // Start from a least-squares line through the failures on the standardised covariates
+    const failureIdx = data.map((o, i) => i).filter(i => data[i].event === 1);
+    const meanLog = failureIdx.reduce((sum, i) => sum + Math.log(data[i].time) - offsets[i], 0) / failureIdx.length;
+    const slopes = Array.from({ length: k }, (_, j) => {
+        const sxy = failureIdx.reduce((sum, i) => sum + scaled[i][j] * (Math.log(data[i].time) - offsets[i] - meanLog), 0);
+        const sxx = failureIdx.reduce((sum, i) => sum + scaled[i][j] ** 2, 0);
+        return sxx > 0 ? sxy / sxx : 0;
+    });
+    let res = nelderMead(nll, [meanLog, ...slopes, 0], { maxIter: 5000, tol: 1e-10 });
+    res = nelderMead(nll, res.x, { maxIter: 5000, tol: 1e-12, scale: 0.1 });
+    if (!isFinite(res.fx) || res.fx >= 1e300) return { error: 'A otimização de máxima verossimilhança não convergiu.' };
+
+    // Back to the raw covariates
+    const theta = [res.x[0] - res.x.slice(1, k + 1).reduce((sum, b, j) => sum + b * means[j] / sds[j], 0), ...res.x.slice(1, k + 1).map((b, j) => b / sds[j])];
+
+    return {
+        model,
+        distribution,
+        theta,
+        coefficients: spec.coefficients(theta),
+        shape: Math.exp(res.x[k + 1]),
+        logLikelihood: -res.fx,
+        failures: failures.length,
+        suspensions: data.length - failures.length,
+        stressLevels: levels.sort((a, b) => a.stress - b.stress || (a.humidity ?? 0) - (b.humidity ?? 0)),
+    };
+}
+
+// Weibull eta or Lognormal median at the given stress
+export const altLife = (fit: AcceleratedLifeFit, stress: number, humidity?: number) =>
+    Math.exp(altLogLife(fit.model, fit.theta, stress, humidity));
+
+export function altReliability(fit: AcceleratedLifeFit, t: number, stress: number, humidity?: number): number {
+    const life = altLife(fit, stress, humidity);
+    return fit.distribution === 'Weibull'
+        ? weibullSurvival(t, fit.shape, life)
+        : lognormalSurvival(t, Math.log(life), fit.shape);
+}
+
+// Time by which a fraction `prob` has failed at the given stress (B-life)
+export function altQuantile(fit: AcceleratedLifeFit, prob: number, stress: number, humidity?: number): number {
+    const life = altLife(fit, stress, humidity);
+    return fit.distribution === 'Weibull'
+        ? life * Math.pow(-Math.log(1 - prob), 1 / fit.shape)
+        : life * Math.exp(fit.shape * invNormalCdf(prob));
+}
+
+// How many hours at use conditions one hour at the test conditions is worth
+export const altAccelerationFactor = (fit: AcceleratedLifeFit, use: { stress: number; humidity?: number }, test: { stress: number; humidity?: number }) =>
+    altLife(fit, use.stress, use.humidity) / altLife(fit, test.stress, test.humidity);
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { simulateAvailability } from './availability';
+import type { AvailabilitySimulationResult, AvailabilitySimulationUnit } from './types';
+
+const unit: AvailabilitySimulationUnit = {
+  id: 'pump',
+  name: 'pump',
+  distribution: 'Exponential',
+  params: { lambda: 0.01 },
+  repairDistribution: 'Exponential',
+  repairParams: { lambda: 0.1 },
+  downtimeCostPerHour: 50,
+};
+
+describe('simulateAvailability', () => {
+  it('converges to MTBF / (MTBF + MTTR) for exponential failures and repairs', () => {
+    const result = simulateAvailability([unit], { horizon: 100000, runs: 20, crews: 0, pmInterval: 0, pmDuration: 0 }) as AvailabilitySimulationResult;
+    expect(result.availability.mean).toBeCloseTo(100 / 110, 2);
+    expect(result.units[0].failures).toBeGreaterThan(0.97 * 100000 / 110);
+    expect(result.units[0].failures).toBeLessThan(1.03 * 100000 / 110);
+    expect(result.units[0].downtimeCost).toBeCloseTo(result.units[0].downtime * 50, 6);
+  });
+
+  it('has no downtime when the units outlast the horizon', () => {
+    const durable = { ...unit, params: { lambda: 1e-12 } };
+    const result = simulateAvailability([durable, { ...durable, id: 'fan' }], { horizon: 100, runs: 10, crews: 1, pmInterval: 0, pmDuration: 0 }) as AvailabilitySimulationResult;
+    expect(result.availability.mean).toBe(1);
+    expect(result.meanWaitingTime).toBe(0);
+  });
+
+  it('rejects an empty fleet', () => {
+    expect(simulateAvailability([], { horizon: 100, runs: 10, crews: 0, pmInterval: 0, pmDuration: 0 })).toHaveProperty('error');
+  });
+});
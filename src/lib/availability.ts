@@ -0,0 +1,148 @@
+import type { AvailabilitySimulationUnit, AvailabilitySimulationOptions, AvailabilitySimulationResult, AvailabilityUnitResult, PercentileSummary } from './types';
+import { getReliability, sampleLifetime } from './reliability';
+
+/* -----------------------
+   Availability Simulation
+   ----------------------- */
+
+const AVAILABILITY_BANDS = 50;
+const AVAILABILITY_HISTOGRAM_BINS = 20;
+
+function percentileSummary(values: number[]): PercentileSummary {
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (p: number) => {
+        const idx = (sorted.length - 1) * p;
+        const lo = Math.floor(idx);
+        const hi = Math.ceil(idx);
+        return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+    };
+    return { mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length, p5: at(0.05), p50: at(0.5), p95: at(0.95) };
+}
+
+type SimulatedUnit = {
+    status: 'up' | 'waiting' | 'service';
+    failAt: number;
+    pmAt: number;
+    downSince: number;
+    serviceEnd: number;
+    preventive: boolean;
+};
+
+// Discrete-event run: units are renewed by repair or PM, and interventions queue for a crew in arrival order
+export function simulateAvailability(units: AvailabilitySimulationUnit[], options: AvailabilitySimulationOptions): AvailabilitySimulationResult | { error: string } {
+    const { horizon, runs, pmInterval, pmDuration } = options;
+    if (units.length === 0) return { error: 'Selecione pelo menos um ativo para a simulação.' };
+    if (!(horizon > 0) || !(runs >= 1)) return { error: 'O horizonte e o número de simulações devem ser positivos.' };
+    if (!(pmInterval >= 0) || !(pmDuration >= 0)) return { error: 'O intervalo e a duração da preventiva não podem ser negativos.' };
+    const invalid = units.find(u => isNaN(getReliability(u.distribution, u.params, 0)) || isNaN(getReliability(u.repairDistribution, u.repairParams, 0)));
+    if (invalid) return { error: `O ativo "${invalid.name}" não tem distribuições de falha e reparo válidas.` };
+
+    const crews = options.crews > 0 ? options.crews : units.length;
+    const bandWidth = horizon / AVAILABILITY_BANDS;
+
+    const totals = units.map(() => ({ failures: 0, preventiveActions: 0, downtime: 0 }));
+    const fleetAvailability: number[] = [];
+    const downtimeCosts: number[] = [];
+    const bandSamples: number[][] = Array.from({ length: AVAILABILITY_BANDS }, () => []);
+    let waiting = 0;
+    let interventions = 0;
+
+    for (let run = 0; run < runs; run++) {
+        const state: SimulatedUnit[] = units.map(unit => ({
+            status: 'up',
+            failAt: sampleLifetime(unit.distribution, unit.params),
+            pmAt: pmInterval > 0 ? pmInterval : Infinity,
+            downSince: 0,
+            serviceEnd: 0,
+            preventive: false,
+        }));
+        const downtime = units.map(() => 0);
+        const bandDown = new Array(AVAILABILITY_BANDS).fill(0);
+        let busy = 0;
+
+        const addDowntime = (i: number, from: number, to: number) => {
+            downtime[i] += to - from;
+            for (let b = Math.floor(from / bandWidth); b < AVAILABILITY_BANDS && b * bandWidth < to; b++) {
+                bandDown[b] += Math.max(0, Math.min(to, (b + 1) * bandWidth) - Math.max(from, b * bandWidth));
+            }
+        };
+        const startService = (i: number, now: number) => {
+            const s = state[i];
+            busy++;
+            waiting += now - s.downSince;
+            interventions++;
+            s.status = 'service';
+            s.serviceEnd = now + (s.preventive ? pmDuration : sampleLifetime(units[i].repairDistribution, units[i].repairParams));
+        };
+
+        while (true) {
+            let next = -1;
+            let nextTime = Infinity;
+            state.forEach((s, i) => {
+                const time = s.status === 'up' ? Math.min(s.failAt, s.pmAt) : s.status === 'service' ? s.serviceEnd : Infinity;
+                if (time < nextTime) {
+                    nextTime = time;
+                    next = i;
+                }
+            });
+            if (next < 0 || nextTime >= horizon) break;
+
+            const s = state[next];
+            if (s.status === 'up') {
+                s.preventive = s.pmAt < s.failAt;
+                s.status = 'waiting';
+                s.downSince = nextTime;
+                if (s.preventive) totals[next].preventiveActions++; else totals[next].failures++;
+                if (busy < crews) startService(next, nextTime);
+            } else {
+                addDowntime(next, s.downSince, nextTime);
+                busy--;
+                s.status = 'up';
+                s.failAt = nextTime + sampleLifetime(units[next].distribution, units[next].params);
+                s.pmAt = pmInterval > 0 ? nextTime + pmInterval : Infinity;
+                const queued = state
+                    .map((q, i) => ({ q, i }))
+                    .filter(({ q }) => q.status === 'waiting')
+                    .sort((a, b) => a.q.downSince - b.q.downSince)[0];
+                if (queued) startService(queued.i, nextTime);
+            }
+        }
+        state.forEach((s, i) => {
+            if (s.status !== 'up') addDowntime(i, s.downSince, horizon);
+        });
+
+        downtime.forEach((d, i) => { totals[i].downtime += d; });
+        fleetAvailability.push(1 - downtime.reduce((sum, d) => sum + d, 0) / (units.length * horizon));
+        downtimeCosts.push(downtime.reduce((sum, d, i) => sum + d * units[i].downtimeCostPerHour, 0));
+        bandDown.forEach((down, b) => bandSamples[b].push(1 - down / (units.length * bandWidth)));
+    }
+
+    const unitResults: AvailabilityUnitResult[] = units.map((unit, i) => ({
+        id: unit.id,
+        name: unit.name,
+        availability: 1 - totals[i].downtime / runs / horizon,
+        failures: totals[i].failures / runs,
+        preventiveActions: totals[i].preventiveActions / runs,
+        downtime: totals[i].downtime / runs,
+        downtimeCost: totals[i].downtime / runs * unit.downtimeCostPerHour,
+    }));
+
+    const minAvailability = Math.min(...fleetAvailability);
+    const binWidth = (Math.max(...fleetAvailability) - minAvailability) / AVAILABILITY_HISTOGRAM_BINS || 1e-6;
+    const counts = new Array(AVAILABILITY_HISTOGRAM_BINS).fill(0);
+    fleetAvailability.forEach(a => counts[Math.min(AVAILABILITY_HISTOGRAM_BINS - 1, Math.floor((a - minAvailability) / binWidth))]++);
+
+    return {
+        runs,
+        horizon,
+        availability: percentileSummary(fleetAvailability),
+        downtimeCost: percentileSummary(downtimeCosts),
+        meanWaitingTime: interventions > 0 ? waiting / interventions : 0,
+        units: unitResults,
+        histogram: counts.map((count, b) => ({ availability: minAvailability + (b + 0.5) * binWidth, frequency: count / runs })),
+        bands: bandSamples.map((samples, b) => {
+            const { p5, p50, p95 } = percentileSummary(samples);
+            return { time: (b + 1) * bandWidth, p5, p50, p95 };
+        }),
+    };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDegradation, degradationValue } from './degradation';
+import type { DegradationAnalysis, DegradationMeasurement } from './types';
+
+const path = (unit: string, value: (t: number) => number, times = [100, 200, 300, 400]): DegradationMeasurement[] =>
+  times.map(time => ({ unit, time, value: value(time) }));
+
+describe('analyzeDegradation', () => {
+  it('extrapolates a linear path to (threshold - a) / b', () => {
+    const analysis = analyzeDegradation([...path('a', t => 1 + 0.01 * t), ...path('b', t => 1 + 0.02 * t)], 'linear', 11) as DegradationAnalysis;
+    expect(analysis.increasing).toBe(true);
+    expect(analysis.failureTimes[0]).toBeCloseTo(1000, 8);
+    expect(analysis.failureTimes[1]).toBeCloseTo(500, 8);
+  });
+
+  it('crosses an exponential path at (ln threshold - a) / b', () => {
+    const analysis = analyzeDegradation(path('a', t => 2 * Math.exp(0.004 * t)), 'exponential', 20) as DegradationAnalysis;
+    expect(analysis.units[0].a).toBeCloseTo(Math.log(2), 10);
+    expect(analysis.failureTimes[0]).toBeCloseTo(Math.log(10) / 0.004, 6);
+    expect(degradationValue('exponential', analysis.units[0].a, analysis.units[0].b, analysis.failureTimes[0])).toBeCloseTo(20, 8);
+  });
+
+  it('suspends units moving away from the threshold at their last inspection', () => {
+    const analysis = analyzeDegradation([...path('a', t => 50 - 0.05 * t), ...path('b', t => 50 + 0.01 * t)], 'linear', 10) as DegradationAnalysis;
+    expect(analysis.increasing).toBe(false);
+    expect(analysis.failureTimes).toHaveLength(1);
+    expect(analysis.failureTimes[0]).toBeCloseTo(800, 8);
+    expect(analysis.suspensionTimes).toEqual([400]);
+  });
+
+  it('needs two distinct inspection times per unit', () => {
+    expect(analyzeDegradation(path('a', () => 1, [100, 100]), 'linear', 5)).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,74 @@
+import type { DegradationAnalysis, DegradationMeasurement, DegradationModel, DegradationUnitFit } from './types';
+import { performLinearRegression } from './reliability';
+
+/* -----------------------
+   Degradation Analysis (pseudo-failure times)
+   ----------------------- */
+
+// Axis transforms that turn each degradation path into a straight line. All are increasing,
+// so a path rises towards the threshold exactly when its slope b is positive.
+export const DEGRADATION_MODELS: Record<DegradationModel, { x: (t: number) => number; xInv: (x: number) => number; y: (v: number) => number; yInv: (y: number) => number; positiveValues: boolean }> = {
+    // y = a + b * t
+    linear: { x: t => t, xInv: x => x, y: v => v, yInv: y => y, positiveValues: false },
+    // y = e^a * e^(b * t)
+    exponential: { x: t => t, xInv: x => x, y: v => Math.log(v), yInv: y => Math.exp(y), positiveValues: true },
+    // y = e^a * t^b
+    power: { x: t => Math.log(t), xInv: x => Math.exp(x), y: v => Math.log(v), yInv: y => Math.exp(y), positiveValues: true },
+    // y = a + b * ln(t)
+    logarithmic: { x: t => Math.log(t), xInv: x => Math.exp(x), y: v => v, yInv: y => y, positiveValues: false },
+};
+
+export const degradationValue = (model: DegradationModel, a: number, b: number, t: number) => {
+    const spec = DEGRADATION_MODELS[model];
+    return spec.yInv(a + b * spec.x(t));
+};
+
+// Fits every unit's measurement series and extrapolates it to the critical threshold. Units
+// whose path moves away from the threshold are kept as suspensions at their last inspection.
+export function analyzeDegradation(measurements: DegradationMeasurement[], model: DegradationModel, threshold: number): DegradationAnalysis | { error: string } {
+    const spec = DEGRADATION_MODELS[model];
+    const needsPositiveTime = model === 'power' || model === 'logarithmic';
+    const valid = measurements.filter(m => isFinite(m.time) && isFinite(m.value) && (needsPositiveTime ? m.time > 0 : m.time >= 0) && (!spec.positiveValues || m.value > 0));
+    if (valid.length < measurements.length) {
+        return { error: needsPositiveTime || spec.positiveValues ? 'Este modelo requer tempos e medições positivos.' : 'Há medições inválidas.' };
+    }
+    if (spec.positiveValues && threshold <= 0) return { error: 'O limite crítico deve ser positivo para este modelo.' };
+
+    const byUnit = new Map<string, { time: number; value: number }[]>();
+    valid.forEach(m => byUnit.set(m.unit, [...(byUnit.get(m.unit) ?? []), { time: m.time, value: m.value }]));
+    const series = [...byUnit.entries()].map(([unit, points]) => ({ unit, points: points.sort((p, q) => p.time - q.time) }));
+    if (series.some(s => new Set(s.points.map(p => p.time)).size < 2)) {
+        return { error: 'Cada unidade precisa de pelo menos 2 medições em tempos distintos.' };
+    }
+
+    const initialMean = series.reduce((sum, s) => sum + s.points[0].value, 0) / series.length;
+    const increasing = threshold > initialMean;
+
+    const units: DegradationUnitFit[] = series.map(({ unit, points }) => {
+        const line = points.map(p => ({ x: spec.x(p.time), y: spec.y(p.value) }));
+        const { slope: b, intercept: a, rSquared } = performLinearRegression(line)
+            ?? { slope: 0, intercept: line.reduce((sum, p) => sum + p.y, 0) / line.length, rSquared: 0 };
+        const lastTime = points[points.length - 1].time;
+
+        const reachesThreshold = increasing ? b > 0 : b < 0;
+        const crossing = reachesThreshold ? spec.xInv((spec.y(threshold) - a) / b) : NaN;
+        return {
+            unit,
+            a,
+            b,
+            rSquared,
+            measurements: points,
+            lastTime,
+            pseudoFailureTime: isFinite(crossing) && crossing > 0 ? crossing : null,
+        };
+    });
+
+    return {
+        model,
+        threshold,
+        increasing,
+        units,
+        failureTimes: units.filter(u => u.pseudoFailureTime !== null).map(u => u.pseudoFailureTime as number),
+        suspensionTimes: units.filter(u => u.pseudoFailureTime === null).map(u => u.lastTime),
+    };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeFaultTree } from './fault-tree';
+import type { FaultTreeNode } from './types';
+
+describe('analyzeFaultTree', () => {
+  const x: FaultTreeNode = { id: 'x', type: 'basic', name: 'x', probability: 0.1 };
+  const y: FaultTreeNode = { id: 'y', type: 'basic', name: 'y', probability: 0.2 };
+  const z: FaultTreeNode = { id: 'z', type: 'basic', name: 'z', probability: 0.3 };
+  const top = (...children: FaultTreeNode[]): FaultTreeNode => ({ id: 'top', type: 'or', name: 'top', children });
+  const and = (id: string, ...children: FaultTreeNode[]): FaultTreeNode => ({ id, type: 'and', name: id, children });
+
+  const topProbability = (tree: FaultTreeNode) => {
+    const analysis = analyzeFaultTree(tree, 0);
+    if ('error' in analysis) throw new Error(analysis.error);
+    return analysis.topProbability;
+  };
+
+  it('absorbs a repeated event: OR(AND(x, y), x) = P(x)', () => {
+    expect(topProbability(top(and('g', x, y), x))).toBeCloseTo(0.1, 12);
+  });
+
+  it('factors a shared event: OR(AND(x, y), AND(x, z)) = P(x) (1 - (1 - P(y)) (1 - P(z)))', () => {
+    expect(topProbability(top(and('g', x, y), and('h', x, z)))).toBeCloseTo(0.1 * (1 - 0.8 * 0.7), 12);
+  });
+
+  it('is exact bottom-up without repeated events', () => {
+    expect(topProbability(top(and('g', x, y), z))).toBeCloseTo(1 - (1 - 0.02) * 0.7, 12);
+  });
+});
+
+describe('analyzeFaultTree with lifetime distributions', () => {
+  it('matches a 2-out-of-3 vote gate on exponential events: 3q^2 - 2q^3', () => {
+    const event = (id: string): FaultTreeNode => ({ id, type: 'basic', name: id, distribution: 'Exponential', params: { lambda: 0.001 } });
+    const analysis = analyzeFaultTree({ id: 'top', type: 'vote', name: 'top', k: 2, children: ['a', 'b', 'c'].map(event) }, 500);
+    if ('error' in analysis) throw new Error(analysis.error);
+    const q = 1 - Math.exp(-0.5);
+    expect(analysis.topProbability).toBeCloseTo(3 * q ** 2 - 2 * q ** 3, 12);
+    expect(analysis.cutSets).toHaveLength(3);
+  });
+});
@@ -0,0 +1,161 @@
+import type { FaultTreeNode, FaultTreeCutSet, FaultTreeImportance, FaultTreeAnalysis } from './types';
+import { getReliability } from './reliability';
+
+/* -----------------------
+   Fault Tree Analysis
+   ----------------------- */
+
+// MOCUS grows combinatorially with OR and vote gates
+const FTA_MAX_CUT_SETS = 5000;
+// Inclusion-exclusion over the minimal cut sets takes 2^n terms, so past this the bound is used
+const FTA_MAX_INCLUSION_EXCLUSION = 16;
+
+const faultTreeBasicEvents = (node: FaultTreeNode): FaultTreeNode[] =>
+    node.type === 'basic' ? [node] : (node.children ?? []).flatMap(faultTreeBasicEvents);
+
+function validateFaultTree(node: FaultTreeNode): string | null {
+    if (node.type === 'basic') {
+        if (node.distribution && node.params) {
+            return isNaN(getReliability(node.distribution, node.params, 0)) ? `O evento "${node.name}" não tem uma distribuição ajustada.` : null;
+        }
+        return node.probability !== undefined && node.probability >= 0 && node.probability <= 1 ? null : `O evento "${node.name}" precisa de uma probabilidade entre 0 e 1 ou de uma distribuição.`;
+    }
+    const children = node.children ?? [];
+    if (children.length === 0) return `A porta "${node.name}" precisa de pelo menos uma entrada.`;
+    if (node.type === 'vote' && !(node.k !== undefined && node.k >= 1 && node.k <= children.length)) return `Na porta de votação "${node.name}", k deve estar entre 1 e o número de entradas.`;
+    for (const child of children) {
+        const error = validateFaultTree(child);
+        if (error) return error;
+    }
+    return null;
+}
+
+// Only called once validateFaultTree has checked that each event has a distribution or a probability
+const basicEventProbability = (node: FaultTreeNode, time: number): number =>
+    node.distribution ? 1 - getReliability(node.distribution, node.params!, time) : node.probability!;
+
+// Bottom-up gate probabilities, exact only when every basic event appears once
+function faultTreeProbability(node: FaultTreeNode, probabilities: Record<string, number>): number {
+    if (node.type === 'basic') return probabilities[node.id];
+    const inputs = node.children!.map(child => faultTreeProbability(child, probabilities));
+    switch (node.type) {
+        case 'and':
+            return inputs.reduce((prod, p) => prod * p, 1);
+        case 'or':
+            return 1 - inputs.reduce((prod, p) => prod * (1 - p), 1);
+        case 'vote': {
+            let failed = [1];
+            inputs.forEach(p => {
+                const next = new Array(failed.length + 1).fill(0);
+                failed.forEach((q, j) => {
+                    next[j] += q * (1 - p);
+                    next[j + 1] += q * p;
+                });
+                failed = next;
+            });
+            return failed.slice(node.k!).reduce((sum, q) => sum + q, 0);
+        }
+    }
+    return NaN;
+}
+
+// P(union of cut sets) by inclusion-exclusion: each intersection fails every event in the union of its sets
+function cutSetUnionProbability(cutSets: string[][], probabilities: Record<string, number>): number {
+    let total = 0;
+    const visit = (start: number, events: Set<string>, size: number) => {
+        for (let i = start; i < cutSets.length; i++) {
+            const union = new Set([...events, ...cutSets[i]]);
+            const probability = [...union].reduce((prod, id) => prod * probabilities[id], 1);
+            total += size % 2 === 0 ? probability : -probability;
+            if (probability > 0) visit(i + 1, union, size + 1);
+        }
+    };
+    visit(0, new Set(), 0);
+    return Math.min(1, Math.max(0, total));
+}
+
+const combinations = <T>(items: T[], k: number): T[][] => {
+    if (k === 0) return [[]];
+    if (items.length < k) return [];
+    const [first, ...rest] = items;
+    return [...combinations(rest, k - 1).map(c => [first, ...c]), ...combinations(rest, k)];
+};
+
+// MOCUS: expand gates top-down, AND gates widen a row and OR gates split it, then keep the minimal rows
+function minimalCutSets(top: FaultTreeNode): string[][] | null {
+    let rows: FaultTreeNode[][] = [[top]];
+    let expanded = false;
+    while (!expanded) {
+        expanded = true;
+        const next: FaultTreeNode[][] = [];
+        for (const row of rows) {
+            const gateIndex = row.findIndex(node => node.type !== 'basic');
+            if (gateIndex < 0) {
+                next.push(row);
+                continue;
+            }
+            expanded = false;
+            const gate = row[gateIndex];
+            const inputs = gate.children!;
+            const rest = row.filter((_, i) => i !== gateIndex);
+            const alternatives = gate.type === 'and' ? [inputs]
+                : gate.type === 'or' ? inputs.map(child => [child])
+                : combinations(inputs, gate.k!);
+            alternatives.forEach(alternative => next.push([...rest, ...alternative]));
+        }
+        if (next.length > FTA_MAX_CUT_SETS) return null;
+        rows = next;
+    }
+
+    const sets = rows
+        .map(row => [...new Set(row.map(node => node.id))].sort())
+        .sort((a, b) => a.length - b.length);
+    const minimal: string[][] = [];
+    sets.forEach(set => {
+        if (!minimal.some(m => m.every(id => set.includes(id)))) minimal.push(set);
+    });
+    return minimal;
+}
+
+export function analyzeFaultTree(top: FaultTreeNode, time: number): FaultTreeAnalysis | { error: string } {
+    const error = validateFaultTree(top);
+    if (error) return { error };
+    if (!(time >= 0)) return { error: 'O tempo de análise deve ser maior ou igual a zero.' };
+
+    const cutSetIds = minimalCutSets(top);
+    if (!cutSetIds) return { error: `A árvore gera mais de ${FTA_MAX_CUT_SETS} conjuntos de corte; simplifique as portas de votação ou OU.` };
+
+    const events = faultTreeBasicEvents(top);
+    const probabilities: Record<string, number> = {};
+    events.forEach(event => { probabilities[event.id] = basicEventProbability(event, time); });
+
+    const cutSets: FaultTreeCutSet[] = cutSetIds.map(ids => ({
+        events: ids,
+        probability: ids.reduce((prod, id) => prod * probabilities[id], 1),
+    })).sort((a, b) => b.probability - a.probability);
+
+    const unionBound = (sets: FaultTreeCutSet[]) => 1 - sets.reduce((prod, c) => prod * (1 - c.probability), 1);
+    const cutSetUpperBound = unionBound(cutSets);
+
+    // A repeated event (the same asset under several gates) makes the bottom-up product count it
+    // more than once, so the top event is then taken from the minimal cut sets instead
+    const repeated = new Set(events.map(event => event.id)).size < events.length;
+    const topProbability = !repeated ? faultTreeProbability(top, probabilities)
+        : cutSetIds.length <= FTA_MAX_INCLUSION_EXCLUSION ? cutSetUnionProbability(cutSetIds, probabilities)
+        : cutSetUpperBound;
+
+    const importance: FaultTreeImportance[] = [...new Map(events.map(event => [event.id, event])).values()].map(event => ({
+        id: event.id,
+        name: event.name,
+        probability: probabilities[event.id],
+        fussellVesely: cutSetUpperBound > 0 ? unionBound(cutSets.filter(c => c.events.includes(event.id))) / cutSetUpperBound : 0,
+    })).sort((a, b) => b.fussellVesely - a.fussellVesely);
+
+    return {
+        time,
+        topProbability,
+        cutSetUpperBound,
+        cutSets,
+        importance,
+    };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBlockReplacement, calculateFailureFindingInterval, calculateOptimalInterval, evaluateOpportunisticReplacement, planConditionMonitoring } from './maintenance-policies';
+import type { AgeReplacementInput, AgeReplacementResult, BlockReplacementResult, FailureFindingResult, OpportunisticReplacementResult, PFFailureMode, PFInspectionPlan } from './types';
+
+const costs: Omit<AgeReplacementInput, 'distribution' | 'params'> = {
+  costCp: 100,
+  costCu: 1000,
+  pmDuration: 0,
+  mttr: 0,
+  downtimeCostPerHour: 0,
+  objective: 'cost',
+};
+
+describe('calculateOptimalInterval', () => {
+  it('finds the optimum where the cost rate equals (Cu - Cp) h(T*)', () => {
+    const result = calculateOptimalInterval({ ...costs, distribution: 'Weibull', params: { beta: 2, eta: 1000 } }) as AgeReplacementResult;
+    expect(result.hasOptimum).toBe(true);
+    const hazard = 2 * result.optimalInterval / 1000 ** 2;
+    expect(result.cost).toBeCloseTo((1000 - 100) * hazard, 6);
+  });
+
+  it('has no optimum for a constant hazard, and runs to failure at Cu λ', () => {
+    const result = calculateOptimalInterval({ ...costs, distribution: 'Exponential', params: { lambda: 0.002 } }) as AgeReplacementResult;
+    expect(result.hasOptimum).toBe(false);
+    expect(result.runToFailure.cost).toBeCloseTo(1000 * 0.002, 6);
+  });
+});
+
+describe('calculateBlockReplacement', () => {
+  it('expects λT failures per block and costs (Cp + Cu λT) / T for an exponential life', () => {
+    const result = calculateBlockReplacement({ ...costs, distribution: 'Exponential', params: { lambda: 0.002 } }) as BlockReplacementResult;
+    result.costCurve.forEach(point => {
+      expect(point.expectedFailures / (0.002 * point.time)).toBeCloseTo(1, 4);
+      expect(point.cost).toBeCloseTo((100 + 1000 * point.expectedFailures) / point.time, 10);
+    });
+    expect(result.hasOptimum).toBe(false);
+  });
+});
+
+describe('evaluateOpportunisticReplacement', () => {
+  it('never replaces a memoryless item early, whatever its age', () => {
+    const result = evaluateOpportunisticReplacement({
+      ...costs, distribution: 'Exponential', params: { lambda: 0.002 }, age: 3000, nextStop: 500, opportunityCost: 50, costRate: 2,
+    }) as OpportunisticReplacementResult;
+    expect(result.conditionalFailureProbability).toBeCloseTo(1 - Math.exp(-1), 10);
+    expect(result.replace).toBe(false);
+    expect(result.breakEvenAge).toBeNull();
+    expect(result.replaceCost - result.keepCost).toBeCloseTo(50, 2);
+  });
+});
+
+describe('calculateFailureFindingInterval', () => {
+  const lambda = 1e-4;
+  const result = calculateFailureFindingInterval({ distribution: 'Exponential', params: { lambda }, demandRate: 0.1, tolerableProbability: 1e-4 }) as FailureFindingResult;
+
+  it('approximates the interval by 2 U MTBF', () => {
+    expect(result.allowedUnavailability).toBeCloseTo(1e-3, 12);
+    expect(result.mtbf * lambda).toBeCloseTo(1, 4);
+    expect(result.approximateInterval).toBeCloseTo(2 * result.allowedUnavailability * result.mtbf, 8);
+    expect(result.exactInterval / result.approximateInterval).toBeCloseTo(1, 2);
+  });
+
+  it('solves 1 - (1 - e^-λT) / (λT) = U exactly', () => {
+    const x = lambda * result.exactInterval;
+    expect(1 - (1 - Math.exp(-x)) / x).toBeCloseTo(result.allowedUnavailability, 6);
+  });
+});
+
+describe('planConditionMonitoring', () => {
+  const mode: PFFailureMode = { id: 'm', name: 'bearing', pfInterval: 600, detectionProbability: 0.8, inspectionCost: 200, consequenceCost: 50000, mtbf: 8000 };
+
+  it('detects with 1 - (1 - p)^n when n inspections fit the P-F window', () => {
+    const plan = planConditionMonitoring(mode) as PFInspectionPlan;
+    const ratio = 600 / plan.inspectionInterval;
+    const n = Math.floor(ratio);
+    const expected = 1 - ((n + 1 - ratio) * 0.2 ** n + (ratio - n) * 0.2 ** (n + 1));
+    expect(plan.inspectionsInWindow).toBe(n);
+    expect(plan.detectionProbability).toBeCloseTo(expected, 12);
+    expect(plan.costRate).toBeCloseTo(200 / plan.inspectionInterval + (1 - expected) * 50000 / 8000, 10);
+    expect(plan.noInspectionCostRate).toBeCloseTo(50000 / 8000, 12);
+  });
+
+  it('only pays for inspections when every inspection inside the window detects', () => {
+    const plan = planConditionMonitoring({ ...mode, detectionProbability: 1 }) as PFInspectionPlan;
+    plan.curve.filter(p => p.interval <= 600).forEach(p => expect(p.cost).toBeCloseTo(200 / p.interval, 10));
+    expect(plan.inspectionInterval).toBeLessThanOrEqual(600);
+    expect(plan.inspectionInterval).toBeGreaterThan(600 * 0.97);
+  });
+});
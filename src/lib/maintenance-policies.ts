@@ -0,0 +1,294 @@
+import type { AgeReplacementInput, AgeReplacementPoint, AgeReplacementResult, BlockReplacementPoint, BlockReplacementResult, BoundedEstimate, Distribution, FailureFindingInput, FailureFindingResult, OpportunisticReplacementInput, OpportunisticReplacementResult, Parameters, PFFailureMode, PFInspectionPlan } from './types';
+import { boundsZ, deltaMethodInterval, getReliability, isFiniteNumber, renewalFunctionGrid, sampleLifetime } from './reliability';
+
+/* -----------------------
+   Age Replacement Optimisation
+   ----------------------- */
+const AGE_REPLACEMENT_GRID_STEPS = 200;
+const AGE_REPLACEMENT_INTEGRAL_STEPS = 200;
+// Survival at the end of the searched interval range, and at the run-to-failure limit
+const AGE_REPLACEMENT_HORIZON_SURVIVAL = 0.01;
+const RUN_TO_FAILURE_SURVIVAL = 1e-6;
+
+// Composite Simpson rule for the expected uptime of a cycle, ∫0^T R(t) dt
+function expectedUptime(distribution: Distribution, params: Parameters, T: number, steps = AGE_REPLACEMENT_INTEGRAL_STEPS): number {
+    const h = T / steps;
+    let sum = 1 + getReliability(distribution, params, T);
+    for (let i = 1; i < steps; i++) {
+        sum += (i % 2 === 0 ? 2 : 4) * getReliability(distribution, params, i * h);
+    }
+    return sum * h / 3;
+}
+
+// Renewal-reward model of one age-replacement cycle: preventive replacement at T if the item
+// survives, corrective replacement at failure otherwise, each with its own downtime.
+function ageReplacementPoint(input: AgeReplacementInput, params: Parameters, T: number, steps?: number): AgeReplacementPoint {
+    const { distribution, costCp, costCu, pmDuration, mttr, downtimeCostPerHour } = input;
+    const R = getReliability(distribution, params, T);
+    const F = 1 - R;
+    const uptime = expectedUptime(distribution, params, T, steps);
+    const cycleLength = uptime + pmDuration * R + mttr * F;
+    const cycleCost = (costCp + downtimeCostPerHour * pmDuration) * R + (costCu + downtimeCostPerHour * mttr) * F;
+    return { time: T, cost: cycleCost / cycleLength, availability: uptime / cycleLength };
+}
+
+// Grid search followed by a golden-section refinement, so the optimum moves smoothly with the
+// parameters (required by the delta method).
+function findAgeReplacementOptimum(input: AgeReplacementInput, params: Parameters) {
+    const score = (p: AgeReplacementPoint) => input.objective === 'cost' ? p.cost : -p.availability;
+    const horizon = sampleLifetime(input.distribution, params, AGE_REPLACEMENT_HORIZON_SURVIVAL);
+    if (!isFiniteNumber(horizon) || horizon <= 0) return null;
+
+    const curve: AgeReplacementPoint[] = [];
+    for (let i = 1; i <= AGE_REPLACEMENT_GRID_STEPS; i++) {
+        const point = ageReplacementPoint(input, params, horizon * i / AGE_REPLACEMENT_GRID_STEPS);
+        if (isFiniteNumber(point.cost) && isFiniteNumber(point.availability)) curve.push(point);
+    }
+    if (curve.length < 3) return null;
+
+    let best = 0;
+    curve.forEach((p, i) => { if (score(p) < score(curve[best])) best = i; });
+    const hasOptimum = best > 0 && best < curve.length - 1;
+    if (!hasOptimum) return { curve, optimum: curve[best], hasOptimum };
+
+    const phi = (Math.sqrt(5) - 1) / 2;
+    let a = curve[best - 1].time;
+    let b = curve[best + 1].time;
+    let c = b - phi * (b - a);
+    let d = a + phi * (b - a);
+    let fc = score(ageReplacementPoint(input, params, c));
+    let fd = score(ageReplacementPoint(input, params, d));
+    while (b - a > 1e-10 * b) {
+        if (fc < fd) { b = d; d = c; fd = fc; c = b - phi * (b - a); fc = score(ageReplacementPoint(input, params, c)); }
+        else { a = c; c = d; fc = fd; d = a + phi * (b - a); fd = score(ageReplacementPoint(input, params, d)); }
+    }
+    return { curve, optimum: ageReplacementPoint(input, params, (a + b) / 2), hasOptimum };
+}
+
+export function calculateOptimalInterval(input: AgeReplacementInput): AgeReplacementResult | null {
+    const { distribution, params, fisher, confidence = 0.9 } = input;
+    const search = findAgeReplacementOptimum(input, params);
+    if (!search) return null;
+
+    // The T -> infinity limit of the cycle: every replacement is corrective
+    const rtfHorizon = sampleLifetime(distribution, params, RUN_TO_FAILURE_SURVIVAL);
+    const rtf = ageReplacementPoint(input, params, rtfHorizon, 4 * AGE_REPLACEMENT_INTEGRAL_STEPS);
+
+    let intervalBounds: BoundedEstimate | null = null;
+    if (search.hasOptimum && fisher && fisher.distribution === distribution) {
+        // Log scale keeps the band positive
+        const logOptimum = (p: Parameters) => {
+            const perturbed = findAgeReplacementOptimum(input, p);
+            return perturbed?.hasOptimum ? Math.log(perturbed.optimum.time) : NaN;
+        };
+        const bounds = deltaMethodInterval(fisher, logOptimum, boundsZ(confidence, 'two-sided'));
+        if ([bounds.lower, bounds.upper].every(isFiniteNumber)) {
+            intervalBounds = { lower: Math.exp(bounds.lower), value: search.optimum.time, upper: Math.exp(bounds.upper) };
+        }
+    }
+
+    return {
+        objective: input.objective,
+        costCurve: search.curve,
+        optimalInterval: search.optimum.time,
+        cost: search.optimum.cost,
+        availability: search.optimum.availability,
+        hasOptimum: search.hasOptimum,
+        runToFailure: { cost: rtf.cost, availability: rtf.availability },
+        intervalBounds,
+    };
+}
+
+/* -----------------------
+   Block and Opportunistic Replacement
+   ----------------------- */
+const BLOCK_REPLACEMENT_GRID_STEPS = 400;
+const OPPORTUNISTIC_AGE_STEPS = 200;
+
+// Block replacement: renew every T of operation regardless of age, repairing failures in between.
+// Expected failures per block come from the renewal function M(T).
+export function calculateBlockReplacement(input: AgeReplacementInput): BlockReplacementResult | null {
+    const { distribution, params, costCp, costCu, pmDuration, mttr, downtimeCostPerHour, objective } = input;
+    // Same range as the age-replacement search, so both curves share an axis
+    const horizon = sampleLifetime(distribution, params, AGE_REPLACEMENT_HORIZON_SURVIVAL);
+    if (!isFiniteNumber(horizon) || horizon <= 0) return null;
+
+    const renewal = renewalFunctionGrid(distribution, params, horizon, BLOCK_REPLACEMENT_GRID_STEPS);
+    const costCurve: BlockReplacementPoint[] = [];
+    for (let i = 1; i <= BLOCK_REPLACEMENT_GRID_STEPS; i++) {
+        const T = horizon * i / BLOCK_REPLACEMENT_GRID_STEPS;
+        const failures = renewal[i];
+        const cycleLength = T + pmDuration + mttr * failures;
+        const cycleCost = costCp + downtimeCostPerHour * pmDuration + (costCu + downtimeCostPerHour * mttr) * failures;
+        const point = { time: T, cost: cycleCost / cycleLength, availability: T / cycleLength, expectedFailures: failures };
+        if (isFiniteNumber(point.cost) && isFiniteNumber(point.availability)) costCurve.push(point);
+    }
+    if (costCurve.length < 3) return null;
+
+    const score = (p: AgeReplacementPoint) => objective === 'cost' ? p.cost : -p.availability;
+    let best = 0;
+    costCurve.forEach((p, i) => { if (score(p) < score(costCurve[best])) best = i; });
+    const optimum = costCurve[best];
+
+    return {
+        objective,
+        costCurve,
+        optimalInterval: optimum.time,
+        cost: optimum.cost,
+        availability: optimum.availability,
+        expectedFailures: optimum.expectedFailures,
+        hasOptimum: best > 0 && best < costCurve.length - 1,
+    };
+}
+
+// Relative cost of keeping an item of age `age` until the next planned replacement `nextStop`
+// later (or its failure), charged against the long-run cost rate of the policy. Replacing now
+// means paying the opportunity cost and then keeping a new item over the same window, so it pays
+// off when this exceeds the opportunity cost plus the keeping cost at age zero.
+function keepingCost(input: OpportunisticReplacementInput, age: number): number {
+    const { distribution, params, costCp, costCu, pmDuration, mttr, downtimeCostPerHour, nextStop, costRate } = input;
+    const survivalAtAge = getReliability(distribution, params, age);
+    if (!(survivalAtAge > 0)) return Infinity;
+    const survives = getReliability(distribution, params, age + nextStop) / survivalAtAge;
+    const uptime = (expectedUptime(distribution, params, age + nextStop) - expectedUptime(distribution, params, age)) / survivalAtAge;
+    const cost = (costCp + downtimeCostPerHour * pmDuration) * survives + (costCu + downtimeCostPerHour * mttr) * (1 - survives);
+    const length = uptime + pmDuration * survives + mttr * (1 - survives);
+    return cost - costRate * length;
+}
+
+export function evaluateOpportunisticReplacement(input: OpportunisticReplacementInput): OpportunisticReplacementResult | null {
+    const { distribution, params, age, nextStop, opportunityCost } = input;
+    if (!(age >= 0) || !(nextStop > 0) || !(input.costRate >= 0)) return null;
+    const survivalAtAge = getReliability(distribution, params, age);
+    if (!isFiniteNumber(survivalAtAge)) return null;
+
+    const keep = keepingCost(input, age);
+    const replaceCost = opportunityCost + keepingCost(input, 0);
+    const maxAge = Math.max(age * 1.5, sampleLifetime(distribution, params, AGE_REPLACEMENT_HORIZON_SURVIVAL));
+    const curve = Array.from({ length: OPPORTUNISTIC_AGE_STEPS + 1 }, (_, i) => {
+        const a = maxAge * i / OPPORTUNISTIC_AGE_STEPS;
+        return { age: a, keepCost: keepingCost(input, a) };
+    }).filter(p => isFiniteNumber(p.keepCost));
+
+    // First age at which keeping the item costs more than taking the opportunity
+    let breakEvenAge: number | null = null;
+    for (let i = 1; i < curve.length && breakEvenAge === null; i++) {
+        const [prev, next] = [curve[i - 1], curve[i]];
+        if (prev.keepCost < replaceCost && next.keepCost >= replaceCost) {
+            breakEvenAge = prev.age + (next.age - prev.age) * (replaceCost - prev.keepCost) / (next.keepCost - prev.keepCost);
+        }
+    }
+    if (breakEvenAge === null && curve.length > 0 && curve[0].keepCost >= replaceCost) breakEvenAge = 0;
+
+    return {
+        replace: keep >= replaceCost,
+        keepCost: keep,
+        replaceCost,
+        conditionalFailureProbability: survivalAtAge > 0 ? 1 - getReliability(distribution, params, age + nextStop) / survivalAtAge : 1,
+        breakEvenAge,
+        curve,
+    };
+}
+
+/* -----------------------
+   Failure-Finding Interval
+   ----------------------- */
+const FFI_CURVE_POINTS = 100;
+
+// Mean fractional dead time of a hidden function tested every T and restored when found failed:
+// U(T) = (1/T) ∫0^T F(t) dt
+function hiddenUnavailability(distribution: Distribution, params: Parameters, T: number): number {
+    return T > 0 ? 1 - expectedUptime(distribution, params, T) / T : 0;
+}
+
+// A multiple failure needs the protective device to be dead when the demand comes, so the
+// tolerable unavailability is the tolerable multiple-failure rate over the demand rate.
+export function calculateFailureFindingInterval(input: FailureFindingInput): FailureFindingResult | { error: string } {
+    const { distribution, params, demandRate, tolerableProbability } = input;
+    if (!(demandRate > 0)) return { error: 'A taxa de demanda deve ser maior que zero.' };
+    if (!(tolerableProbability > 0)) return { error: 'A probabilidade tolerável de falha múltipla deve ser maior que zero.' };
+    if (Number.isNaN(getReliability(distribution, params, 1))) return { error: 'Parâmetros da distribuição inválidos.' };
+
+    const allowedUnavailability = tolerableProbability / demandRate;
+    if (allowedUnavailability >= 1) return { error: 'A probabilidade tolerável não exige teste: excede a taxa de demanda.' };
+
+    const mtbf = expectedUptime(distribution, params, sampleLifetime(distribution, params, RUN_TO_FAILURE_SURVIVAL), 4 * AGE_REPLACEMENT_INTEGRAL_STEPS);
+    const approximateInterval = 2 * allowedUnavailability * mtbf;
+
+    // U(T) grows with T for any non-decreasing F, so bisection finds the exact interval
+    let hi = Math.max(approximateInterval, 1);
+    while (hiddenUnavailability(distribution, params, hi) < allowedUnavailability && hi < 1e12) hi *= 2;
+    let lo = 0;
+    for (let i = 0; i < 60; i++) {
+        const mid = (lo + hi) / 2;
+        if (hiddenUnavailability(distribution, params, mid) < allowedUnavailability) lo = mid; else hi = mid;
+    }
+    const exactInterval = (lo + hi) / 2;
+
+    const curveEnd = 1.5 * Math.max(exactInterval, approximateInterval);
+    const curve = Array.from({ length: FFI_CURVE_POINTS }, (_, i) => {
+        const interval = curveEnd * (i + 1) / FFI_CURVE_POINTS;
+        return { interval, unavailability: hiddenUnavailability(distribution, params, interval) };
+    });
+
+    return {
+        allowedUnavailability,
+        mtbf,
+        exactInterval,
+        approximateInterval,
+        // What the approximation actually delivers once the real distribution is applied
+        approximateUnavailability: hiddenUnavailability(distribution, params, approximateInterval),
+        curve,
+    };
+}
+
+/* -----------------------
+   P-F Interval Inspection Planning
+   ----------------------- */
+const PF_GRID_POINTS = 400;
+// Inspection intervals searched, as multiples of the P-F interval
+const PF_MIN_RATIO = 0.01;
+const PF_MAX_RATIO = 4;
+
+// Chance that at least one inspection inside the P-F window detects the potential failure.
+// With a random phase the window holds floor(PF/T) or floor(PF/T) + 1 inspections.
+function pfDetectionProbability(pfInterval: number, interval: number, detectionProbability: number): number {
+    const ratio = pfInterval / interval;
+    const n = Math.floor(ratio);
+    const fraction = ratio - n;
+    const miss = 1 - detectionProbability;
+    return 1 - ((1 - fraction) * Math.pow(miss, n) + fraction * Math.pow(miss, n + 1));
+}
+
+// Inspections cost Ci every T; each undetected failure costs its consequences Cf
+function pfCostRate(mode: PFFailureMode, interval: number): number {
+    const detected = pfDetectionProbability(mode.pfInterval, interval, mode.detectionProbability);
+    return mode.inspectionCost / interval + (1 - detected) * mode.consequenceCost / mode.mtbf;
+}
+
+export function planConditionMonitoring(mode: PFFailureMode): PFInspectionPlan | { error: string } {
+    const { pfInterval, detectionProbability, inspectionCost, consequenceCost, mtbf } = mode;
+    if (!(pfInterval > 0)) return { error: 'O intervalo P-F deve ser maior que zero.' };
+    if (!(detectionProbability > 0 && detectionProbability <= 1)) return { error: 'A probabilidade de detecção deve estar entre 0 e 1.' };
+    if (!(inspectionCost >= 0) || !(consequenceCost >= 0)) return { error: 'Os custos não podem ser negativos.' };
+    if (!(mtbf > 0)) return { error: 'O MTBF do modo de falha deve ser maior que zero.' };
+
+    // Log-spaced grid: the cost has kinks at PF/n, so a fine grid beats a local search
+    const curve = Array.from({ length: PF_GRID_POINTS }, (_, i) => {
+        const interval = pfInterval * PF_MIN_RATIO * Math.pow(PF_MAX_RATIO / PF_MIN_RATIO, i / (PF_GRID_POINTS - 1));
+        return { interval, cost: pfCostRate(mode, interval) };
+    });
+    const best = curve.reduce((min, p) => (p.cost < min.cost ? p : min), curve[0]);
+    const noInspectionCostRate = consequenceCost / mtbf;
+
+    return {
+        inspectionInterval: best.interval,
+        netPFInterval: pfInterval - best.interval,
+        detectionProbability: pfDetectionProbability(pfInterval, best.interval, detectionProbability),
+        inspectionsInWindow: Math.floor(pfInterval / best.interval),
+        costRate: best.cost,
+        noInspectionCostRate,
+        worthwhile: best.cost < noInspectionCostRate,
+        curve,
+    };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeReliabilityBlockDiagram } from './rbd';
+import type { RbdAnalysis, RbdBlock } from './types';
+
+const exponential = (id: string, lambda = 1): RbdBlock => ({ id, type: 'component', distribution: 'Exponential', params: { lambda } });
+
+const analyze = (root: RbdBlock, missionTime: number) => analyzeReliabilityBlockDiagram(root, missionTime) as RbdAnalysis;
+
+describe('analyzeReliabilityBlockDiagram', () => {
+  it('matches e^-t (1 + t) for a cold standby pair with a perfect switch', () => {
+    const root: RbdBlock = { id: 'sb', type: 'standby', switchReliability: 1, children: [exponential('a'), exponential('b')] };
+    [0.5, 1, 2].forEach(t => {
+      expect(analyze(root, t).reliabilityAtMission).toBeCloseTo(Math.exp(-t) * (1 + t), 4);
+    });
+  });
+
+  it('matches 3p^2 - 2p^3 for 2-out-of-3 identical components', () => {
+    const root: RbdBlock = { id: 'k', type: 'kOutOfN', k: 2, children: ['a', 'b', 'c'].map(id => exponential(id)) };
+    const p = Math.exp(-0.7);
+    expect(analyze(root, 0.7).reliabilityAtMission).toBeCloseTo(3 * p ** 2 - 2 * p ** 3, 10);
+  });
+
+  it('multiplies series and complements parallel reliabilities', () => {
+    const series = analyze({ id: 's', type: 'series', children: [exponential('a', 1), exponential('b', 2)] }, 0.5);
+    expect(series.reliabilityAtMission).toBeCloseTo(Math.exp(-1.5), 10);
+    expect(series.mttf).toBeCloseTo(1 / 3, 2);
+
+    const parallel = analyze({ id: 'p', type: 'parallel', children: [exponential('a'), exponential('b')] }, 1);
+    expect(parallel.reliabilityAtMission).toBeCloseTo(1 - (1 - Math.exp(-1)) ** 2, 10);
+    expect(parallel.importance[0].birnbaum).toBeCloseTo(1 - Math.exp(-1), 10);
+  });
+
+  it('rejects a k-out-of-n block with k above the number of items', () => {
+    expect(analyzeReliabilityBlockDiagram({ id: 'k', type: 'kOutOfN', k: 3, children: [exponential('a'), exponential('b')] }, 1)).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,144 @@
+import type { RbdBlock, RbdAnalysis, RbdImportance } from './types';
+import { getReliability } from './reliability';
+
+/* -----------------------
+   Reliability Block Diagram
+   ----------------------- */
+
+const RBD_GRID_POINTS = 400;
+const RBD_NEGLIGIBLE_RELIABILITY = 1e-4;
+
+const rbdComponents = (block: RbdBlock): RbdBlock[] =>
+    block.type === 'component' ? [block] : (block.children ?? []).flatMap(rbdComponents);
+
+// Only called once validateRbd has checked that every component has a fitted distribution
+const componentReliability = (block: RbdBlock, time: number): number =>
+    getReliability(block.distribution!, block.params!, time);
+
+function validateRbd(block: RbdBlock): string | null {
+    if (block.type === 'component') {
+        return block.distribution && block.params && !isNaN(getReliability(block.distribution, block.params, 0))
+            ? null
+            : `O componente "${block.name ?? block.id}" não tem uma distribuição ajustada.`;
+    }
+    const children = block.children ?? [];
+    if (children.length === 0) return 'Todos os blocos precisam de pelo menos um item.';
+    if (block.type === 'kOutOfN' && !(block.k !== undefined && block.k >= 1 && block.k <= children.length)) return 'Em um bloco k-de-n, k deve estar entre 1 e o número de itens.';
+    if (block.type === 'standby' && !(block.switchReliability !== undefined && block.switchReliability >= 0 && block.switchReliability <= 1)) return 'A confiabilidade da chave deve estar entre 0 e 1.';
+    for (const child of children) {
+        const error = validateRbd(child);
+        if (error) return error;
+    }
+    return null;
+}
+
+// Time by which a block has practically failed, used to size the time grid
+function rbdLifeBound(block: RbdBlock): number {
+    if (block.type === 'component') {
+        const R = (t: number) => componentReliability(block, t);
+        let hi = 1;
+        for (let i = 0; i < 60 && R(hi) > RBD_NEGLIGIBLE_RELIABILITY; i++) hi *= 2;
+        let lo = hi / 2;
+        for (let i = 0; i < 30; i++) {
+            const mid = (lo + hi) / 2;
+            if (R(mid) > RBD_NEGLIGIBLE_RELIABILITY) lo = mid; else hi = mid;
+        }
+        return hi;
+    }
+    const bounds = block.children!.map(rbdLifeBound);
+    if (block.type === 'series') return Math.min(...bounds);
+    if (block.type === 'standby') return bounds.reduce((sum, b) => sum + b, 0);
+    return Math.max(...bounds);
+}
+
+// R(t) of a block on a uniform grid starting at 0. `overrides` pins components to a fixed
+// reliability (1 or 0) for the importance measures.
+function rbdReliabilityCurve(block: RbdBlock, times: number[], overrides: Record<string, number>): number[] {
+    if (block.type === 'component') {
+        if (block.id in overrides) return times.map(() => overrides[block.id]);
+        return times.map(t => componentReliability(block, t));
+    }
+
+    const curves = block.children!.map(child => rbdReliabilityCurve(child, times, overrides));
+    switch (block.type) {
+        case 'series':
+            return times.map((_, i) => curves.reduce((prod, c) => prod * c[i], 1));
+        case 'parallel':
+            return times.map((_, i) => 1 - curves.reduce((prod, c) => prod * (1 - c[i]), 1));
+        case 'kOutOfN':
+            // Distribution of the number of working children, which need not be identical
+            return times.map((_, i) => {
+                let working = [1];
+                curves.forEach(c => {
+                    const next = new Array(working.length + 1).fill(0);
+                    working.forEach((p, j) => {
+                        next[j] += p * (1 - c[i]);
+                        next[j + 1] += p * c[i];
+                    });
+                    working = next;
+                });
+                return working.slice(block.k!).reduce((sum, p) => sum + p, 0);
+            });
+        case 'standby': {
+            // Cold standby: R(t) = R1(t) + p * integral of f1(tau) * R_rest(t - tau), built from the last spare back
+            const dt = times[1] - times[0];
+            const p = block.switchReliability!;
+            const at = (curve: number[], index: number) => index <= 0 ? curve[0] : curve[Math.min(index, curve.length - 1)];
+            return curves.reduceRight((rest, active) => times.map((_, i) => {
+                // Failure mass at time 0, then in each grid step, taken at the step midpoint
+                let convolution = (1 - active[0]) * rest[i];
+                for (let j = 1; j <= i; j++) {
+                    const restAtMid = (at(rest, i - j) + at(rest, i - j + 1)) / 2;
+                    convolution += (active[j - 1] - active[j]) * restAtMid;
+                }
+                return Math.min(1, active[i] + p * convolution);
+            }));
+        }
+    }
+    return times.map(() => NaN);
+}
+
+export function analyzeReliabilityBlockDiagram(root: RbdBlock, missionTime: number): RbdAnalysis | { error: string } {
+    const error = validateRbd(root);
+    if (error) return { error };
+    if (!(missionTime > 0)) return { error: 'O tempo de missão deve ser positivo.' };
+
+    // Standby blocks need the whole history from 0, so the mission has its own grid ending at the
+    // mission time; the curve grid runs until the system has practically failed.
+    const grid = (end: number) => Array.from({ length: RBD_GRID_POINTS + 1 }, (_, i) => end * i / RBD_GRID_POINTS);
+    const missionTimes = grid(missionTime);
+    const atMission = (overrides: Record<string, number>) => rbdReliabilityCurve(root, missionTimes, overrides)[RBD_GRID_POINTS];
+    const reliabilityAtMission = atMission({});
+
+    const times = grid(Math.max(missionTime, rbdLifeBound(root)));
+    const dt = times[1];
+    const reliability = rbdReliabilityCurve(root, times, {});
+
+    // h(t) = -R'(t) / R(t), central differences inside the grid
+    const curve = times.map((time, i) => {
+        const prev = reliability[Math.max(0, i - 1)];
+        const next = reliability[Math.min(times.length - 1, i + 1)];
+        const span = (Math.min(times.length - 1, i + 1) - Math.max(0, i - 1)) * dt;
+        const hazard = reliability[i] > 1e-9 ? Math.max(0, (prev - next) / span / reliability[i]) : null;
+        return { time, reliability: reliability[i], hazard };
+    });
+
+    // Trapezoidal area under R(t) over the grid, which runs until the system has practically failed
+    const mttf = reliability.reduce((sum, r, i) => i === 0 ? sum : sum + (reliability[i - 1] + r) * dt / 2, 0);
+
+    const importance: RbdImportance[] = rbdComponents(root).map(component => {
+        const withWorking = atMission({ [component.id]: 1 });
+        const withFailed = atMission({ [component.id]: 0 });
+        const reliability = componentReliability(component, missionTime);
+        const birnbaum = withWorking - withFailed;
+        return {
+            id: component.id,
+            name: component.name ?? component.id,
+            reliability,
+            birnbaum,
+            criticality: reliabilityAtMission < 1 ? birnbaum * (1 - reliability) / (1 - reliabilityAtMission) : 0,
+        };
+    }).sort((a, b) => b.birnbaum - a.birnbaum);
+
+    return { curve, mttf, missionTime, reliabilityAtMission, importance };
+}
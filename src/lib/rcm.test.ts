@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRcmDecision } from './rcm';
+
+describe('evaluateRcmDecision', () => {
+  it('asks the first question of an empty worksheet', () => {
+    expect(evaluateRcmDecision({})).toEqual({ consequence: null, task: null, path: [], nextQuestion: 'evident' });
+  });
+
+  it('stops at the first feasible proactive task', () => {
+    expect(evaluateRcmDecision({ evident: true, safety: false, environmental: false, operational: true, onCondition: false, scheduledRestoration: true })).toEqual({
+      consequence: 'operational',
+      task: 'scheduledRestoration',
+      path: ['evident', 'safety', 'environmental', 'operational', 'onCondition', 'scheduledRestoration'],
+      nextQuestion: null,
+    });
+  });
+
+  it('makes redesign compulsory when no task works on a safety consequence', () => {
+    const decision = evaluateRcmDecision({ evident: true, safety: true, onCondition: false, scheduledRestoration: false, scheduledDiscard: false });
+    expect(decision).toMatchObject({ consequence: 'safety', task: 'redesign' });
+  });
+
+  it('offers failure finding only for hidden functions, then weighs the multiple failure', () => {
+    const hidden = { evident: false, onCondition: false, scheduledRestoration: false, scheduledDiscard: false };
+    expect(evaluateRcmDecision(hidden).nextQuestion).toBe('failureFinding');
+    expect(evaluateRcmDecision({ ...hidden, failureFinding: false }).nextQuestion).toBe('multipleFailureSafety');
+    expect(evaluateRcmDecision({ ...hidden, failureFinding: false, multipleFailureSafety: false }).task).toBe('runToFailure');
+  });
+
+  it('runs non-operational failures to failure when no task is feasible', () => {
+    const decision = evaluateRcmDecision({ evident: true, safety: false, environmental: false, operational: false, onCondition: false, scheduledRestoration: false, scheduledDiscard: false });
+    expect(decision).toMatchObject({ consequence: 'nonOperational', task: 'runToFailure', nextQuestion: null });
+    expect(decision.path).not.toContain('failureFinding');
+  });
+});
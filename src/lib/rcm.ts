@@ -0,0 +1,62 @@
+import type { RcmConsequence, RcmDecision, RcmQuestion, RcmTaskType } from './types';
+
+/* -----------------------
+   RCM Decision Logic (SAE JA1011)
+   ----------------------- */
+
+// Walks the RCM decision diagram: consequences first, then the proactive tasks in order of
+// preference, then the default action. Stops at the first unanswered question.
+export function evaluateRcmDecision(answers: Partial<Record<RcmQuestion, boolean>>): RcmDecision {
+    const path: RcmQuestion[] = [];
+    const ask = (question: RcmQuestion) => {
+        path.push(question);
+        return answers[question];
+    };
+    const pending = (consequence: RcmConsequence | null): RcmDecision =>
+        ({ consequence, task: null, path: path.slice(0, -1), nextQuestion: path[path.length - 1] });
+    const decided = (consequence: RcmConsequence, task: RcmTaskType): RcmDecision =>
+        ({ consequence, task, path, nextQuestion: null });
+
+    const evident = ask('evident');
+    if (evident === undefined) return pending(null);
+
+    let consequence: RcmConsequence;
+    if (!evident) {
+        consequence = 'hidden';
+    } else {
+        const safety = ask('safety');
+        if (safety === undefined) return pending(null);
+        if (safety) {
+            consequence = 'safety';
+        } else {
+            const environmental = ask('environmental');
+            if (environmental === undefined) return pending(null);
+            if (environmental) {
+                consequence = 'environmental';
+            } else {
+                const operational = ask('operational');
+                if (operational === undefined) return pending(null);
+                consequence = operational ? 'operational' : 'nonOperational';
+            }
+        }
+    }
+
+    const proactiveTasks: RcmTaskType[] = consequence === 'hidden'
+        ? ['onCondition', 'scheduledRestoration', 'scheduledDiscard', 'failureFinding']
+        : ['onCondition', 'scheduledRestoration', 'scheduledDiscard'];
+    for (const task of proactiveTasks) {
+        const feasible = ask(task as RcmQuestion);
+        if (feasible === undefined) return pending(consequence);
+        if (feasible) return decided(consequence, task);
+    }
+
+    // No task is feasible and worth doing: redesign is compulsory only where safety or the
+    // environment is at stake (for hidden functions, through the multiple failure)
+    if (consequence === 'safety' || consequence === 'environmental') return decided(consequence, 'redesign');
+    if (consequence === 'hidden') {
+        const multipleFailureSafety = ask('multipleFailureSafety');
+        if (multipleFailureSafety === undefined) return pending(consequence);
+        return decided(consequence, multipleFailureSafety ? 'redesign' : 'runToFailure');
+    }
+    return decided(consequence, 'runToFailure');
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { calculateExpectedFailures, calculateNonParametricSurvival, countDistinctFailures, estimateParameters, findBestDistribution, fitMixedWeibull, hasDegenerateParameters, rankDistributionResults, renewalFunctionGrid, sampleLifetime } from './reliability';
+import type { CensoredData } from './types';
+
+describe('Gamma MLE', () => {
+  // Tied failures have zero variance, which used to send the shape towards infinity and hang
+  // the incomplete gamma function on the main thread
+  it('returns promptly on tied failures', () => {
+    const started = Date.now();
+    findBestDistribution([100, 100, 100], []);
+    findBestDistribution([100, 100], []);
+    findBestDistribution([1000], []);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('rejects fewer than two distinct failure times', () => {
+    const { params } = estimateParameters({ dist: 'Gamma', failureTimes: [100, 100, 100], method: 'MLE' });
+    expect(params.k).toBeUndefined();
+  });
+
+  it('keeps the shape bounded on very tight data', () => {
+    const { params } = estimateParameters({ dist: 'Gamma', failureTimes: [880, 881, 882, 883, 884, 885], method: 'MLE' });
+    expect(params.k).toBeLessThanOrEqual(1e4);
+  });
+});
+
+describe('findBestDistribution', () => {
+  it('fits nothing below two distinct failure times', () => {
+    expect(findBestDistribution([1000], [])).toEqual({ results: [], best: null });
+    expect(findBestDistribution([100, 100, 100], [], [], {}, 'bic')).toEqual({ results: [], best: null });
+  });
+
+  it('leaves models with n <= k + 1 out of the AICc ranking', () => {
+    const { results } = findBestDistribution([100, 200, 300], [], [], {}, 'bic');
+    expect(results.some(r => r.parameterCount === 2)).toBe(true);
+    const ranked = rankDistributionResults(results, 'aicc');
+    expect(ranked.map(r => r.distribution)).toEqual(['Exponential']);
+  });
+});
+
+describe('asset fit guards', () => {
+  it('counts distinct failure times, ignoring empty groups', () => {
+    expect(countDistinctFailures([100, 100, 200])).toBe(2);
+    expect(countDistinctFailures([100, 200], [], { failureCounts: [3, 0] })).toBe(1);
+  });
+
+  it('flags parameters at the edge of floating point', () => {
+    expect(hasDegenerateParameters({ mean: 6.9, stdDev: 2e-311 })).toBe(true);
+    expect(hasDegenerateParameters({ mu: 100, sigma: 5e-324 })).toBe(true);
+    expect(hasDegenerateParameters({ beta: 1.8, eta: 1200 })).toBe(false);
+  });
+});
+
+describe('fitMixedWeibull', () => {
+  const grouped: CensoredData[] = [[50, 15], [80, 15], [900, 10], [1500, 20], [2200, 15]]
+    .map(([time, count]) => ({ time, event: 1 as const, count }));
+
+  // Five rows would fail a per-row minimum of 3 per subpopulation, but they hold 75 failures
+  it('counts units rather than grouped rows', () => {
+    expect(Number.isFinite(fitMixedWeibull(grouped, 2).lkv)).toBe(true);
+  });
+
+  it('ignores rows with a zero count', () => {
+    const withEmpty = [...grouped, { time: 3000, event: 1 as const, count: 0 }];
+    expect(fitMixedWeibull(withEmpty, 2).lkv).toBeCloseTo(fitMixedWeibull(grouped, 2).lkv!, 9);
+    expect(fitMixedWeibull([{ time: 100, event: 1, count: 0 }, ...grouped.slice(0, 1)], 2).lkv).toBe(-Infinity);
+  });
+});
+
+describe('sampleLifetime', () => {
+  // Truncated at zero, the median of N(100, 100) solves Φ((t - 100) / 100) = 1 - Φ(1) / 2
+  it('samples a Normal conditioned on t > 0', () => {
+    expect(sampleLifetime('Normal', { mean: 100, stdDev: 100 }, 0.5)).toBeCloseTo(120.02, 1);
+    expect(sampleLifetime('Normal', { mean: 100, stdDev: 100 }, 1 - 1e-9)).toBeGreaterThan(0);
+  });
+
+  it('inverts the Weibull survival function', () => {
+    expect(sampleLifetime('Weibull', { beta: 2, eta: 100 }, Math.exp(-1))).toBeCloseTo(100, 6);
+  });
+});
+
+describe('renewal function', () => {
+  it('is M(t) = λt for an exponential life', () => {
+    const M = renewalFunctionGrid('Exponential', { lambda: 0.002 }, 1000, 200);
+    M.forEach((m, i) => expect(m).toBeCloseTo(0.002 * 1000 * i / 200, 4));
+  });
+
+  it('budgets n t / η failures with renewals when β = 1, whatever the age', () => {
+    const { details } = calculateExpectedFailures({
+      beta: 1, eta: 500, items: [{ age: 0, quantity: 3 }, { age: 2000, quantity: 2 }], period: 1000, confidenceLevel: 90, data: [], renewals: true,
+    });
+    expect(details[0].median).toBeCloseTo(3 * 1000 / 500, 4);
+    expect(details[1].median).toBeCloseTo(2 * 1000 / 500, 4);
+  });
+});
+
+describe('calculateNonParametricSurvival', () => {
+  it('reduces to the empirical survival 1 - i/n without suspensions', () => {
+    const { steps } = calculateNonParametricSurvival({ failureTimes: [50, 10, 40, 20, 30] });
+    expect(steps.map(s => s.survival)).toEqual([0.8, 0.6, 0.4, 0.2, 0].map(x => expect.closeTo(x, 12)));
+    expect(steps[0].cumulativeHazard).toBeCloseTo(1 / 5, 12);
+    expect(steps[1].cumulativeHazard).toBeCloseTo(1 / 5 + 1 / 4, 12);
+  });
+
+  it('removes suspensions tied with a failure after it', () => {
+    const { steps } = calculateNonParametricSurvival({ failureTimes: [10, 20, 30], suspensionTimes: [20, 25] });
+    expect(steps.map(s => s.atRisk)).toEqual([5, 4, 1]);
+    expect(steps[1].survival).toBeCloseTo(4 / 5 * 3 / 4, 12);
+    expect(steps[2].survival).toBe(0);
+  });
+});
@@ -1,6 +1,6 @@
 // @ts-nocheck - This is a temporary measure to allow for the use of the `jStat` library.
 
-import type { Supplier, ReliabilityData, ChartDataPoint, Distribution, Parameters, GumbelParams, LoglogisticParams, EstimationMethod, EstimateParams, PlotData, LRBoundsResult, ContourData, DistributionAnalysisResult, CensoredData, BudgetInput, ExpectedFailuresResult, CompetingFailureMode, CompetingModesAnalysis, AnalysisTableData, PlotPoint } from './types';
+import type { AssetData, Supplier, WeibullSubpopulation, ReliabilityData, ChartDataPoint, Distribution, Parameters, GumbelParams, LoglogisticParams, EstimationMethod, EstimateParams, PlotData, LRBoundsResult, ContourData, DistributionAnalysisResult, CensoredData, IntervalData, GroupCounts, BoundsSide, BoundedEstimate, FisherMatrixResult, ProfileBoundsResult, RankingRule, NonParametricStep, NonParametricSurvival, SurvivalIntervalMethod, BudgetInput, ExpectedFailuresResult, CompetingFailureMode, CompetingModesAnalysis, AnalysisTableData, PlotPoint } from './types';
 import { medianRankTables } from './median-ranks';
 import { jStat } from 'jstat';
 
@@ -22,7 +22,7 @@ export function invNormalCdf(p: number): number {
   if (p <= 0) return -Infinity;
   if (p >= 1) return Infinity;
   // A&S formula 26.2.23 - very accurate
-  const t = Math.sqrt(-2 * Math.log(1 - p));
+  const t = Math.sqrt(-2 * Math.log(p < 0.5 ? p : 1 - p));
   const c = [2.515517, 0.802853, 0.010328];
   const d = [1.432788, 0.189269, 0.001308];
   let z = t - ((c[2] * t + c[1]) * t + c[0]) / (((d[2] * t + d[1]) * t + d[0]) * t + 1.0);
@@ -95,21 +95,103 @@ export const lognormalSurvival = (t: number, mu: number, sigma: number) => {
 };
 
 
-const weibullPdf = (t: number, beta: number, eta: number) => {
-    if (t < 0 || beta <= 0 || eta <= 0) return 0;
-    return (beta / eta) * Math.pow(t / eta, beta - 1) * Math.exp(-Math.pow(t / eta, beta));
+// gamma is the location parameter (failure-free period) of the 3-parameter Weibull.
+const weibullPdf = (t: number, beta: number, eta: number, gamma: number = 0) => {
+    const x = t - gamma;
+    if (x < 0 || beta <= 0 || eta <= 0) return 0;
+    return (beta / eta) * Math.pow(x / eta, beta - 1) * Math.exp(-Math.pow(x / eta, beta));
 };
 
-export const weibullSurvival = (t: number, beta: number, eta: number) => {
-    if (t < 0 || beta <= 0 || eta <= 0) return 1;
-    return Math.exp(-Math.pow(t / eta, beta));
+export const weibullSurvival = (t: number, beta: number, eta: number, gamma: number = 0) => {
+    const x = t - gamma;
+    if (x < 0 || beta <= 0 || eta <= 0) return 1;
+    return Math.exp(-Math.pow(x / eta, beta));
 };
 
-function weibullCDF(t: number, beta: number, eta: number) {
-  if (t < 0 || beta <= 0 || eta <= 0) return 0;
-  return 1 - Math.exp(-Math.pow(t / eta, beta));
+function weibullCDF(t: number, beta: number, eta: number, gamma: number = 0) {
+  const x = t - gamma;
+  if (x < 0 || beta <= 0 || eta <= 0) return 0;
+  return 1 - Math.exp(-Math.pow(x / eta, beta));
 }
 
+// alpha is the scale parameter, which is also the median life.
+const loglogisticPdf = (t: number, beta: number, alpha: number) => {
+    if (t <= 0 || beta <= 0 || alpha <= 0) return 0;
+    const r = Math.pow(t / alpha, beta);
+    return (beta / t) * r / ((1 + r) * (1 + r));
+};
+
+export const loglogisticSurvival = (t: number, beta: number, alpha: number) => {
+    if (t <= 0 || beta <= 0 || alpha <= 0) return 1;
+    return 1 / (1 + Math.pow(t / alpha, beta));
+};
+
+// Gumbel for maxima (largest extreme value), matching the -ln(-ln F) probability paper.
+const gumbelPdf = (t: number, mu: number, sigma: number) => {
+    if (sigma <= 0) return 0;
+    const z = (t - mu) / sigma;
+    return Math.exp(-z - Math.exp(-z)) / sigma;
+};
+
+const gumbelCdf = (t: number, mu: number, sigma: number) => {
+    if (sigma <= 0) return t < mu ? 0 : 1;
+    return Math.exp(-Math.exp(-(t - mu) / sigma));
+};
+
+export const gumbelSurvival = (t: number, mu: number, sigma: number) => {
+    if (sigma <= 0) return t < mu ? 1 : 0;
+    return -Math.expm1(-Math.exp(-(t - mu) / sigma));
+};
+
+// k is the shape and theta the scale; k = 1 is the exponential.
+const gammaLogPdf = (t: number, k: number, theta: number) => {
+    if (t <= 0 || k <= 0 || theta <= 0) return -Infinity;
+    return (k - 1) * Math.log(t) - t / theta - jStat.gammaln(k) - k * Math.log(theta);
+};
+
+export const gammaSurvival = (t: number, k: number, theta: number) => {
+    if (t <= 0 || k <= 0 || theta <= 0) return 1;
+    return 1 - jStat.lowRegGamma(k, t / theta);
+};
+
+// Generalized gamma (Lawless form) on w = (ln(t) - mu) / sigma with shape q: q = 1 is the
+// Weibull, q = sigma the gamma and q -> 0 the lognormal. Close to zero the incomplete gamma
+// function needs a huge shape, so the lognormal limit is used instead.
+const GENERALIZED_GAMMA_LOGNORMAL_LIMIT = 0.01;
+// Far from zero the likelihood keeps rising on tight data as q grows and sigma collapses
+// towards a point mass, so the fit is kept within |q| <= 10 (incomplete gamma shape >= 0.01).
+const GENERALIZED_GAMMA_Q_LIMIT = 10;
+
+function generalizedGammaStandardCdf(w: number, q: number): number {
+    if (Math.abs(q) < GENERALIZED_GAMMA_LOGNORMAL_LIMIT) return normalCdf(w);
+    const a = 1 / (q * q);
+    const x = a * Math.exp(q * w);
+    const P = x === Infinity ? 1 : jStat.lowRegGamma(a, x);
+    return q > 0 ? P : 1 - P;
+}
+
+function generalizedGammaStandardQuantile(F: number, q: number): number {
+    if (Math.abs(q) < GENERALIZED_GAMMA_LOGNORMAL_LIMIT) return invNormalCdf(F);
+    const a = 1 / (q * q);
+    return Math.log(jStat.gammapinv(q > 0 ? F : 1 - F, a) / a) / q;
+}
+
+const generalizedGammaLogPdf = (t: number, mu: number, sigma: number, q: number) => {
+    if (t <= 0 || sigma <= 0) return -Infinity;
+    const w = (Math.log(t) - mu) / sigma;
+    if (Math.abs(q) < GENERALIZED_GAMMA_LOGNORMAL_LIMIT) {
+        return -0.5 * w * w - 0.5 * Math.log(2 * Math.PI) - Math.log(sigma) - Math.log(t);
+    }
+    const a = 1 / (q * q);
+    return Math.log(Math.abs(q)) - Math.log(sigma) - Math.log(t) - jStat.gammaln(a) + a * (Math.log(a) + q * w) - a * Math.exp(q * w);
+};
+
+export const generalizedGammaSurvival = (t: number, mu: number, sigma: number, q: number) => {
+    if (t <= 0) return 1;
+    if (sigma <= 0) return Math.log(t) < mu ? 1 : 0;
+    return 1 - generalizedGammaStandardCdf((Math.log(t) - mu) / sigma, q);
+};
+
 
 export const generateWeibullFailureTime = (beta: number, eta: number): number => {
   const u = Math.random();
@@ -119,16 +201,19 @@ export const generateWeibullFailureTime = (beta: number, eta: number): number =>
 
 // --- Parameter Estimation ---
 
-function performLinearRegression(points: {x: number, y: number}[], regressOnX: boolean = false) {
+// Points may carry a weight (grouped data); unweighted points count once.
+export function performLinearRegression(points: {x: number, y: number, weight?: number}[], regressOnX: boolean = false) {
     if (points.length < 2) return null;
 
-    let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0, sumYY = 0, N = points.length;
+    let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0, sumYY = 0, N = 0;
     points.forEach(p => {
-        sumX += p.x;
-        sumY += p.y;
-        sumXY += p.x * p.y;
-        sumXX += p.x * p.x;
-        sumYY += p.y * p.y;
+        const w = p.weight ?? 1;
+        N += w;
+        sumX += w * p.x;
+        sumY += w * p.y;
+        sumXY += w * p.x * p.y;
+        sumXX += w * p.x * p.x;
+        sumYY += w * p.y * p.y;
     });
     
     let slope: number;
@@ -172,30 +257,41 @@ type AnalysisResult = {
     params: Parameters
 }
 
-function calculateAdjustedRanks(failureTimes: number[], suspensionTimes: number[]): { time: number; prob: number; }[] {
-    const allEvents: CensoredData[] = [
-        ...failureTimes.map(t => ({ time: t, event: 1 as const })),
-        ...suspensionTimes.map(t => ({ time: t, event: 0 as const }))
+type RankedPoint = { time: number; prob: number; weight?: number };
+
+function calculateAdjustedRanks(failureTimes: number[], suspensionTimes: number[], counts: GroupCounts = {}): RankedPoint[] {
+    const groupTies = counts.failureCounts !== undefined;
+    const allEvents: Required<Pick<CensoredData, 'time' | 'event' | 'count'>>[] = [
+        ...failureTimes.map((t, i) => ({ time: t, event: 1 as const, count: counts.failureCounts?.[i] ?? 1 })),
+        ...suspensionTimes.map((t, i) => ({ time: t, event: 0 as const, count: counts.suspensionCounts?.[i] ?? 1 }))
     ].sort((a, b) => a.time - b.time);
 
     let n = allEvents.length;
     if (n === 0) return [];
     
-    const failurePoints: { time: number, prob: number }[] = [];
+    const failurePoints: RankedPoint[] = [];
     let cumulativeReliability = 1.0;
-    let itemsAtRisk = n;
+    let itemsAtRisk = allEvents.reduce((sum, e) => sum + e.count, 0);
 
     for (let i = 0; i < n; ) {
         const t = allEvents[i].time;
         let failuresAtT = 0;
+        let suspensionsAtT = 0;
         
         let j = i;
         while(j < n && allEvents[j].time === t) {
-            if (allEvents[j].event === 1) failuresAtT++;
+            if (allEvents[j].event === 1) failuresAtT += allEvents[j].count;
+            else suspensionsAtT += allEvents[j].count;
             j++;
         }
         
-        if (failuresAtT > 0) {
+        if (failuresAtT > 0 && groupTies) {
+            // One weighted point per tied group, at the mean of its individual Kaplan-Meier ranks
+            const meanStep = 1 - (failuresAtT + 1) / (2 * itemsAtRisk);
+            failurePoints.push({ time: t, prob: 1 - cumulativeReliability * meanStep, weight: failuresAtT });
+            cumulativeReliability *= (itemsAtRisk - failuresAtT) / itemsAtRisk;
+            itemsAtRisk -= failuresAtT;
+        } else if (failuresAtT > 0) {
             for (let k = 0; k < failuresAtT; k++) {
                  // Kaplan-Meier Product-Limit Estimator for individual failure points
                 const reliabilityAtPoint = (itemsAtRisk - 1) / itemsAtRisk;
@@ -205,14 +301,8 @@ function calculateAdjustedRanks(failureTimes: number[], suspensionTimes: number[
             }
         }
         
-        // Handle suspensions at time t
-        let suspensionsAtT = 0;
-        let k = i + failuresAtT;
-        while(k < n && allEvents[k].time === t && allEvents[k].event === 0) {
-            suspensionsAtT++;
-            itemsAtRisk--;
-            k++;
-        }
+        // Suspensions at time t leave the risk set after the failures
+        itemsAtRisk -= suspensionsAtT;
 
         i = j;
     }
@@ -220,23 +310,44 @@ function calculateAdjustedRanks(failureTimes: number[], suspensionTimes: number[
     return failurePoints.sort((a, b) => a.time - b.time);
 }
 
+// Merges repeated failure times of grouped data and ranks each group at its mean order number.
+function calculateGroupedMedianRanks(failureTimes: number[], failureCounts: number[]): RankedPoint[] {
+    const groups = new Map<number, number>();
+    failureTimes.forEach((time, i) => groups.set(time, (groups.get(time) ?? 0) + (failureCounts[i] ?? 1)));
+    const n = Array.from(groups.values()).reduce((sum, c) => sum + c, 0);
+
+    let order = 0;
+    return Array.from(groups.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([time, count]) => {
+            const meanOrder = order + (count + 1) / 2;
+            order += count;
+            return { time, prob: (meanOrder - 0.3) / (n + 0.4), weight: count }; // Benard's approximation
+        });
+}
+
 
 
 export function estimateParametersByRankRegression(
     dist: Distribution,
     failureTimes: number[],
     suspensionTimes: number[] = [],
-    method: 'SRM' | 'RRX'
+    method: 'SRM' | 'RRX',
+    gamma: number = 0,
+    counts: GroupCounts = {},
+    shape?: number // Gamma (k) and Generalized Gamma (q): the paper is drawn for a fixed shape
 ): AnalysisResult | null {
     
     const hasSuspensions = suspensionTimes.length > 0;
     const sortedFailures = [...failureTimes].sort((a, b) => a - b);
     const n = hasSuspensions ? failureTimes.length + suspensionTimes.length : failureTimes.length;
     
-    let rankedPoints: {time: number, prob: number}[];
+    let rankedPoints: RankedPoint[];
 
     if (hasSuspensions) {
-        rankedPoints = calculateAdjustedRanks(failureTimes, suspensionTimes);
+        rankedPoints = calculateAdjustedRanks(failureTimes, suspensionTimes, counts);
+    } else if (counts.failureCounts) {
+        rankedPoints = calculateGroupedMedianRanks(failureTimes, counts.failureCounts);
     } else {
         const rankTable = medianRankTables.find(t => t.sampleSize === n)?.data;
         if (!rankTable) { // Fallback for larger sample sizes
@@ -254,14 +365,16 @@ export function estimateParametersByRankRegression(
 
     if (rankedPoints.length === 0) return null;
 
-    let transformedPoints: { x: number; y: number; time: number; prob: number; }[] = [];
+    let transformedPoints: { x: number; y: number; time: number; prob: number; weight?: number; }[] = [];
     for (const point of rankedPoints) {
-        if (point.time <= 0 || point.prob <= 0 || point.prob >= 1) continue;
+        // Only the Weibull plot is shifted by the location parameter
+        const time = dist === 'Weibull' ? point.time - gamma : point.time;
+        if (time <= 0 || point.prob <= 0 || point.prob >= 1) continue;
 
         let x: number, y: number;
         switch(dist) {
             case 'Weibull':
-                x = Math.log(point.time);
+                x = Math.log(time);
                 y = Math.log(Math.log(1 / (1 - point.prob)));
                 break;
             case 'Lognormal':
@@ -284,12 +397,22 @@ export function estimateParametersByRankRegression(
                 x = point.time;
                 y = -Math.log(-Math.log(point.prob));
                 break;
+            case 'Gamma':
+                if (shape == null) return null;
+                x = Math.log(point.time);
+                y = Math.log(jStat.gammapinv(point.prob, shape));
+                break;
+            case 'GeneralizedGamma':
+                if (shape == null) return null;
+                x = Math.log(point.time);
+                y = generalizedGammaStandardQuantile(point.prob, shape);
+                break;
             default:
                 return null;
         }
 
         if(isFinite(x) && isFinite(y)) {
-            transformedPoints.push({ x, y, time: point.time, prob: point.prob });
+            transformedPoints.push({ x, y, time: point.time, prob: point.prob, ...(point.weight !== undefined && { weight: point.weight }) });
         }
     }
 
@@ -305,6 +428,7 @@ export function estimateParametersByRankRegression(
     switch(dist) {
         case 'Weibull':
             params = { beta: slope, eta: Math.exp(-intercept / slope), rho: rSquared };
+            if (gamma > 0) params.gamma = gamma;
             break;
         case 'Lognormal':
             params = { stdDev: 1 / slope, mean: -intercept / slope, rho: rSquared };
@@ -321,6 +445,13 @@ export function estimateParametersByRankRegression(
         case 'Gumbel':
             params = { sigma: 1 / slope, mu: -intercept / slope, rho: rSquared };
             break;
+        case 'Gamma':
+            // The paper has unit slope when k is right, so theta comes from where the line crosses x = y
+            params = { k: shape, theta: Math.exp(-intercept / slope), rho: rSquared };
+            break;
+        case 'GeneralizedGamma':
+            params = { mu: -intercept / slope, sigma: 1 / slope, q: shape, rho: rSquared };
+            break;
     }
 
     const minX = Math.min(...transformedPoints.map(p => p.x));
@@ -344,14 +475,105 @@ export function estimateParametersByRankRegression(
 }
 
 
-function isFiniteNumber(x: any): x is number {
+/* -----------------------
+   Three-Parameter Weibull (location / gamma)
+   ----------------------- */
+
+// Coarse grid scan followed by golden-section refinement around the best cell.
+function maximizeOnInterval(func: (x: number) => number, a: number, b: number, gridPoints: number = 30): number {
+    if (!(b > a)) return a;
+    const step = (b - a) / gridPoints;
+    let bestX = a;
+    let bestF = -Infinity;
+    for (let i = 0; i <= gridPoints; i++) {
+        const x = a + i * step;
+        const fx = func(x);
+        if (fx > bestF) { bestF = fx; bestX = x; }
+    }
+
+    let lo = Math.max(a, bestX - step);
+    let hi = Math.min(b, bestX + step);
+    const phi = (Math.sqrt(5) - 1) / 2;
+    let x1 = hi - phi * (hi - lo);
+    let x2 = lo + phi * (hi - lo);
+    let f1 = func(x1);
+    let f2 = func(x2);
+    for (let iter = 0; iter < 40 && hi - lo > 1e-6 * (Math.abs(bestX) + 1); iter++) {
+        if (f1 > f2) {
+            hi = x2; x2 = x1; f2 = f1;
+            x1 = hi - phi * (hi - lo); f1 = func(x1);
+        } else {
+            lo = x1; x1 = x2; f1 = f2;
+            x2 = lo + phi * (hi - lo); f2 = func(x2);
+        }
+    }
+    const xMid = (lo + hi) / 2;
+    return func(xMid) >= bestF ? xMid : bestX;
+}
+
+// Upper bound for gamma: the first failure. The Weibull likelihood is unbounded as
+// gamma approaches it when beta < 1, so the search stops slightly short of it.
+const GAMMA_SEARCH_LIMIT = 0.99;
+
+function estimateWeibull3PByRankRegression(
+    failureTimes: number[],
+    suspensionTimes: number[] = [],
+    method: 'SRM' | 'RRX',
+    counts: GroupCounts = {}
+): AnalysisResult | null {
+    if (failureTimes.length < 3) return null;
+    const gammaMax = Math.min(...failureTimes) * GAMMA_SEARCH_LIMIT;
+
+    const fit = (gamma: number) => estimateParametersByRankRegression('Weibull', failureTimes, suspensionTimes, method, gamma, counts);
+    const gamma = maximizeOnInterval(g => fit(g)?.plotData.rSquared ?? -Infinity, 0, gammaMax);
+    return fit(gamma);
+}
+
+/* -----------------------
+   Gamma and Generalized Gamma (shape)
+   ----------------------- */
+
+// These shapes have no probability paper of their own, so rank regression searches for the
+// shape whose paper fits best: for the Gamma, ln(t) against ln(Q(F; k)) has unit slope
+// (k = 1 is the Weibull paper), and the Generalized Gamma takes the straightest plot, as
+// the Weibull location parameter does.
+const SHAPE_SEARCH: Partial<Record<Distribution, { from: number; to: number; toShape: (v: number) => number; score: (r: AnalysisResult) => number }>> = {
+    Gamma: {
+        from: Math.log(0.05), to: Math.log(50), toShape: v => Math.exp(v),
+        score: r => -Math.abs(Math.tan(r.plotData.angle * Math.PI / 180) - 1),
+    },
+    GeneralizedGamma: { from: -3, to: 3, toShape: v => v, score: r => r.plotData.rSquared },
+};
+
+const shapeParameter = (dist: Distribution, params: Parameters) =>
+    dist === 'Gamma' ? params.k : dist === 'GeneralizedGamma' ? params.q : undefined;
+
+function estimateShapeByRankRegression(
+    dist: Distribution,
+    failureTimes: number[],
+    suspensionTimes: number[] = [],
+    method: 'SRM' | 'RRX',
+    counts: GroupCounts = {}
+): AnalysisResult | null {
+    const search = SHAPE_SEARCH[dist];
+    if (!search) return null;
+
+    const fit = (v: number) => estimateParametersByRankRegression(dist, failureTimes, suspensionTimes, method, 0, counts, search.toShape(v));
+    const v = maximizeOnInterval(x => {
+        const result = fit(x);
+        return result ? search.score(result) : -Infinity;
+    }, search.from, search.to);
+    return fit(v);
+}
+
+export function isFiniteNumber(x: any): x is number {
     return typeof x === "number" && isFinite(x);
 }
 
 /* -----------------------
    Nelder-Mead implementation (simple)
    ----------------------- */
-function nelderMead(func: (x: number[]) => number, x0: number[], options: { maxIter?: number; tol?: number; scale?: number } = {}) {
+export function nelderMead(func: (x: number[]) => number, x0: number[], options: { maxIter?: number; tol?: number; scale?: number } = {}) {
     const maxIter = options.maxIter || 2000;
     const tol = options.tol || 1e-9;
     const alpha = 1, gamma = 2, rho = 0.5, sigma = 0.5;
@@ -425,14 +647,19 @@ function negLogLikLognormal(params: number[], data: CensoredData[]): number {
 
     let nll = 0;
     for (const d of data) {
-        if (d.event === 1) { // Failure
+        const w = d.count ?? 1;
+        if (d.lower !== undefined) { // Interval / left-censored: F(b) - F(a)
+            const P = (d.lower > 0 ? lognormalSurvival(d.lower, mu, sigma) : 1) - lognormalSurvival(d.time, mu, sigma);
+            if (!isFinite(P) || P <= 0) return 1e300;
+            nll -= w * Math.log(P);
+        } else if (d.event === 1) { // Failure
             const pdf = lognormalPdf(d.time, mu, sigma);
             if (!isFinite(pdf) || pdf <= 0) return 1e300;
-            nll -= Math.log(pdf);
+            nll -= w * Math.log(pdf);
         } else { // Censored
             const S = lognormalSurvival(d.time, mu, sigma);
             if (!isFinite(S) || S <= 0) return 1e300;
-            nll -= Math.log(S);
+            nll -= w * Math.log(S);
         }
     }
     return nll;
@@ -445,14 +672,173 @@ function negLogLikWeibull(params: number[], data: CensoredData[]): number {
     
     let nll = 0;
     for (const d of data) {
-        if (d.event === 1) { // Failure
+        const w = d.count ?? 1;
+        if (d.lower !== undefined) { // Interval / left-censored: F(b) - F(a)
+            const P = (d.lower > 0 ? weibullSurvival(d.lower, beta, eta) : 1) - weibullSurvival(d.time, beta, eta);
+            if (!isFinite(P) || P <= 0) return 1e300;
+            nll -= w * Math.log(P);
+        } else if (d.event === 1) { // Failure
             const pdf = weibullPdf(d.time, beta, eta);
             if (!isFinite(pdf) || pdf <= 0) return 1e300;
-            nll -= Math.log(pdf);
+            nll -= w * Math.log(pdf);
         } else { // Censored
             const S = weibullSurvival(d.time, beta, eta);
             if (!isFinite(S) || S <= 0) return 1e300;
-            nll -= Math.log(S);
+            nll -= w * Math.log(S);
+        }
+    }
+    return nll;
+}
+
+function negLogLikNormal(params: number[], data: CensoredData[]): number {
+    const mu = params[0];
+    const sigma = Math.exp(params[1]); // Enforce positivity
+    if (!isFiniteNumber(mu) || !isFiniteNumber(sigma) || sigma <= 0) return 1e300;
+
+    let nll = 0;
+    for (const d of data) {
+        const w = d.count ?? 1;
+        if (d.lower !== undefined) { // Interval / left-censored: F(b) - F(a)
+            const P = normalCdf(d.time, mu, sigma) - (d.lower > 0 ? normalCdf(d.lower, mu, sigma) : 0);
+            if (!isFinite(P) || P <= 0) return 1e300;
+            nll -= w * Math.log(P);
+        } else if (d.event === 1) { // Failure
+            const pdf = normalPdf(d.time, mu, sigma);
+            if (!isFinite(pdf) || pdf <= 0) return 1e300;
+            nll -= w * Math.log(pdf);
+        } else { // Censored
+            const S = 1 - normalCdf(d.time, mu, sigma);
+            if (!isFinite(S) || S <= 0) return 1e300;
+            nll -= w * Math.log(S);
+        }
+    }
+    return nll;
+}
+
+function negLogLikExponential(params: number[], data: CensoredData[]): number {
+    const lambda = Math.exp(params[0]); // Enforce positivity
+    if (!isFiniteNumber(lambda) || lambda <= 0) return 1e300;
+
+    let nll = 0;
+    for (const d of data) {
+        const w = d.count ?? 1;
+        if (d.lower !== undefined) { // Interval / left-censored: F(b) - F(a)
+            const P = Math.exp(-lambda * d.lower) - Math.exp(-lambda * d.time);
+            if (!isFinite(P) || P <= 0) return 1e300;
+            nll -= w * Math.log(P);
+        } else if (d.event === 1) { // Failure
+            nll -= w * (Math.log(lambda) - lambda * d.time);
+        } else { // Censored
+            nll += w * lambda * d.time;
+        }
+    }
+    return nll;
+}
+
+function negLogLikLoglogistic(params: number[], data: CensoredData[]): number {
+    const beta = Math.exp(params[0]); // shape
+    const alpha = Math.exp(params[1]); // scale
+    if (!isFiniteNumber(beta) || !isFiniteNumber(alpha) || beta <= 0 || alpha <= 0) return 1e300;
+
+    let nll = 0;
+    for (const d of data) {
+        const w = d.count ?? 1;
+        if (d.lower !== undefined) { // Interval / left-censored: F(b) - F(a)
+            const P = (d.lower > 0 ? loglogisticSurvival(d.lower, beta, alpha) : 1) - loglogisticSurvival(d.time, beta, alpha);
+            if (!isFinite(P) || P <= 0) return 1e300;
+            nll -= w * Math.log(P);
+        } else if (d.event === 1) { // Failure
+            const pdf = loglogisticPdf(d.time, beta, alpha);
+            if (!isFinite(pdf) || pdf <= 0) return 1e300;
+            nll -= w * Math.log(pdf);
+        } else { // Censored
+            const S = loglogisticSurvival(d.time, beta, alpha);
+            if (!isFinite(S) || S <= 0) return 1e300;
+            nll -= w * Math.log(S);
+        }
+    }
+    return nll;
+}
+
+function negLogLikGumbel(params: number[], data: CensoredData[]): number {
+    const mu = params[0];
+    const sigma = Math.exp(params[1]); // Enforce positivity
+    if (!isFiniteNumber(mu) || !isFiniteNumber(sigma) || sigma <= 0) return 1e300;
+
+    let nll = 0;
+    for (const d of data) {
+        const w = d.count ?? 1;
+        if (d.lower !== undefined) { // Interval / left-censored: F(b) - F(a)
+            const P = gumbelCdf(d.time, mu, sigma) - (d.lower > 0 ? gumbelCdf(d.lower, mu, sigma) : 0);
+            if (!isFinite(P) || P <= 0) return 1e300;
+            nll -= w * Math.log(P);
+        } else if (d.event === 1) { // Failure, log f(t) = -ln(sigma) - z - exp(-z)
+            const z = (d.time - mu) / sigma;
+            const logPdf = -Math.log(sigma) - z - Math.exp(-z);
+            if (!isFinite(logPdf)) return 1e300;
+            nll -= w * logPdf;
+        } else { // Censored
+            const S = gumbelSurvival(d.time, mu, sigma);
+            if (!isFinite(S) || S <= 0) return 1e300;
+            nll -= w * Math.log(S);
+        }
+    }
+    return nll;
+}
+
+// The incomplete gamma function takes time linear in the shape, and tied or very tight failures
+// drive k without limit, so the fit is kept within 1e-4 <= k <= 1e4 (the same range as the
+// Generalized Gamma away from its lognormal limit).
+const GAMMA_SHAPE_LIMIT = 1e4;
+
+function negLogLikGamma(params: number[], data: CensoredData[]): number {
+    const k = Math.exp(params[0]); // shape
+    const theta = Math.exp(params[1]); // scale
+    if (!isFiniteNumber(k) || !isFiniteNumber(theta) || k <= 0 || theta <= 0) return 1e300;
+    if (Math.abs(params[0]) > Math.log(GAMMA_SHAPE_LIMIT)) return 1e300;
+
+    let nll = 0;
+    for (const d of data) {
+        const w = d.count ?? 1;
+        if (d.lower !== undefined) { // Interval / left-censored: F(b) - F(a)
+            const P = (d.lower > 0 ? gammaSurvival(d.lower, k, theta) : 1) - gammaSurvival(d.time, k, theta);
+            if (!isFinite(P) || P <= 0) return 1e300;
+            nll -= w * Math.log(P);
+        } else if (d.event === 1) { // Failure
+            const logPdf = gammaLogPdf(d.time, k, theta);
+            if (!isFinite(logPdf)) return 1e300;
+            nll -= w * logPdf;
+        } else { // Censored
+            const S = gammaSurvival(d.time, k, theta);
+            if (!isFinite(S) || S <= 0) return 1e300;
+            nll -= w * Math.log(S);
+        }
+    }
+    return nll;
+}
+
+function negLogLikGeneralizedGamma(params: number[], data: CensoredData[]): number {
+    const mu = params[0];
+    const sigma = Math.exp(params[1]); // Enforce positivity
+    const q = params[2];
+    if (!isFiniteNumber(mu) || !isFiniteNumber(sigma) || !isFiniteNumber(q) || sigma <= 0) return 1e300;
+    if (Math.abs(q) > GENERALIZED_GAMMA_Q_LIMIT) return 1e300;
+
+    let nll = 0;
+    for (const d of data) {
+        const w = d.count ?? 1;
+        if (d.lower !== undefined) { // Interval / left-censored: F(b) - F(a)
+            const P = (d.lower > 0 ? generalizedGammaSurvival(d.lower, mu, sigma, q) : 1) - generalizedGammaSurvival(d.time, mu, sigma, q);
+            if (!isFinite(P) || P <= 0) return 1e300;
+            nll -= w * Math.log(P);
+        } else if (d.event === 1) { // Failure
+            const logPdf = generalizedGammaLogPdf(d.time, mu, sigma, q);
+            if (!isFinite(logPdf)) return 1e300;
+            nll -= w * logPdf;
+        } else { // Censored
+            const S = generalizedGammaSurvival(d.time, mu, sigma, q);
+            if (!isFinite(S) || S <= 0) return 1e300;
+            nll -= w * Math.log(S);
         }
     }
     return nll;
@@ -487,66 +873,754 @@ export function fitWeibullMLE(data: CensoredData[]): Parameters {
     return { beta: k, eta: lambda, lkv: -res.fx };
 }
 
+export function fitWeibull3PMLE(data: CensoredData[]): Parameters {
+    const failures = data.filter(d => d.event === 1).map(d => d.time);
+    if (failures.length < 3) return { lkv: -Infinity };
+    const gammaMax = Math.min(...failures) * GAMMA_SEARCH_LIMIT;
+
+    // Profile likelihood: for each gamma, fit the 2-parameter model on the shifted times
+    const fitShifted = (gamma: number) => fitWeibullMLE(shiftByGamma(data, gamma));
+    const gamma = maximizeOnInterval(g => fitShifted(g).lkv ?? -Infinity, 0, gammaMax);
+    return { ...fitShifted(gamma), gamma };
+}
+
 function estimateNormalMLE(data: CensoredData[]): Parameters {
     const failures = data.filter(d => d.event === 1).map(d => d.time);
     if (failures.length === 0) return { lkv: -Infinity };
-    const mean = failures.reduce((a, b) => a + b, 0) / failures.length;
-    const stdDev = Math.sqrt(failures.reduce((a, b) => a + (b - mean) ** 2, 0) / (failures.length > 1 ? failures.length - 1 : 1));
-    let lkv = 0;
+    const mean0 = failures.reduce((a, b) => a + b, 0) / failures.length;
+    const sd0 = Math.sqrt(failures.reduce((a, b) => a + (b - mean0) ** 2, 0) / (failures.length > 1 ? failures.length - 1 : 1));
+    const x0 = [mean0, Math.log(sd0 > 0 ? sd0 : 1)];
+
+    const res = nelderMead(params => negLogLikNormal(params, data), x0, { maxIter: 2000, tol: 1e-9 });
+    if (!isFinite(res.fx) || res.fx >= 1e300) return { lkv: -Infinity };
+    return { mean: res.x[0], stdDev: Math.exp(res.x[1]), lkv: -res.fx };
+}
+
+
+function estimateExponentialMLE(data: CensoredData[]): Parameters {
+    const failureCount = data.filter(d => d.event === 1).reduce((a, d) => a + (d.count ?? 1), 0);
+    if (failureCount === 0) return { lambda: undefined, lkv: -Infinity };
+    
+    const sumOfTimes = data.reduce((a, d) => a + (d.count ?? 1) * d.time, 0);
+    const lambda = failureCount / sumOfTimes;
+    
+    if (!data.some(d => d.lower !== undefined)) {
+        const lkv = failureCount * Math.log(lambda) - lambda * sumOfTimes;
+        return { lambda, lkv };
+    }
+
+    // No closed form with interval data; the exact-data estimate is the starting point
+    const res = nelderMead(params => negLogLikExponential(params, data), [Math.log(lambda)], { maxIter: 2000, tol: 1e-12 });
+    return { lambda: Math.exp(res.x[0]), lkv: -res.fx };
+}
+
+function fitLoglogisticMLE(data: CensoredData[]): Parameters {
+    const failures = data.filter(d => d.event === 1).map(d => Math.log(d.time));
+    if (failures.length === 0) return { lkv: -Infinity };
+
+    // ln(t) is logistic with location ln(alpha) and scale 1/beta
+    const mu0 = failures.reduce((s, v) => s + v, 0) / failures.length;
+    const sd0 = Math.sqrt(failures.reduce((s, v) => s + (v - mu0) ** 2, 0) / (failures.length > 1 ? failures.length - 1 : 1));
+    const beta0 = sd0 > 0 ? Math.PI / (Math.sqrt(3) * sd0) : 1;
+    const x0 = [Math.log(beta0), mu0];
+
+    const res = nelderMead(params => negLogLikLoglogistic(params, data), x0, { maxIter: 2000, tol: 1e-9 });
+    if (!isFinite(res.fx) || res.fx >= 1e300) return { lkv: -Infinity };
+    return { beta: Math.exp(res.x[0]), alpha: Math.exp(res.x[1]), lkv: -res.fx };
+}
+
+function fitGumbelMLE(data: CensoredData[]): Parameters {
+    const failures = data.filter(d => d.event === 1).map(d => d.time);
+    if (new Set(failures).size < 2) return { lkv: -Infinity };
+
+    // Method of moments: sd = sigma * pi / sqrt(6), mean = mu + 0.5772 * sigma
+    const mean0 = failures.reduce((a, b) => a + b, 0) / failures.length;
+    const sd0 = Math.sqrt(failures.reduce((a, b) => a + (b - mean0) ** 2, 0) / (failures.length > 1 ? failures.length - 1 : 1));
+    const sigma0 = sd0 > 0 ? sd0 * Math.sqrt(6) / Math.PI : Math.abs(mean0) || 1;
+    const x0 = [mean0 - 0.5772 * sigma0, Math.log(sigma0)];
+
+    const res = nelderMead(params => negLogLikGumbel(params, data), x0, { maxIter: 2000, tol: 1e-9 });
+    if (!isFinite(res.fx) || res.fx >= 1e300) return { lkv: -Infinity };
+    return { mu: res.x[0], sigma: Math.exp(res.x[1]), lkv: -res.fx };
+}
+
+function fitGammaMLE(data: CensoredData[]): Parameters {
+    const failures = data.filter(d => d.event === 1).map(d => d.time);
+    if (new Set(failures).size < 2) return { lkv: -Infinity };
+
+    // Method of moments: mean = k * theta, variance = k * theta^2
+    const mean0 = failures.reduce((a, b) => a + b, 0) / failures.length;
+    const var0 = failures.reduce((a, b) => a + (b - mean0) ** 2, 0) / (failures.length > 1 ? failures.length - 1 : 1);
+    const k0 = Math.min(var0 > 0 ? mean0 * mean0 / var0 : 1, GAMMA_SHAPE_LIMIT / 2);
+    const x0 = [Math.log(k0), Math.log(mean0 / k0)];
+
+    const res = nelderMead(params => negLogLikGamma(params, data), x0, { maxIter: 2000, tol: 1e-9 });
+    if (!isFinite(res.fx) || res.fx >= 1e300) return { lkv: -Infinity };
+    return { k: Math.exp(res.x[0]), theta: Math.exp(res.x[1]), lkv: -res.fx };
+}
+
+// Started from both the lognormal (q = 0) and the Weibull (q = 1) fits, keeping the better
+// optimum, so the result is never worse than either special case.
+function fitGeneralizedGammaMLE(data: CensoredData[]): Parameters {
+    const failures = data.filter(d => d.event === 1);
+    if (failures.length < 3) return { lkv: -Infinity };
+
+    const starts: number[][] = [];
+    const lognormal = fitLognormalMLE(data);
+    if (isFiniteNumber(lognormal.lkv)) starts.push([lognormal.mean, Math.log(lognormal.stdDev), 0]);
+    const weibull = fitWeibullMLE(data);
+    if (isFiniteNumber(weibull.lkv)) starts.push([Math.log(weibull.eta), -Math.log(weibull.beta), 1]);
+
+    let best: { x: number[]; fx: number } | null = null;
+    for (const x0 of starts) {
+        const res = nelderMead(params => negLogLikGeneralizedGamma(params, data), x0, { maxIter: 3000, tol: 1e-10 });
+        if (!best || res.fx < best.fx) best = res;
+    }
+    if (!best || !isFinite(best.fx) || best.fx >= 1e300) return { lkv: -Infinity };
+    return { mu: best.x[0], sigma: Math.exp(best.x[1]), q: best.x[2], lkv: -best.fx };
+}
+
+/* -----------------------
+   Fisher Matrix Bounds (observed information)
+   ----------------------- */
+
+type MLEModel = {
+    nll: (x: number[], data: CensoredData[]) => number;
+    paramNames: string[];
+    logScale: boolean[]; // parameters the NLL takes on the log scale
+    toInternal: (p: Parameters) => number[];
+    fromInternal: (x: number[]) => Parameters;
+    // F(t) on the linear scale of the probability paper, and back
+    linearCdf: (p: Parameters, t: number) => number;
+    cdfFromLinear: (u: number) => number;
+    linearFromCdf: (F: number) => number;
+    quantile: (p: Parameters, prob: number) => number;
+    positiveSupport: boolean;
+    fit: (data: CensoredData[]) => Parameters;
+    // Profile likelihood: `free` holds the remaining internal parameters, and the
+    // constrained one is solved so that linearCdf(t) = u
+    freeParams: (theta: number[]) => number[];
+    constrain: (free: number[], t: number, u: number) => number[];
+};
+
+const smallestExtremeCdf = (u: number) => 1 - Math.exp(-Math.exp(u));
+const smallestExtremeLinear = (F: number) => Math.log(-Math.log(1 - F));
+
+const MLE_MODELS: Partial<Record<Distribution, MLEModel>> = {
+    Weibull: {
+        nll: negLogLikWeibull,
+        paramNames: ['beta', 'eta'],
+        logScale: [true, true],
+        toInternal: p => [Math.log(p.beta), Math.log(p.eta)],
+        fromInternal: x => ({ beta: Math.exp(x[0]), eta: Math.exp(x[1]) }),
+        linearCdf: (p, t) => p.beta * (Math.log(t - (p.gamma ?? 0)) - Math.log(p.eta)),
+        cdfFromLinear: smallestExtremeCdf,
+        linearFromCdf: smallestExtremeLinear,
+        quantile: (p, prob) => (p.gamma ?? 0) + p.eta * Math.pow(-Math.log(1 - prob), 1 / p.beta),
+        positiveSupport: true,
+        fit: fitWeibullMLE,
+        freeParams: x => [x[0]],
+        constrain: ([logBeta], t, u) => [logBeta, Math.log(t) - u / Math.exp(logBeta)],
+    },
+    Lognormal: {
+        nll: negLogLikLognormal,
+        paramNames: ['mean', 'stdDev'],
+        logScale: [false, true],
+        toInternal: p => [p.mean, Math.log(p.stdDev)],
+        fromInternal: x => ({ mean: x[0], stdDev: Math.exp(x[1]) }),
+        linearCdf: (p, t) => (Math.log(t) - p.mean) / p.stdDev,
+        cdfFromLinear: u => normalCdf(u),
+        linearFromCdf: F => invNormalCdf(F),
+        quantile: (p, prob) => Math.exp(p.mean + p.stdDev * invNormalCdf(prob)),
+        positiveSupport: true,
+        fit: fitLognormalMLE,
+        freeParams: x => [x[1]],
+        constrain: ([logSigma], t, u) => [Math.log(t) - u * Math.exp(logSigma), logSigma],
+    },
+    Normal: {
+        nll: negLogLikNormal,
+        paramNames: ['mean', 'stdDev'],
+        logScale: [false, true],
+        toInternal: p => [p.mean, Math.log(p.stdDev)],
+        fromInternal: x => ({ mean: x[0], stdDev: Math.exp(x[1]) }),
+        linearCdf: (p, t) => (t - p.mean) / p.stdDev,
+        cdfFromLinear: u => normalCdf(u),
+        linearFromCdf: F => invNormalCdf(F),
+        quantile: (p, prob) => p.mean + p.stdDev * invNormalCdf(prob),
+        positiveSupport: false,
+        fit: estimateNormalMLE,
+        freeParams: x => [x[1]],
+        constrain: ([logSigma], t, u) => [t - u * Math.exp(logSigma), logSigma],
+    },
+    Exponential: {
+        nll: negLogLikExponential,
+        paramNames: ['lambda'],
+        logScale: [true],
+        toInternal: p => [Math.log(p.lambda)],
+        fromInternal: x => ({ lambda: Math.exp(x[0]) }),
+        linearCdf: (p, t) => Math.log(p.lambda * t),
+        cdfFromLinear: smallestExtremeCdf,
+        linearFromCdf: smallestExtremeLinear,
+        quantile: (p, prob) => -Math.log(1 - prob) / p.lambda,
+        positiveSupport: true,
+        fit: estimateExponentialMLE,
+        freeParams: () => [],
+        constrain: (_, t, u) => [u - Math.log(t)],
+    },
+    Loglogistic: {
+        nll: negLogLikLoglogistic,
+        paramNames: ['beta', 'alpha'],
+        logScale: [true, true],
+        toInternal: p => [Math.log(p.beta), Math.log(p.alpha)],
+        fromInternal: x => ({ beta: Math.exp(x[0]), alpha: Math.exp(x[1]) }),
+        linearCdf: (p, t) => p.beta * (Math.log(t) - Math.log(p.alpha)),
+        cdfFromLinear: u => 1 / (1 + Math.exp(-u)),
+        linearFromCdf: F => Math.log(F / (1 - F)),
+        quantile: (p, prob) => p.alpha * Math.pow(prob / (1 - prob), 1 / p.beta),
+        positiveSupport: true,
+        fit: fitLoglogisticMLE,
+        freeParams: x => [x[0]],
+        constrain: ([logBeta], t, u) => [logBeta, Math.log(t) - u / Math.exp(logBeta)],
+    },
+    Gumbel: {
+        nll: negLogLikGumbel,
+        paramNames: ['mu', 'sigma'],
+        logScale: [false, true],
+        toInternal: p => [p.mu, Math.log(p.sigma)],
+        fromInternal: x => ({ mu: x[0], sigma: Math.exp(x[1]) }),
+        linearCdf: (p, t) => (t - p.mu) / p.sigma,
+        cdfFromLinear: u => Math.exp(-Math.exp(-u)),
+        linearFromCdf: F => -Math.log(-Math.log(F)),
+        quantile: (p, prob) => p.mu - p.sigma * Math.log(-Math.log(prob)),
+        positiveSupport: false,
+        fit: fitGumbelMLE,
+        freeParams: x => [x[1]],
+        constrain: ([logSigma], t, u) => [t - u * Math.exp(logSigma), logSigma],
+    },
+    Gamma: {
+        nll: negLogLikGamma,
+        paramNames: ['k', 'theta'],
+        logScale: [true, true],
+        toInternal: p => [Math.log(p.k), Math.log(p.theta)],
+        fromInternal: x => ({ k: Math.exp(x[0]), theta: Math.exp(x[1]) }),
+        // Same scale as the exponential, the k = 1 case
+        linearCdf: (p, t) => smallestExtremeLinear(1 - gammaSurvival(t, p.k, p.theta)),
+        cdfFromLinear: smallestExtremeCdf,
+        linearFromCdf: smallestExtremeLinear,
+        quantile: (p, prob) => p.theta * jStat.gammapinv(prob, p.k),
+        positiveSupport: true,
+        fit: fitGammaMLE,
+        freeParams: x => [x[0]],
+        constrain: ([logK], t, u) => [logK, Math.log(t) - Math.log(jStat.gammapinv(smallestExtremeCdf(u), Math.exp(logK)))],
+    },
+    GeneralizedGamma: {
+        nll: negLogLikGeneralizedGamma,
+        paramNames: ['mu', 'sigma', 'q'],
+        logScale: [false, true, false],
+        toInternal: p => [p.mu, Math.log(p.sigma), p.q],
+        fromInternal: x => ({ mu: x[0], sigma: Math.exp(x[1]), q: x[2] }),
+        // Lognormal scale, the q = 0 case
+        linearCdf: (p, t) => invNormalCdf(1 - generalizedGammaSurvival(t, p.mu, p.sigma, p.q)),
+        cdfFromLinear: u => normalCdf(u),
+        linearFromCdf: F => invNormalCdf(F),
+        quantile: (p, prob) => Math.exp(p.mu + p.sigma * generalizedGammaStandardQuantile(prob, p.q)),
+        positiveSupport: true,
+        fit: fitGeneralizedGammaMLE,
+        freeParams: x => [x[1], x[2]],
+        constrain: ([logSigma, q], t, u) => [Math.log(t) - Math.exp(logSigma) * generalizedGammaStandardQuantile(normalCdf(u), q), logSigma, q],
+    },
+};
+
+// Moves the data to the 2-parameter frame of a Weibull with location parameter gamma
+function shiftByGamma(data: CensoredData[], gamma: number): CensoredData[] {
+    return data.map(d => ({
+        ...d,
+        time: d.time - gamma,
+        lower: d.lower !== undefined ? Math.max(0, d.lower - gamma) : undefined,
+    }));
+}
+
+function numericalHessian(func: (x: number[]) => number, x: number[]): number[][] {
+    const n = x.length;
+    const h = x.map(v => 1e-4 * Math.max(1, Math.abs(v)));
+    const at = (steps: number[]) => func(x.map((v, i) => v + steps[i]));
+    const f0 = func(x);
+    const H: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+
+    for (let i = 0; i < n; i++) {
+        const ei = x.map((_, k) => (k === i ? h[i] : 0));
+        H[i][i] = (at(ei) - 2 * f0 + at(ei.map(v => -v))) / (h[i] * h[i]);
+        for (let j = i + 1; j < n; j++) {
+            const step = (si: number, sj: number) => x.map((_, k) => (k === i ? si * h[i] : k === j ? sj * h[j] : 0));
+            H[i][j] = H[j][i] = (at(step(1, 1)) - at(step(1, -1)) - at(step(-1, 1)) + at(step(-1, -1))) / (4 * h[i] * h[j]);
+        }
+    }
+    return H;
+}
+
+// Observed Fisher information of an MLE fit, inverted into the covariance matrix of the
+// estimates. For the 3-parameter Weibull, gamma is held at its estimate.
+export function calculateFisherMatrix(dist: Distribution, params: Parameters, data: CensoredData[]): FisherMatrixResult | null {
+    const model = MLE_MODELS[dist];
+    if (!model || data.every(d => d.event === 0)) return null;
+
+    const gamma = dist === 'Weibull' ? params.gamma ?? 0 : 0;
+    const fitData = gamma > 0 ? shiftByGamma(data, gamma) : data;
+    const theta = model.toInternal(params);
+    if (!theta.every(isFiniteNumber)) return null;
+
+    const hessian = numericalHessian(x => model.nll(x, fitData), theta);
+    if (!hessian.every(row => row.every(isFiniteNumber))) return null;
+
+    const thetaCovariance: number[][] = jStat.inv(hessian);
+    if (!thetaCovariance.every((row, i) => row.every(isFiniteNumber) && row[i] > 0)) return null;
+
+    // Delta method back to natural units: d(exp(x))/dx = exp(x)
+    const jacobian = theta.map((x, i) => (model.logScale[i] ? Math.exp(x) : 1));
+    const covariance = thetaCovariance.map((row, i) => row.map((c, j) => c * jacobian[i] * jacobian[j]));
+    const standardErrors = Object.fromEntries(model.paramNames.map((name, i) => [name, Math.sqrt(covariance[i][i])]));
+
+    return { distribution: dist, params, paramNames: model.paramNames, covariance, standardErrors, theta, thetaCovariance };
+}
+
+export function boundsZ(confidence: number, sided: BoundsSide): number {
+    return sided === 'one-sided' ? invNormalCdf(confidence) : invNormalCdf(1 - (1 - confidence) / 2);
+}
+
+// Delta-method interval for a function of the parameters, built on whatever scale `g` returns
+export function deltaMethodInterval(fisher: FisherMatrixResult, g: (p: Parameters) => number, z: number): BoundedEstimate {
+    const model = MLE_MODELS[fisher.distribution];
+    const at = (x: number[]) => g({ ...fisher.params, ...model.fromInternal(x) });
+    const value = at(fisher.theta);
+
+    const gradient = fisher.theta.map((v, i) => {
+        const h = 1e-5 * Math.max(1, Math.abs(v));
+        const plus = fisher.theta.map((x, k) => (k === i ? x + h : x));
+        const minus = fisher.theta.map((x, k) => (k === i ? x - h : x));
+        return (at(plus) - at(minus)) / (2 * h);
+    });
+
+    let variance = 0;
+    gradient.forEach((gi, i) => gradient.forEach((gj, j) => { variance += gi * gj * fisher.thetaCovariance[i][j]; }));
+    const delta = z * Math.sqrt(Math.max(variance, 0));
+    return { lower: value - delta, value, upper: value + delta };
+}
+
+// Bounds on F(t), computed on the linear scale of the probability paper
+export function getUnreliabilityBounds(fisher: FisherMatrixResult, t: number, confidence: number, sided: BoundsSide = 'two-sided'): BoundedEstimate {
+    const model = MLE_MODELS[fisher.distribution];
+    const u = deltaMethodInterval(fisher, p => model.linearCdf(p, t), boundsZ(confidence, sided));
+    return { lower: model.cdfFromLinear(u.lower), value: model.cdfFromLinear(u.value), upper: model.cdfFromLinear(u.upper) };
+}
+
+export function getReliabilityBounds(fisher: FisherMatrixResult, t: number, confidence: number, sided: BoundsSide = 'two-sided'): BoundedEstimate {
+    const F = getUnreliabilityBounds(fisher, t, confidence, sided);
+    return { lower: 1 - F.upper, value: 1 - F.value, upper: 1 - F.lower };
+}
+
+// B-life bounds: the time by which a fraction `prob` of the population has failed
+export function getBLifeBounds(fisher: FisherMatrixResult, prob: number, confidence: number, sided: BoundsSide = 'two-sided'): BoundedEstimate {
+    const model = MLE_MODELS[fisher.distribution];
+    const z = boundsZ(confidence, sided);
+    if (!model.positiveSupport) {
+        return deltaMethodInterval(fisher, p => model.quantile(p, prob), z);
+    }
+    // Log scale keeps the lower bound positive
+    const logT = deltaMethodInterval(fisher, p => Math.log(model.quantile(p, prob)), z);
+    return { lower: Math.exp(logT.lower), value: Math.exp(logT.value), upper: Math.exp(logT.upper) };
+}
+
+const PLOT_BOUNDS_CONFIDENCE = 0.9;
+
+// MLE line and its two-sided Fisher bounds in the coordinates of the probability plot
+function buildFisherPlotLines(fisher: FisherMatrixResult, minX: number, maxX: number, points: number = 30) {
+    const { distribution: dist, params } = fisher;
+    const model = MLE_MODELS[dist];
+    const timeAt = (x: number) => dist === 'Weibull' ? (params.gamma ?? 0) + Math.exp(x)
+        : dist === 'Lognormal' || dist === 'Loglogistic' || dist === 'Gamma' || dist === 'GeneralizedGamma' ? Math.exp(x) : x;
+    // The exponential paper plots -ln(1 - F) itself rather than its log, and the gamma
+    // papers are drawn for the fitted shape
+    const paperY = (u: number) => {
+        switch (dist) {
+            case 'Exponential': return Math.exp(u);
+            case 'Gamma': return Math.log(jStat.gammapinv(model.cdfFromLinear(u), params.k));
+            case 'GeneralizedGamma': return generalizedGammaStandardQuantile(model.cdfFromLinear(u), params.q);
+            default: return u;
+        }
+    };
+    const z = boundsZ(PLOT_BOUNDS_CONFIDENCE, 'two-sided');
+
+    const line: { x: number; y: number }[] = [];
+    const lower: { x: number; y: number }[] = [];
+    const upper: { x: number; y: number }[] = [];
+    for (let i = 0; i < points; i++) {
+        const x = minX + (maxX - minX) * i / (points - 1);
+        const u = deltaMethodInterval(fisher, p => model.linearCdf(p, timeAt(x)), z);
+        if (![u.lower, u.value, u.upper].every(isFiniteNumber)) continue;
+        line.push({ x, y: paperY(u.value) });
+        lower.push({ x, y: paperY(u.lower) });
+        upper.push({ x, y: paperY(u.upper) });
+    }
+    return { line, bounds: { lower, upper, confidenceLevel: PLOT_BOUNDS_CONFIDENCE * 100 } };
+}
+
+
+/* -----------------------
+   Likelihood Ratio Bounds (profile likelihood)
+   ----------------------- */
+
+type ProfileSetup = {
+    model: MLEModel;
+    data: CensoredData[]; // in the 2-parameter frame when gamma > 0
+    gamma: number;
+    fisher: FisherMatrixResult | null;
+    freeStart: number[];
+    cutoff: number; // profile log-likelihood at the edge of the confidence region
+};
+
+function likelihoodRatioChi2(confidence: number, sided: BoundsSide): number {
+    // A one-sided bound at C uses the two-sided region at 2C - 1
+    return invChi2(sided === 'one-sided' ? 2 * confidence - 1 : confidence, 1);
+}
+
+function setupProfile(dist: Distribution, params: Parameters, data: CensoredData[], confidence: number, sided: BoundsSide): ProfileSetup | null {
+    const model = MLE_MODELS[dist];
+    if (!model || data.every(d => d.event === 0)) return null;
+
+    const gamma = dist === 'Weibull' ? params.gamma ?? 0 : 0;
+    const frameData = gamma > 0 ? shiftByGamma(data, gamma) : data;
+    const theta = model.toInternal(params);
+    const llMax = -model.nll(theta, frameData);
+    if (!theta.every(isFiniteNumber) || !isFiniteNumber(llMax)) return null;
+
+    return {
+        model,
+        data: frameData,
+        gamma,
+        fisher: calculateFisherMatrix(dist, params, data),
+        freeStart: model.freeParams(theta),
+        cutoff: llMax - likelihoodRatioChi2(confidence, sided) / 2,
+    };
+}
+
+// Maximum log-likelihood over the free parameters with F(t) pinned to the linear-scale value u
+function profileLogLik(setup: ProfileSetup, t: number, u: number): number {
+    const { model, data, freeStart } = setup;
+    const nll = (free: number[]) => model.nll(model.constrain(free, t, u), data);
+    if (freeStart.length === 0) return -nll([]);
+    return -nelderMead(nll, freeStart, { maxIter: 500, tol: 1e-10, scale: 0.1 }).fx;
+}
+
+// Fisher standard error of g, used to size the first step of the bound search
+function fisherStandardError(fisher: FisherMatrixResult | null, g: (p: Parameters) => number): number {
+    if (!fisher) return NaN;
+    const { lower, upper } = deltaMethodInterval(fisher, g, 1);
+    return (upper - lower) / 2;
+}
+
+// Steps away from the estimate until the profile falls below the cut-off, then bisects
+function likelihoodRatioLimit(profile: (v: number) => number, v0: number, step: number, cutoff: number, direction: 1 | -1): number {
+    let inside = v0;
+    let outside = v0 + direction * step;
+    for (let i = 0; i < 40 && profile(outside) > cutoff; i++) {
+        inside = outside;
+        step *= 2;
+        outside = v0 + direction * step;
+    }
+    if (profile(outside) > cutoff) return direction * Infinity;
+
+    for (let i = 0; i < 40; i++) {
+        const mid = (inside + outside) / 2;
+        if (profile(mid) > cutoff) inside = mid;
+        else outside = mid;
+    }
+    return (inside + outside) / 2;
+}
+
+// Unlike Fisher bounds, these follow the shape of the likelihood, so they stay honest for small samples
+export function getLikelihoodRatioReliabilityBounds(dist: Distribution, params: Parameters, data: CensoredData[], t: number, confidence: number, sided: BoundsSide = 'two-sided'): BoundedEstimate | null {
+    const setup = setupProfile(dist, params, data, confidence, sided);
+    if (!setup) return null;
+    const { model, gamma, fisher } = setup;
+    const time = t - gamma;
+    if (time <= 0 && model.positiveSupport) return { lower: 1, value: 1, upper: 1 };
+
+    const u0 = model.linearCdf({ ...params, gamma: undefined }, time);
+    const se = fisherStandardError(fisher, p => model.linearCdf(p, t));
+    const step = se > 0 && isFinite(se) ? se : 0.5;
+    const profile = (u: number) => profileLogLik(setup, time, u);
+
+    const uLower = likelihoodRatioLimit(profile, u0, step, setup.cutoff, -1);
+    const uUpper = likelihoodRatioLimit(profile, u0, step, setup.cutoff, 1);
+    // Higher F means lower reliability
+    return {
+        lower: 1 - model.cdfFromLinear(uUpper),
+        value: 1 - model.cdfFromLinear(u0),
+        upper: 1 - model.cdfFromLinear(uLower),
+    };
+}
+
+export function getLikelihoodRatioTimeBounds(dist: Distribution, params: Parameters, data: CensoredData[], reliability: number, confidence: number, sided: BoundsSide = 'two-sided'): BoundedEstimate | null {
+    const setup = setupProfile(dist, params, data, confidence, sided);
+    if (!setup || reliability <= 0 || reliability >= 1) return null;
+    const { model, gamma, fisher } = setup;
+    const u = model.linearFromCdf(1 - reliability);
+
+    // Positive-support models are profiled over ln(t)
+    const toTime = (v: number) => model.positiveSupport ? Math.exp(v) : v;
+    const fromTime = (time: number) => model.positiveSupport ? Math.log(time) : time;
+    const v0 = fromTime(model.quantile({ ...params, gamma: undefined }, 1 - reliability));
+    const se = fisherStandardError(fisher, p => fromTime(model.quantile({ ...p, gamma: undefined }, 1 - reliability)));
+    const step = se > 0 && isFinite(se) ? se : 0.1 * Math.abs(v0) + 0.1;
+    const profile = (v: number) => profileLogLik(setup, toTime(v), u);
+
+    return {
+        lower: gamma + toTime(likelihoodRatioLimit(profile, v0, step, setup.cutoff, -1)),
+        value: gamma + toTime(v0),
+        upper: gamma + toTime(likelihoodRatioLimit(profile, v0, step, setup.cutoff, 1)),
+    };
+}
+
+export function calculateProfileLikelihoodBounds(
+    { dist, failureTimes, suspensionTimes = [], confidenceLevel = 90, tValue = null, reliabilityValue = null, sided = 'two-sided' }:
+    { dist: Distribution, failureTimes: number[], suspensionTimes?: number[], confidenceLevel: number, tValue: number | null, reliabilityValue: number | null, sided?: BoundsSide }
+): ProfileBoundsResult {
+    const data = toCensoredData(failureTimes, suspensionTimes);
+    const confidence = confidenceLevel / 100;
+    const model = MLE_MODELS[dist];
+    const params = model?.fit(data);
+    if (!model || !params || !isFiniteNumber(params.lkv)) {
+        return { error: "Não foi possível ajustar o modelo por máxima verossimilhança." };
+    }
+
+    // Bounds on F(t) drawn on Weibull paper, alongside the rank-based bands
+    const allTimes = [...failureTimes, ...suspensionTimes];
+    const lowerLine: { x: number; y: number }[] = [];
+    const upperLine: { x: number; y: number }[] = [];
+    for (const time of generateTimeGrid(Math.min(...allTimes) * 0.8, Math.max(...allTimes) * 1.25, 25)) {
+        const R = getLikelihoodRatioReliabilityBounds(dist, params, data, time, confidence, sided);
+        if (!R || !(R.lower > 0 && R.upper < 1)) continue;
+        lowerLine.push({ x: Math.log(time), y: Math.log(-Math.log(R.upper)) });
+        upperLine.push({ x: Math.log(time), y: Math.log(-Math.log(R.lower)) });
+    }
+
+    const reliabilityBounds = tValue && tValue > 0 ? getLikelihoodRatioReliabilityBounds(dist, params, data, tValue, confidence, sided) : null;
+    const timeBounds = reliabilityValue ? getLikelihoodRatioTimeBounds(dist, params, data, reliabilityValue, confidence, sided) : null;
+
+    return {
+        distribution: dist,
+        params,
+        confidenceLevel,
+        sided,
+        lowerLine,
+        upperLine,
+        reliabilityAtT: reliabilityBounds && { ...reliabilityBounds, time: tValue },
+        timeAtReliability: timeBounds && { ...timeBounds, reliability: reliabilityValue },
+    };
+}
+
+/* -----------------------
+   Mixed Weibull (subpopulations)
+   ----------------------- */
+
+export const MIXED_WEIBULL_SUBPOPULATIONS = [2, 3, 4];
+
+export const mixedWeibullSurvival = (t: number, subpopulations: WeibullSubpopulation[]) =>
+    subpopulations.reduce((sum, p) => sum + p.proportion * weibullSurvival(t, p.beta, p.eta), 0);
+
+const mixedWeibullPdf = (t: number, subpopulations: WeibullSubpopulation[]) =>
+    subpopulations.reduce((sum, p) => sum + p.proportion * weibullPdf(t, p.beta, p.eta), 0);
+
+export const mixedWeibullHazard = (t: number, subpopulations: WeibullSubpopulation[]) => {
+    const S = mixedWeibullSurvival(t, subpopulations);
+    return S > 1e-12 ? mixedWeibullPdf(t, subpopulations) / S : NaN;
+};
+
+// Likelihood of a single observation under one Weibull subpopulation
+function weibullContribution(d: CensoredData, beta: number, eta: number): number {
+    if (d.lower !== undefined) {
+        return (d.lower > 0 ? weibullSurvival(d.lower, beta, eta) : 1) - weibullSurvival(d.time, beta, eta);
+    }
+    return d.event === 1 ? weibullPdf(d.time, beta, eta) : weibullSurvival(d.time, beta, eta);
+}
+
+function mixedWeibullLogLik(data: CensoredData[], subpopulations: WeibullSubpopulation[]): number {
+    let ll = 0;
     for (const d of data) {
-        if (d.event === 1) {
-            const pdf = normalPdf(d.time, mean, stdDev);
-            if (pdf > 0) lkv += Math.log(pdf); else return { lkv: -Infinity };
-        } else {
-            const S = 1 - normalCdf(d.time, mean, stdDev);
-            if (S > 0) lkv += Math.log(S); else return { lkv: -Infinity };
+        const L = subpopulations.reduce((sum, p) => sum + p.proportion * weibullContribution(d, p.beta, p.eta), 0);
+        if (!isFinite(L) || L <= 0) return -Infinity;
+        ll += (d.count ?? 1) * Math.log(L);
+    }
+    return ll;
+}
+
+// Above this a subpopulation has collapsed onto a handful of failures, where the mixture
+// likelihood is unbounded
+const MIXED_WEIBULL_MAX_BETA = 50;
+
+// EM: each observation is shared among the subpopulations in proportion to how well each one
+// explains it, then every subpopulation is refitted as a censored Weibull weighted by its share.
+export function fitMixedWeibull(data: CensoredData[], subpopulationCount: number = 2): Parameters {
+    const k = Math.min(Math.max(Math.round(subpopulationCount), 2), 4);
+    // Grouped rows stand for several units each, and empty groups for none
+    data = data.filter(d => (d.count ?? 1) > 0);
+    const failures = data.filter(d => d.event === 1).sort((a, b) => a.time - b.time);
+    const failureCount = failures.reduce((sum, d) => sum + (d.count ?? 1), 0);
+    if (failureCount < 3 * k || failures.length < k) return { lkv: -Infinity };
+
+    // Start from the failures split into k consecutive groups in time
+    const totalCount = data.reduce((sum, d) => sum + (d.count ?? 1), 0);
+    let subpopulations: WeibullSubpopulation[] = Array.from({ length: k }, (_, j) => {
+        const group = failures.slice(Math.floor(j * failures.length / k), Math.floor((j + 1) * failures.length / k));
+        const fit = fitWeibullMLE(group);
+        return { beta: Math.min(fit.beta, 10), eta: fit.eta, proportion: 1 / k };
+    });
+    let ll = mixedWeibullLogLik(data, subpopulations);
+
+    for (let iter = 0; iter < 300; iter++) {
+        // E-step: share of each observation that belongs to each subpopulation
+        const shares = data.map(d => {
+            const parts = subpopulations.map(p => p.proportion * weibullContribution(d, p.beta, p.eta));
+            const total = parts.reduce((a, b) => a + b, 0);
+            return parts.map(v => (total > 0 ? v / total : 1 / k));
+        });
+
+        // M-step: weighted censored Weibull fit per subpopulation, warm-started
+        subpopulations = subpopulations.map((p, j) => {
+            const weighted = data.map((d, i) => ({ ...d, count: (d.count ?? 1) * shares[i][j] }));
+            const proportion = weighted.reduce((sum, d) => sum + d.count, 0) / totalCount;
+            const res = nelderMead(x => negLogLikWeibull(x, weighted), [Math.log(p.beta), Math.log(p.eta)], { maxIter: 500, tol: 1e-10 });
+            return { beta: Math.exp(res.x[0]), eta: Math.exp(res.x[1]), proportion };
+        });
+
+        const next = mixedWeibullLogLik(data, subpopulations);
+        if (!isFiniteNumber(next) || subpopulations.some(p => !(p.proportion > 1e-6) || p.beta > MIXED_WEIBULL_MAX_BETA)) {
+            return { lkv: -Infinity };
         }
+        const converged = Math.abs(next - ll) < 1e-9 * (1 + Math.abs(ll));
+        ll = next;
+        if (converged) break;
     }
-    return { mean, stdDev, lkv: isFinite(lkv) ? lkv : -Infinity };
+
+    // Earliest subpopulation first
+    subpopulations.sort((a, b) => a.eta - b.eta);
+    return { subpopulations, lkv: ll };
 }
 
+// The mixture is an S-shaped curve on Weibull paper, so the line is drawn point by point and
+// rho measures how closely it follows the ranked points
+function buildMixedWeibullPlotData(subpopulations: WeibullSubpopulation[], ranked: PlotData, points: number = 60): PlotData {
+    const paperY = (time: number) => Math.log(-Math.log(mixedWeibullSurvival(time, subpopulations)));
+    const xs = ranked.points.median.map(p => p.x);
+    const minX = Math.min(...xs) - 0.2;
+    const maxX = Math.max(...xs) + 0.2;
+
+    const line: { x: number; y: number }[] = [];
+    for (let i = 0; i < points; i++) {
+        const x = minX + (maxX - minX) * i / (points - 1);
+        const y = paperY(Math.exp(x));
+        if (isFiniteNumber(y)) line.push({ x, y });
+    }
+
+    const ys = ranked.points.median.map(p => p.y);
+    const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+    const ssTot = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+    const ssRes = ranked.points.median.reduce((sum, p) => sum + (p.y - paperY(p.time)) ** 2, 0);
+    const rSquared = ssTot > 0 ? Math.max(0, 1 - ssRes / ssTot) : 0;
 
-function estimateExponentialMLE(failures: number[], suspensions: number[] = []): Parameters {
-    const allTimes = [...failures, ...suspensions];
-    if (failures.length === 0) return { lambda: undefined, lkv: -Infinity };
-    
-    const sumOfTimes = allTimes.reduce((a, b) => a + b, 0);
-    const lambda = failures.length / sumOfTimes;
-    
-    const lkv = failures.length * Math.log(lambda) - lambda * sumOfTimes;
-    
-    return { lambda, lkv };
+    return { points: ranked.points, line, rSquared };
 }
 
+// Rank regression has no notion of intervals, so inspection intervals are ranked at their midpoint.
+const intervalMidpoint = (interval: IntervalData) => (interval.lower + interval.upper) / 2;
 
-export function estimateParameters({ dist, failureTimes, suspensionTimes = [], method = 'SRM', isGrouped = false }: EstimateParams): { params: Parameters, plotData?: PlotData } {
-    if (failureTimes.length === 0 && suspensionTimes.length === 0) return { params: {} };
+function toRankInputs(failureTimes: number[], intervals: IntervalData[], counts: GroupCounts) {
+    return {
+        rankFailureTimes: [...failureTimes, ...intervals.map(intervalMidpoint)],
+        rankCounts: counts.failureCounts
+            ? { ...counts, failureCounts: [...counts.failureCounts, ...intervals.map(() => 1)] }
+            : counts,
+    };
+}
+
+function toCensoredData(failureTimes: number[], suspensionTimes: number[] = [], intervals: IntervalData[] = [], counts: GroupCounts = {}): CensoredData[] {
+    return [
+        ...failureTimes.map((t, i) => ({ time: t, event: 1 as const, count: counts.failureCounts?.[i] })),
+        ...suspensionTimes.map((t, i) => ({ time: t, event: 0 as const, count: counts.suspensionCounts?.[i] })),
+        ...intervals.map(i => ({ time: i.upper, event: 1 as const, lower: i.lower }))
+    ];
+}
+
+// With fewer distinct failure times than this every model can collapse onto the data: the
+// likelihood grows without bound and the ranking compares numerical artefacts.
+export const MIN_DISTINCT_FAILURES = 2;
+
+function distinctFailures(data: CensoredData[]): number {
+    return new Set(data.filter(d => d.event === 1 && (d.count ?? 1) > 0).map(d => `${d.lower ?? ''}:${d.time}`)).size;
+}
+
+export function countDistinctFailures(failureTimes: number[], intervals: IntervalData[] = [], counts: GroupCounts = {}): number {
+    return distinctFailures(toCensoredData(failureTimes, [], intervals, counts));
+}
+
+export function estimateParameters({ dist, failureTimes, suspensionTimes = [], intervals = [], failureCounts, suspensionCounts, method = 'SRM', isGrouped = false, threeParameter = false, subpopulations = 2 }: EstimateParams): { params: Parameters, plotData?: PlotData } {
+    if (failureTimes.length === 0 && suspensionTimes.length === 0 && intervals.length === 0) return { params: {} };
+    const useGamma = dist === 'Weibull' && threeParameter;
+    // Grouped rows enter as one weighted observation each instead of being expanded
+    const counts: GroupCounts = isGrouped ? { failureCounts, suspensionCounts } : {};
+    const { rankFailureTimes, rankCounts } = toRankInputs(failureTimes, intervals, counts);
+
+    // There is no rank regression estimator for a mixture, so it is always fitted by EM
+    if (dist === 'MixedWeibull') {
+        const params = fitMixedWeibull(toCensoredData(failureTimes, suspensionTimes, intervals, counts), subpopulations);
+        const ranked = estimateParametersByRankRegression('Weibull', rankFailureTimes, suspensionTimes, 'SRM', 0, rankCounts);
+        if (!params.subpopulations || !ranked) return { params: {}, plotData: ranked?.plotData };
+        const plotData = buildMixedWeibullPlotData(params.subpopulations, ranked.plotData);
+        return { params: { ...params, rho: plotData.rSquared }, plotData };
+    }
     
     if (method === 'SRM' || method === 'RRX') {
-        const srmResult = estimateParametersByRankRegression(dist, failureTimes, suspensionTimes, method);
+        const srmResult = (useGamma && estimateWeibull3PByRankRegression(rankFailureTimes, suspensionTimes, method, rankCounts))
+            || (SHAPE_SEARCH[dist] && estimateShapeByRankRegression(dist, rankFailureTimes, suspensionTimes, method, rankCounts))
+            || estimateParametersByRankRegression(dist, rankFailureTimes, suspensionTimes, method, 0, rankCounts);
         return { params: srmResult?.params ?? {}, plotData: srmResult?.plotData };
     }
 
-    const censoredData: CensoredData[] = [
-        ...failureTimes.map(t => ({ time: t, event: 1 as const })),
-        ...suspensionTimes.map(t => ({ time: t, event: 0 as const }))
-    ];
+    const censoredData = toCensoredData(failureTimes, suspensionTimes, intervals, counts);
 
     let params: Parameters = {};
-    if (dist === 'Weibull' && method === 'MLE') {
+    if (useGamma && method === 'MLE' && rankFailureTimes.length >= 3) {
+        params = fitWeibull3PMLE(censoredData);
+    } else if (dist === 'Weibull' && method === 'MLE') {
         params = fitWeibullMLE(censoredData);
     } else if (dist === 'Lognormal' && method === 'MLE') {
         params = fitLognormalMLE(censoredData);
     } else if (dist === 'Normal' && method === 'MLE') {
         params = estimateNormalMLE(censoredData);
     } else if (dist === 'Exponential' && method === 'MLE') {
-        params = estimateExponentialMLE(failureTimes, suspensionTimes);
+        params = estimateExponentialMLE(censoredData);
+    } else if (dist === 'Loglogistic' && method === 'MLE') {
+        params = fitLoglogisticMLE(censoredData);
+    } else if (dist === 'Gumbel' && method === 'MLE') {
+        params = fitGumbelMLE(censoredData);
+    } else if (dist === 'Gamma' && method === 'MLE') {
+        params = fitGammaMLE(censoredData);
+    } else if (dist === 'GeneralizedGamma' && method === 'MLE') {
+        params = fitGeneralizedGammaMLE(censoredData);
     } else {
-        return estimateParameters({ dist, failureTimes, suspensionTimes, method: 'SRM', isGrouped });
+        return estimateParameters({ dist, failureTimes, suspensionTimes, intervals, failureCounts, suspensionCounts, method: 'SRM', isGrouped, threeParameter, subpopulations });
     }
     
-    const plotResult = estimateParametersByRankRegression(dist, failureTimes, suspensionTimes, 'SRM');
-    return { params, plotData: plotResult?.plotData };
+    const plotResult = estimateParametersByRankRegression(dist, rankFailureTimes, suspensionTimes, 'SRM', params.gamma ?? 0, rankCounts, shapeParameter(dist, params));
+    const fisher = calculateFisherMatrix(dist, params, censoredData);
+    if (!plotResult || !fisher) {
+        return { params, plotData: plotResult?.plotData };
+    }
+
+    // Plot the MLE line itself, with its confidence bounds, over the ranked points
+    const xs = plotResult.plotData.line.map(p => p.x);
+    const { line, bounds } = buildFisherPlotLines(fisher, Math.min(...xs), Math.max(...xs));
+    return { params, plotData: { ...plotResult.plotData, line, bounds } };
 }
 
 function generateTimeGrid(min = 1, max = 10000, points = 80) {
@@ -787,52 +1861,13 @@ export function calculateLikelihoodRatioContour(
     };
 }
 
-export function calculateOptimalInterval({ beta, eta, costCp, costCu }: { beta: number, eta: number, costCp: number, costCu: number }) {
-  const maxTime = eta * 3;
-  const steps = 200;
-  const timePoints = Array.from({ length: steps + 1 }, (_, i) => (i / steps) * maxTime);
-
-  let cumulativeIntegral = 0;
-  const costCurve = timePoints.map((t_i, i) => {
-    if (i > 0) {
-      const t_prev = timePoints[i - 1];
-      const dt = t_i - t_prev;
-      const R_avg = (weibullSurvival(t_i, beta, eta) + weibullSurvival(t_prev, beta, eta)) / 2;
-      cumulativeIntegral += R_avg * dt;
-    }
-
-    const mttf_t = cumulativeIntegral;
-    if (t_i < 1 || mttf_t < 1e-9) return null;
-
-    const R_t = weibullSurvival(t_i, beta, eta);
-    const F_t = 1 - R_t;
-    const cost_t = (costCp * R_t + costCu * F_t) / mttf_t;
-
-    return isFinite(cost_t) ? { time: t_i, cost: cost_t } : null;
-  }).filter((p): p is { time: number; cost: number } => p !== null);
-
-  if (costCurve.length === 0) return null;
-
-  let minCost = Infinity;
-  let optimalInterval = 0;
-  costCurve.forEach(point => {
-    if (point.cost < minCost) {
-      minCost = point.cost;
-      optimalInterval = point.time;
-    }
-  });
-  
-  return { costCurve, optimalInterval, minCost };
-}
-
-
 // --- Reliability Calculations ---
 
 export function calculateReliabilityData(suppliers: Supplier[]): ReliabilityData {
   if (suppliers.length === 0) {
     return { Rt: [], Ft: [], ft: [], lambda_t: [] };
   }
-  const allTimes = suppliers.flatMap(s => [...s.failureTimes, ...(s.suspensionTimes || [])]);
+  const allTimes = suppliers.flatMap(s => [...s.failureTimes, ...(s.suspensionTimes || []), ...(s.intervals || []).map(i => i.upper)]);
   const maxTime = Math.max(...allTimes, 0) * 1.2;
   const timePoints = Array.from({ length: 101 }, (_, i) => (i / 100) * maxTime);
 
@@ -851,9 +1886,9 @@ export function calculateReliabilityData(suppliers: Supplier[]): ReliabilityData
       switch (distribution) {
         case 'Weibull':
           if (params.eta && params.eta > 0 && params.beta && params.beta > 0) {
-            R_t = weibullSurvival(time, params.beta, params.eta);
+            R_t = weibullSurvival(time, params.beta, params.eta, params.gamma);
             F_t = 1 - R_t;
-            f_t = weibullPdf(time, params.beta, params.eta);
+            f_t = weibullPdf(time, params.beta, params.eta, params.gamma);
             lambda_t = (R_t > 1e-9) ? f_t / R_t: f_t / 1e-9;
           }
           break;
@@ -881,6 +1916,46 @@ export function calculateReliabilityData(suppliers: Supplier[]): ReliabilityData
             lambda_t = params.lambda;
           }
           break;
+        case 'Loglogistic':
+          if (params.beta && params.beta > 0 && params.alpha && params.alpha > 0) {
+            R_t = loglogisticSurvival(time, params.beta, params.alpha);
+            F_t = 1 - R_t;
+            f_t = loglogisticPdf(time, params.beta, params.alpha);
+            lambda_t = (R_t > 1e-9) ? f_t / R_t : 0;
+          }
+          break;
+        case 'Gumbel':
+          if (params.mu !== undefined && params.sigma && params.sigma > 0) {
+            R_t = gumbelSurvival(time, params.mu, params.sigma);
+            F_t = 1 - R_t;
+            f_t = gumbelPdf(time, params.mu, params.sigma);
+            lambda_t = (R_t > 1e-9) ? f_t / R_t : 0;
+          }
+          break;
+        case 'Gamma':
+          if (params.k && params.k > 0 && params.theta && params.theta > 0) {
+            R_t = gammaSurvival(time, params.k, params.theta);
+            F_t = 1 - R_t;
+            f_t = Math.exp(gammaLogPdf(time, params.k, params.theta));
+            lambda_t = (R_t > 1e-9) ? f_t / R_t : 0;
+          }
+          break;
+        case 'GeneralizedGamma':
+          if (params.mu !== undefined && params.sigma && params.sigma > 0 && params.q !== undefined) {
+            R_t = generalizedGammaSurvival(time, params.mu, params.sigma, params.q);
+            F_t = 1 - R_t;
+            f_t = Math.exp(generalizedGammaLogPdf(time, params.mu, params.sigma, params.q));
+            lambda_t = (R_t > 1e-9) ? f_t / R_t : 0;
+          }
+          break;
+        case 'MixedWeibull':
+          if (params.subpopulations?.length) {
+            R_t = mixedWeibullSurvival(time, params.subpopulations);
+            F_t = 1 - R_t;
+            f_t = mixedWeibullPdf(time, params.subpopulations);
+            lambda_t = (R_t > 1e-9) ? f_t / R_t : 0;
+          }
+          break;
       }
       if (isFinite(R_t)) results.Rt.push({ time: t, value: R_t });
       if (isFinite(F_t)) results.Ft.push({ time: t, value: F_t });
@@ -923,114 +1998,329 @@ export function calculateReliabilityData(suppliers: Supplier[]): ReliabilityData
   };
 }
 
-// --- Goodness of Fit ---
+/* -----------------------
+   Non-parametric Survival (Kaplan-Meier / Nelson-Aalen)
+   ----------------------- */
+
+// Product-limit estimate at each distinct failure time. Interval failures enter at their
+// midpoint, and suspensions tied with failures are removed after them.
+function productLimit(data: CensoredData[], confidenceLevel: number, method: SurvivalIntervalMethod): NonParametricStep[] {
+    const z = invNormalCdf(1 - (1 - confidenceLevel / 100) / 2);
+    const points = data
+        .map(d => ({ time: d.lower !== undefined ? (d.lower + d.time) / 2 : d.time, event: d.event, count: d.count ?? 1 }))
+        .sort((a, b) => a.time - b.time || b.event - a.event);
+
+    let atRisk = points.reduce((sum, p) => sum + p.count, 0);
+    let survival = 1;
+    let greenwoodSum = 0;
+    let cumulativeHazard = 0;
+    let hazardVariance = 0;
+    const steps: NonParametricStep[] = [];
+    for (let i = 0; i < points.length;) {
+        const time = points[i].time;
+        let failures = 0;
+        let removed = 0;
+        for (; i < points.length && points[i].time === time; i++) {
+            if (points[i].event === 1) failures += points[i].count;
+            removed += points[i].count;
+        }
+        if (failures > 0) {
+            survival *= 1 - failures / atRisk;
+            greenwoodSum += atRisk > failures ? failures / (atRisk * (atRisk - failures)) : Infinity;
+            cumulativeHazard += failures / atRisk;
+            hazardVariance += failures / (atRisk * atRisk);
+
+            let lower = 0;
+            let upper = 0;
+            if (survival > 0 && isFinite(greenwoodSum)) {
+                if (method === 'greenwood') {
+                    const se = survival * Math.sqrt(greenwoodSum);
+                    lower = Math.max(0, survival - z * se);
+                    upper = Math.min(1, survival + z * se);
+                } else {
+                    // Interval on ln(-ln S), which always stays inside (0, 1)
+                    const spread = z * Math.sqrt(greenwoodSum) / Math.abs(Math.log(survival));
+                    lower = Math.pow(survival, Math.exp(spread));
+                    upper = Math.pow(survival, Math.exp(-spread));
+                }
+            }
+            // Log-transformed interval keeps the cumulative hazard positive
+            const hazardFactor = Math.exp(z * Math.sqrt(hazardVariance) / cumulativeHazard);
+
+            steps.push({
+                time,
+                atRisk,
+                failures,
+                survival,
+                lower,
+                upper,
+                cumulativeHazard,
+                cumulativeHazardLower: cumulativeHazard / hazardFactor,
+                cumulativeHazardUpper: cumulativeHazard * hazardFactor,
+            });
+        }
+        atRisk -= removed;
+    }
+    return steps;
+}
+
+export function calculateNonParametricSurvival(
+    { failureTimes, suspensionTimes = [], intervals = [], counts = {}, confidenceLevel = 95, method = 'logLog' }:
+    { failureTimes: number[], suspensionTimes?: number[], intervals?: IntervalData[], counts?: GroupCounts, confidenceLevel?: number, method?: SurvivalIntervalMethod }
+): NonParametricSurvival {
+    const data = toCensoredData(failureTimes, suspensionTimes, intervals, counts);
+    return { steps: productLimit(data, confidenceLevel, method), confidenceLevel, method };
+}
+
+/* -----------------------
+   Goodness of Fit
+   ----------------------- */
+
+function kaplanMeierSteps(data: CensoredData[]): { time: number; F: number }[] {
+    return productLimit(data, 95, 'greenwood').map(step => ({ time: step.time, F: 1 - step.survival }));
+}
+
+// Asymptotic Kolmogorov distribution with Stephens' small-sample correction
+function kolmogorovPValue(D: number, n: number): number {
+    const sqrtN = Math.sqrt(n);
+    const lambda = (sqrtN + 0.12 + 0.11 / sqrtN) * D;
+    if (lambda < 0.2) return 1;
+    let p = 0;
+    for (let k = 1; k <= 100; k++) {
+        p += 2 * (k % 2 === 1 ? 1 : -1) * Math.exp(-2 * k * k * lambda * lambda);
+    }
+    return Math.min(1, Math.max(0, p));
+}
+
+// Integral of (c - u)^2 / (u (1 - u)) du over [a, b], the Anderson-Darling integrand
+// on a stretch where the empirical CDF is flat at c
+function andersonDarlingSegment(c: number, a: number, b: number): number {
+    if (b <= a) return 0;
+    const left = c > 0 ? c * c * Math.log(b / a) : 0;
+    const right = c < 1 ? (1 - c) * (1 - c) * Math.log((1 - b) / (1 - a)) : 0;
+    return left - right - (b - a);
+}
+
+function goodnessOfFit(dist: Distribution, params: Parameters, data: CensoredData[], logLikelihood: number, parameterCount: number) {
+    const n = data.reduce((sum, d) => sum + (d.count ?? 1), 0);
+    const failures = data.filter(d => d.event === 1).reduce((sum, d) => sum + (d.count ?? 1), 0);
+    const k = parameterCount;
+    const aicc = n - k - 1 > 0 ? 2 * k - 2 * logLikelihood + (2 * k * (k + 1)) / (n - k - 1) : Infinity;
+    const bic = k * Math.log(n) - 2 * logLikelihood;
+
+    const clamp = (u: number) => Math.min(1 - 1e-12, Math.max(1e-12, u));
+    const cdf = (t: number) => clamp(1 - getReliability(dist, params, t));
+    const steps = kaplanMeierSteps(data);
+
+    let ksStatistic = 0;
+    let andersonDarling = 0;
+    let previousF = 0;
+    let previousU = 0;
+    for (const step of steps) {
+        const u = cdf(step.time);
+        ksStatistic = Math.max(ksStatistic, Math.abs(step.F - u), Math.abs(previousF - u));
+        andersonDarling += andersonDarlingSegment(previousF, previousU, u);
+        previousF = step.F;
+        previousU = u;
+    }
+    // Censored samples are only integrated up to the last observation
+    const lastTime = Math.max(...data.map(d => d.time));
+    const uMax = previousF >= 1 ? 1 : cdf(lastTime);
+    andersonDarling += andersonDarlingSegment(previousF, previousU, uMax);
+
+    return {
+        parameterCount,
+        aicc,
+        bic,
+        andersonDarling: n * andersonDarling,
+        ksStatistic,
+        ksPValue: kolmogorovPValue(ksStatistic, failures),
+    };
+}
+
+const RANKING_RULES: Record<RankingRule, { score: (r: DistributionAnalysisResult) => number; higherIsBetter: boolean }> = {
+    aicc: { score: r => r.aicc, higherIsBetter: false },
+    bic: { score: r => r.bic, higherIsBetter: false },
+    logLikelihood: { score: r => r.logLikelihood, higherIsBetter: true },
+    andersonDarling: { score: r => r.andersonDarling, higherIsBetter: false },
+    ksPValue: { score: r => r.ksPValue, higherIsBetter: true },
+};
+
+const GENERALIZED_GAMMA_SPECIAL_CASES: Distribution[] = ['Weibull', 'Lognormal', 'Gamma'];
+
+export function rankDistributionResults(results: DistributionAnalysisResult[], rule: RankingRule = 'aicc'): DistributionAnalysisResult[] {
+    const { score, higherIsBetter } = RANKING_RULES[rule];
+    const value = (r: DistributionAnalysisResult) => {
+        const v = score(r);
+        return isFinite(v) ? (higherIsBetter ? -v : v) : Infinity;
+    };
 
-export function findBestDistribution(failureTimes: number[], suspensionTimes: number[]): { results: DistributionAnalysisResult[]; best: Distribution | null; } {
-    const distributionsToTest: Distribution[] = ['Weibull', 'Lognormal', 'Normal', 'Exponential'];
+    // The 3-parameter models are only ranked on their own when the likelihood ratio test says
+    // they are clearly better (and, for the 3P Weibull, gamma is not pinned at the first failure),
+    // and otherwise follow the best of the 2-parameter models they extend. This holds under every
+    // rule: the information criteria penalise the extra parameter, but a boundary fit can still win
+    // AICc is undefined with no more observations than parameters + 1, which would leave those
+    // models in arbitrary order, so they are not ranked under it
+    const candidates = rule === 'aicc' ? results.filter(r => isFinite(r.aicc)) : results;
+    const heldBack = candidates.filter(r => r.lrTestPassed === false);
+    const ranked = candidates.filter(r => !heldBack.includes(r)).sort((a, b) => value(a) - value(b));
+    for (const result of heldBack) {
+        const nested = ranked.findIndex(r => r.params.gamma == null && (result.distribution === 'GeneralizedGamma'
+            ? GENERALIZED_GAMMA_SPECIAL_CASES.includes(r.distribution)
+            : r.distribution === 'Weibull'));
+        ranked.splice(nested === -1 ? ranked.length : nested + 1, 0, result);
+    }
+    return ranked;
+}
+
+export function findBestDistribution(failureTimes: number[], suspensionTimes: number[], intervals: IntervalData[] = [], counts: GroupCounts = {}, rule: RankingRule = 'aicc'): { results: DistributionAnalysisResult[]; best: Distribution | null; } {
+    const distributionsToTest: Distribution[] = ['Weibull', 'Lognormal', 'Normal', 'Exponential', 'Loglogistic', 'Gumbel', 'Gamma', 'GeneralizedGamma'];
     let analysisResults: DistributionAnalysisResult[] = [];
     
-    const censoredData: CensoredData[] = [
-        ...failureTimes.map(t => ({ time: t, event: 1 as const })),
-        ...suspensionTimes.map(t => ({ time: t, event: 0 as const }))
-    ];
+    const censoredData = toCensoredData(failureTimes, suspensionTimes, intervals, counts);
+    const { rankFailureTimes, rankCounts } = toRankInputs(failureTimes, intervals, counts);
+    if (distinctFailures(censoredData) < MIN_DISTINCT_FAILURES) return { results: [], best: null };
 
     for (const dist of distributionsToTest) {
-        let params: Parameters = {};
-        if (dist === 'Weibull') {
-            params = fitWeibullMLE(censoredData);
-        } else if (dist === 'Lognormal') {
-            params = fitLognormalMLE(censoredData);
-        } else if (dist === 'Normal') {
-             params = estimateNormalMLE(censoredData);
-        } else if (dist === 'Exponential') {
-            params = estimateExponentialMLE(failureTimes, suspensionTimes);
-        }
+        const model = MLE_MODELS[dist];
+        const params = model.fit(censoredData);
+        const rrAnalysis = estimateParametersByRankRegression(dist, rankFailureTimes, suspensionTimes, 'SRM', 0, rankCounts, shapeParameter(dist, params));
 
-        const rrAnalysis = estimateParametersByRankRegression(dist, failureTimes, suspensionTimes, 'SRM');
-
-        if (params.lkv && isFinite(params.lkv)) {
+        // A fit whose reliability is not finite over the data would win the ranking and then break every chart
+        if (isFiniteNumber(params.lkv) && censoredData.every(d => isFiniteNumber(getReliability(dist, params, d.time)))) {
            analysisResults.push({
                 distribution: dist,
                 params: params,
                 rSquared: rrAnalysis?.params.rho ?? 0,
                 logLikelihood: params.lkv,
+                ...goodnessOfFit(dist, params, censoredData, params.lkv, model.paramNames.length),
             });
         }
     }
+
+    // The Generalized Gamma contains the Weibull, Lognormal and Gamma, so its likelihood ratio
+    // against the best of them says whether any 2-parameter model is adequate
+    const generalizedGamma = analysisResults.find(r => r.distribution === 'GeneralizedGamma');
+    const specialCases = analysisResults.filter(r => GENERALIZED_GAMMA_SPECIAL_CASES.includes(r.distribution));
+    if (generalizedGamma && specialCases.length > 0) {
+        const bestSpecialCase = Math.max(...specialCases.map(r => r.logLikelihood));
+        generalizedGamma.lrTestPassed = 2 * (generalizedGamma.logLikelihood - bestSpecialCase) > invChi2(0.95, 1);
+    }
     
     if (analysisResults.length === 0) {
         return { results: [], best: null };
     }
 
-    analysisResults.sort((a, b) => (b.logLikelihood ?? -Infinity) - (a.logLikelihood ?? -Infinity));
-    
-    const bestDistribution = analysisResults[0].distribution;
+    const weibull2P = analysisResults.find(r => r.distribution === 'Weibull');
+    const weibull3PParams = fitWeibull3PMLE(censoredData);
+    if (weibull2P && weibull3PParams.gamma && isFiniteNumber(weibull3PParams.lkv)) {
+        const gammaMax = Math.min(...censoredData.filter(d => d.event === 1).map(d => d.time)) * GAMMA_SEARCH_LIMIT;
+        analysisResults.push({
+            distribution: 'Weibull',
+            params: weibull3PParams,
+            rSquared: estimateParametersByRankRegression('Weibull', rankFailureTimes, suspensionTimes, 'SRM', weibull3PParams.gamma, rankCounts)?.params.rho ?? 0,
+            logLikelihood: weibull3PParams.lkv,
+            ...goodnessOfFit('Weibull', weibull3PParams, censoredData, weibull3PParams.lkv, 3),
+            lrTestPassed: 2 * (weibull3PParams.lkv - weibull2P.logLikelihood) > invChi2(0.95, 1)
+                && weibull3PParams.gamma < gammaMax * 0.99,
+        });
+    }
+
+    analysisResults = rankDistributionResults(analysisResults, rule);
+    const bestDistribution = analysisResults[0]?.distribution ?? null;
 
     return { results: analysisResults, best: bestDistribution };
 }
 
-export function getFailureProbWithBounds(t: number, T: number, beta: number, eta: number, n: number, confidence: number) {
-    const z = invNormalCdf(1 - (1 - confidence) / 2);
-    
-    const var_b = beta * beta / n;
-    const var_k = eta * eta / (n * beta * beta);
-    const cov_bk = 0.277 * beta * eta / n;
-
-    if (t === 0) {
-        const medianF = weibullCDF(T, beta, eta);
-        if (!isFinite(medianF) || medianF <= 0 || medianF >= 1) {
-            return { li: medianF, median: medianF, ls: medianF };
-        }
-        const dFdb = -Math.pow(T / eta, beta) * Math.log(T / eta) * Math.exp(-Math.pow(T / eta, beta));
-        const dFdk = Math.pow(T / eta, beta) * (beta / eta) * Math.exp(-Math.pow(T / eta, beta));
-        const var_F = dFdb*dFdb * var_b + dFdk*dFdk * var_k + 2*dFdb*dFdk * cov_bk;
+// Scale and shape parameters that ended near the edge of floating point, where the fit has
+// collapsed onto the data (a spread of 1e-311, a shape of 1e14) instead of describing it.
+const DEGENERATE_PARAMETER_LIMIT = 1e12;
+const POSITIVE_PARAMETERS = ['beta', 'eta', 'stdDev', 'lambda', 'alpha', 'sigma', 'k', 'theta'] as const;
 
-        if(var_F < 0 || !(1 - medianF > 0) || !isFinite(var_F)) {
-            return { li: medianF, median: medianF, ls: medianF };
-        }
-        const w = Math.exp( (z * Math.sqrt(var_F)) / ( (1 - medianF) * Math.log(1 / (1 - medianF)) ) );
-        const li = 1 - Math.pow(1 - medianF, 1/w);
-        const ls = 1 - Math.pow(1 - medianF, w);
-        return { li: li, median: medianF, ls: ls };
-    }
+export function hasDegenerateParameters(params: Parameters): boolean {
+    return POSITIVE_PARAMETERS.some(key => {
+        const value = params[key];
+        return value != null && !(value > 1 / DEGENERATE_PARAMETER_LIMIT && value < DEGENERATE_PARAMETER_LIMIT);
+    });
+}
 
-    const R_t = weibullSurvival(t, beta, eta);
-    const R_t_plus_T = weibullSurvival(t + T, beta, eta);
+// Probability that an item aged t fails within the next T, with Fisher matrix bounds.
+// Bounds are taken on ln(H(t + T) - H(t)), which reduces to the Weibull paper scale when t = 0.
+export function getFailureProbWithBounds(t: number, T: number, fisher: FisherMatrixResult, confidence: number, sided: BoundsSide = 'two-sided') {
+    const { distribution, params } = fisher;
+    const cumulativeHazard = (p: Parameters, time: number) => time > 0 ? -Math.log(getReliability(distribution, p, time)) : 0;
+    const u = deltaMethodInterval(fisher, p => Math.log(cumulativeHazard(p, t + T) - cumulativeHazard(p, t)), boundsZ(confidence, sided));
 
-    const probFailureMedian = R_t > 1e-9 ? (R_t - R_t_plus_T) / R_t : 1;
-    
-    if (!isFinite(R_t) || R_t <= 1e-9) {
-      return { li: probFailureMedian, median: probFailureMedian, ls: probFailureMedian };
+    const median = 1 - getReliability(distribution, params, t + T) / getReliability(distribution, params, t);
+    if (!isFiniteNumber(u.lower) || !isFiniteNumber(u.upper)) {
+        return { li: median, median, ls: median };
     }
+    return { li: smallestExtremeCdf(u.lower), median, ls: smallestExtremeCdf(u.upper) };
+}
 
-    const dPdb_term1 = -Math.pow((t+T)/eta, beta) * Math.log((t+T)/eta) * R_t_plus_T;
-    const dPdb_term2 = -(-Math.pow(t/eta, beta) * Math.log(t/eta) * R_t);
-    const dPdb = (1/R_t) * (dPdb_term1 - dPdb_term2) - ((R_t - R_t_plus_T) / (R_t * R_t)) * dPdb_term2;
-
-    const dPdk_term1 = R_t_plus_T * (beta/eta) * Math.pow((t+T)/eta, beta);
-    const dPdk_term2 = R_t * (beta/eta) * Math.pow(t/eta, beta);
-    const dPdk = (1/R_t) * (dPdk_term1 - dPdk_term2) + ((R_t - R_t_plus_T) / (R_t*R_t)) * dPdk_term2;
-
-    const var_P = dPdb*dPdb * var_b + dPdk*dPdk * var_k + 2 * dPdb*dPdk * cov_bk;
-    
-    if (var_P < 0 || !isFinite(var_P)) {
-        return { li: probFailureMedian, median: probFailureMedian, ls: probFailureMedian };
+const RENEWAL_GRID_STEPS = 400;
+
+// Renewal function M(t) of a new item on a uniform grid over [0, horizon]: M = F + M * dF,
+// with the convolution integrated by the trapezoidal rule
+export function renewalFunctionGrid(distribution: Distribution, params: Parameters, horizon: number, steps: number = RENEWAL_GRID_STEPS): number[] {
+    const F = Array.from({ length: steps + 1 }, (_, i) => 1 - getReliability(distribution, params, horizon * i / steps));
+    const dF = (j: number) => F[j] - F[j - 1];
+    const M = [F[0] < 1 ? F[0] / (1 - F[0]) : 0];
+    for (let i = 1; i <= steps; i++) {
+        let sum = F[i] + dF(1) * M[i - 1] / 2;
+        for (let j = 2; j <= i; j++) sum += dF(j) * (M[i - j] + M[i - j + 1]) / 2;
+        M.push(sum / (1 - dF(1) / 2));
     }
+    return M;
+}
 
-    const se_P = Math.sqrt(var_P);
-    const probFailureLi = Math.max(0, probFailureMedian - z * se_P);
-    const probFailureLs = Math.min(1, probFailureMedian + z * se_P);
-
-    return { li: probFailureLi, median: probFailureMedian, ls: probFailureLs };
+// Failures in (age, age + period] of an item already at `age`: its own failure, then the renewals
+// of its replacement over what is left of the period
+function expectedFailuresWithRenewals(distribution: Distribution, params: Parameters, age: number, period: number, renewal: number[]): number {
+    const steps = renewal.length - 1;
+    const survivalAtAge = getReliability(distribution, params, age);
+    if (!(survivalAtAge > 0)) return 1 + renewal[steps];
+    let expected = 0;
+    for (let j = 1; j <= steps; j++) {
+        const failing = (getReliability(distribution, params, age + period * (j - 1) / steps) - getReliability(distribution, params, age + period * j / steps)) / survivalAtAge;
+        expected += failing * (1 + (renewal[steps - j] + renewal[steps - j + 1]) / 2);
+    }
+    return expected;
 }
 
 export function calculateExpectedFailures(input: BudgetInput): ExpectedFailuresResult {
-    const { beta, eta, items, period, confidenceLevel } = input;
-    const n = input.failureTimes?.length ?? items.reduce((sum, item) => sum + item.quantity, 0);
+    const { beta, eta, items, period, confidenceLevel, data, sided = 'two-sided', renewals = false } = input;
+    const fisher = calculateFisherMatrix('Weibull', { beta, eta }, data);
+
+    // The renewal function only depends on the parameters, so the delta-method perturbations share it across items
+    const renewalCache = new Map<string, number[]>();
+    const withRenewals = (p: Parameters, age: number) => {
+        const key = `${p.beta}:${p.eta}`;
+        if (!renewalCache.has(key)) renewalCache.set(key, renewalFunctionGrid('Weibull', p, period));
+        return expectedFailuresWithRenewals('Weibull', p, age, period, renewalCache.get(key));
+    };
 
     const details = items.map(item => {
         const { age, quantity } = item;
-        const {li: probLi, median: probMedian, ls: probLs} = getFailureProbWithBounds(age, period, beta, eta, n, confidenceLevel);
+        if (renewals) {
+            const median = withRenewals({ beta, eta }, age);
+            // Log scale keeps the lower bound positive
+            const u = fisher ? deltaMethodInterval(fisher, p => Math.log(withRenewals(p, age)), boundsZ(confidenceLevel, sided)) : null;
+            const bounded = u && isFiniteNumber(u.lower) && isFiniteNumber(u.upper);
+            return {
+                age,
+                quantity,
+                li: (bounded ? Math.exp(u.lower) : median) * quantity,
+                median: median * quantity,
+                ls: (bounded ? Math.exp(u.upper) : median) * quantity,
+            };
+        }
+
+        const probMedian = 1 - weibullSurvival(age + period, beta, eta) / weibullSurvival(age, beta, eta);
+        // Without a usable information matrix the bounds collapse onto the point estimate
+        const {li: probLi, ls: probLs} = fisher
+            ? getFailureProbWithBounds(age, period, fisher, confidenceLevel, sided)
+            : { li: probMedian, ls: probMedian };
 
         return {
             age,
@@ -1048,7 +2338,7 @@ export function calculateExpectedFailures(input: BudgetInput): ExpectedFailuresR
         return acc;
     }, { li: 0, median: 0, ls: 0 });
 
-    return { details, totals };
+    return { details, totals, standardErrors: fisher?.standardErrors };
 }
 
 export function analyzeCompetingFailureModes(
@@ -1126,13 +2416,52 @@ export function analyzeCompetingFailureModes(
     };
 }
 
+/* -----------------------
+   Lifetime Sampling
+   ----------------------- */
+
+// Inverse transform on the survival function; distributions without a closed-form quantile are bisected on R(t).
+// Models with mass below zero (Normal, Gumbel) are truncated at t = 0: u is the survival probability
+// given t > 0, so a lifetime is never negative or instantly zero.
+export function sampleLifetime(distribution: Distribution, params: Parameters, u: number = Math.random()): number {
+    const survivalAtZero = getReliability(distribution, params, 0);
+    const survival = Math.min(Math.max(u, 1e-12), 1 - 1e-12) * (survivalAtZero > 0 && survivalAtZero < 1 ? survivalAtZero : 1);
+    switch (distribution) {
+        case 'Weibull':
+            if (params.beta && params.eta) return (params.gamma ?? 0) + params.eta * Math.pow(-Math.log(survival), 1 / params.beta);
+            break;
+        case 'Exponential':
+            if (params.lambda) return -Math.log(survival) / params.lambda;
+            break;
+        case 'Lognormal':
+            if (params.mean !== undefined && params.stdDev) return Math.exp(params.mean + params.stdDev * invNormalCdf(1 - survival));
+            break;
+    }
+    let hi = 1;
+    while (getReliability(distribution, params, hi) > survival && hi < 1e12) hi *= 2;
+    let lo = 0;
+    for (let i = 0; i < 60; i++) {
+        const mid = (lo + hi) / 2;
+        if (getReliability(distribution, params, mid) > survival) lo = mid; else hi = mid;
+    }
+    return (lo + hi) / 2;
+}
+
+// Parameters of an asset's fitted distribution. Assets analysed before the full parameter set was
+// stored only carry the flat Weibull, (Log)normal and Exponential fields.
+export function getAssetParameters(asset: AssetData): Parameters {
+    if (asset.params) return asset.params;
+    const { beta, eta, gamma, mean, stdDev, lambda, rho } = asset;
+    return { beta, eta, gamma, mean, stdDev, lambda, rho };
+}
+
 export function getReliability(distribution: Distribution, params: Parameters, time: number): number {
     if (time < 0) return 1;
 
     switch(distribution) {
         case 'Weibull':
             if (params.beta && params.eta) {
-                return weibullSurvival(time, params.beta, params.eta);
+                return weibullSurvival(time, params.beta, params.eta, params.gamma);
             }
             break;
         case 'Lognormal':
@@ -1150,6 +2479,31 @@ export function getReliability(distribution: Distribution, params: Parameters, t
                 return Math.exp(-params.lambda * time);
             }
             break;
+        case 'Loglogistic':
+            if (params.beta && params.alpha) {
+                return loglogisticSurvival(time, params.beta, params.alpha);
+            }
+            break;
+        case 'Gumbel':
+            if (params.mu !== undefined && params.sigma) {
+                return gumbelSurvival(time, params.mu, params.sigma);
+            }
+            break;
+        case 'Gamma':
+            if (params.k && params.theta) {
+                return gammaSurvival(time, params.k, params.theta);
+            }
+            break;
+        case 'GeneralizedGamma':
+            if (params.mu !== undefined && params.sigma && params.q !== undefined) {
+                return generalizedGammaSurvival(time, params.mu, params.sigma, params.q);
+            }
+            break;
+        case 'MixedWeibull':
+            if (params.subpopulations?.length) {
+                return mixedWeibullSurvival(time, params.subpopulations);
+            }
+            break;
     }
     return NaN;
 }
@@ -1158,7 +2512,7 @@ export function getMedianLife(distribution: Distribution, params: Parameters): n
     switch(distribution) {
         case 'Weibull':
             if (params.beta && params.eta) {
-                return params.eta * Math.pow(Math.log(2), 1 / params.beta);
+                return (params.gamma ?? 0) + params.eta * Math.pow(Math.log(2), 1 / params.beta);
             }
             break;
         case 'Lognormal':
@@ -1176,6 +2530,33 @@ export function getMedianLife(distribution: Distribution, params: Parameters): n
                 return Math.log(2) / params.lambda;
             }
             break;
+        case 'Loglogistic':
+            if (params.alpha) {
+                return params.alpha;
+            }
+            break;
+        case 'Gumbel':
+            if (params.mu !== undefined && params.sigma) {
+                return params.mu - params.sigma * Math.log(Math.log(2));
+            }
+            break;
+        case 'Gamma':
+        case 'GeneralizedGamma':
+            return MLE_MODELS[distribution].quantile(params, 0.5);
+        case 'MixedWeibull':
+            if (params.subpopulations?.length) {
+                // No closed form: bisect on ln(t) between the subpopulations' medians
+                const medians = params.subpopulations.map(p => Math.log(p.eta * Math.pow(Math.log(2), 1 / p.beta)));
+                let lo = Math.min(...medians);
+                let hi = Math.max(...medians);
+                for (let i = 0; i < 60; i++) {
+                    const mid = (lo + hi) / 2;
+                    if (mixedWeibullSurvival(Math.exp(mid), params.subpopulations) > 0.5) lo = mid;
+                    else hi = mid;
+                }
+                return Math.exp((lo + hi) / 2);
+            }
+            break;
     }
     return NaN;
 }
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeFailureTrend, calculateMeanCumulativeFunction, cumulativeFailureTimes, fitCrowAmsaa } from './repairable-systems';
+import type { CrowAmsaaResult, TrendAnalysis } from './types';
+
+describe('fitCrowAmsaa', () => {
+  const times = [100, 300, 600, 900];
+
+  it('matches the closed-form MLE β = n / Σ ln(T / tᵢ), λ = n / T^β when time-terminated', () => {
+    const fit = fitCrowAmsaa(times, 0, 1000) as CrowAmsaaResult;
+    const beta = 4 / times.reduce((sum, t) => sum + Math.log(1000 / t), 0);
+    expect(fit.failureTerminated).toBe(false);
+    expect(fit.beta).toBeCloseTo(beta, 12);
+    expect(fit.lambda).toBeCloseTo(4 / 1000 ** beta, 12);
+    expect(fit.instantaneousMtbf).toBeCloseTo(1000 / (4 * beta), 8);
+    expect(fit.cumulativeMtbf).toBe(250);
+  });
+
+  it('ends the observation at the last failure without an end time', () => {
+    const fit = fitCrowAmsaa(times, 500) as CrowAmsaaResult;
+    const beta = 4 / times.reduce((sum, t) => sum + Math.log(900 / t), 0);
+    expect(fit.failureTerminated).toBe(true);
+    expect(fit.beta).toBeCloseTo(beta, 12);
+    expect(fit.projectedFailures).toBeCloseTo(4 * ((1400 / 900) ** beta - 1), 8);
+  });
+
+  it('needs three failures', () => {
+    expect(fitCrowAmsaa([100, 200], 0)).toBeNull();
+  });
+});
+
+describe('cumulativeFailureTimes', () => {
+  it('accumulates the times between failures and skips non-positive gaps', () => {
+    expect(cumulativeFailureTimes([100, 0, 200, -5, 50])).toEqual([100, 300, 350]);
+  });
+});
+
+describe('analyzeFailureTrend', () => {
+  it('finds no trend in evenly spaced failures', () => {
+    const analysis = analyzeFailureTrend([100, 100, 100, 100, 100]) as TrendAnalysis;
+    expect(analysis.tests[0].statistic).toBeCloseTo(0, 12);
+    expect(analysis.trend).toBe('none');
+  });
+
+  it('takes the MIL-HDBK-189 p-value from a chi-square with 2(n - 1) degrees of freedom', () => {
+    // Cumulative times 100, 300, 1000: for 4 degrees of freedom P(X <= x) = 1 - e^(-x/2) (1 + x/2)
+    const analysis = analyzeFailureTrend([100, 200, 700]) as TrendAnalysis;
+    const statistic = 2 * (Math.log(10) + Math.log(1000 / 300));
+    const cdf = 1 - Math.exp(-statistic / 2) * (1 + statistic / 2);
+    const milHdbk = analysis.tests.find(t => t.test === 'milHdbk189')!;
+    expect(milHdbk.statistic).toBeCloseTo(statistic, 12);
+    expect(milHdbk.pValue).toBeCloseTo(2 * Math.min(cdf, 1 - cdf), 10);
+
+    const laplace = analysis.tests.find(t => t.test === 'laplace')!;
+    expect(laplace.statistic).toBeCloseTo((200 - 500) / (1000 * Math.sqrt(1 / 24)), 12);
+  });
+
+  it('reports deterioration when the gaps keep shrinking', () => {
+    expect(analyzeFailureTrend([1000, 800, 600, 450, 300, 200, 120, 80, 50, 30])?.trend).toBe('deteriorating');
+  });
+});
+
+describe('calculateMeanCumulativeFunction', () => {
+  it('averages the event counts over the units still observed at each age', () => {
+    const { steps } = calculateMeanCumulativeFunction([
+      { id: 'a', eventAges: [100, 300], censorAge: 400 },
+      { id: 'b', eventAges: [100], censorAge: 150 },
+      { id: 'c', eventAges: [], censorAge: 400 },
+    ]);
+    expect(steps.map(s => [s.age, s.atRisk, s.events])).toEqual([[100, 3, 2], [300, 2, 1]]);
+    expect(steps[0].mcf).toBeCloseTo(2 / 3, 12);
+    expect(steps[1].mcf).toBeCloseTo(2 / 3 + 1 / 2, 12);
+  });
+
+  it('counts the events of a single unit with no uncertainty', () => {
+    const { steps } = calculateMeanCumulativeFunction([{ id: 'a', eventAges: [50, 120, 200], censorAge: 250 }]);
+    expect(steps.map(s => s.mcf)).toEqual([1, 2, 3]);
+    steps.forEach(s => expect(s.lower).toBe(s.upper));
+  });
+});
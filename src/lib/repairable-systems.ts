@@ -0,0 +1,145 @@
+import type { CrowAmsaaResult, McfStep, MeanCumulativeFunction, RecurrenceHistory, TrendAnalysis, TrendTestResult } from './types';
+import { gammaSurvival, invNormalCdf, normalCdf } from './reliability';
+
+/* -----------------------
+   Repairable Systems (Crow-AMSAA / Power-Law NHPP)
+   ----------------------- */
+
+const CROW_AMSAA_MIN_FAILURES = 3;
+const CROW_AMSAA_LINE_POINTS = 50;
+
+// Cumulative operating time at each failure, from the times between failures in log order.
+// The clock starts at the return to service that opens the log.
+export const cumulativeFailureTimes = (timesBetweenFailures: number[]) => {
+    let total = 0;
+    return timesBetweenFailures.filter(t => t > 0).map(t => (total += t));
+};
+
+// Power-law NHPP with expected cumulative failures N(t) = lambda * t^beta. Repairs are minimal
+// (the asset is returned as bad as old), so beta > 1 means the failures are coming closer together.
+// Without an end time the observation is failure-terminated at the last failure.
+export function fitCrowAmsaa(cumulativeTimes: number[], projectionHorizon: number, endTime?: number): CrowAmsaaResult | null {
+    const times = cumulativeTimes.filter(t => t > 0).sort((a, b) => a - b);
+    const n = times.length;
+    if (n < CROW_AMSAA_MIN_FAILURES) return null;
+
+    const failureTerminated = !(endTime && endTime > times[n - 1]);
+    const T = failureTerminated ? times[n - 1] : endTime;
+    // The last failure adds ln(T / T) = 0 when failure-terminated
+    const sumLog = times.reduce((sum, t) => sum + Math.log(T / t), 0);
+    if (sumLog <= 0) return null;
+
+    const beta = n / sumLog;
+    const lambda = n / Math.pow(T, beta);
+    const expectedFailures = (t: number) => lambda * Math.pow(t, beta);
+
+    const horizon = Math.max(0, projectionHorizon);
+    const tMin = times[0];
+    const tMax = T + horizon;
+    const line = Array.from({ length: CROW_AMSAA_LINE_POINTS }, (_, i) => {
+        const time = tMin * Math.pow(tMax / tMin, i / (CROW_AMSAA_LINE_POINTS - 1));
+        return { time, failures: expectedFailures(time) };
+    });
+
+    return {
+        beta,
+        lambda,
+        failures: n,
+        endTime: T,
+        failureTerminated,
+        instantaneousMtbf: 1 / (lambda * beta * Math.pow(T, beta - 1)),
+        cumulativeMtbf: T / n,
+        projectionHorizon: horizon,
+        projectedFailures: expectedFailures(T + horizon) - n,
+        points: times.map((time, i) => ({ time, failures: i + 1 })),
+        line,
+    };
+}
+
+/* -----------------------
+   Trend Tests (Laplace / MIL-HDBK-189 / Lewis-Robinson)
+   ----------------------- */
+
+const TREND_MIN_FAILURES = 3;
+
+// Tests whether the times between failures are identically distributed before a lifetime
+// distribution is fitted to them. All three are failure-terminated at the last failure;
+// Laplace and MIL-HDBK-189 test against an HPP, Lewis-Robinson against any renewal process.
+export function analyzeFailureTrend(timesBetweenFailures: number[], significanceLevel: number = 0.05): TrendAnalysis | null {
+    const gaps = timesBetweenFailures.filter(t => t > 0);
+    const times = cumulativeFailureTimes(gaps);
+    const n = times.length;
+    if (n < TREND_MIN_FAILURES) return null;
+
+    const T = times[n - 1];
+    const m = n - 1;
+    const twoSided = (p: number) => Math.min(1, 2 * Math.min(p, 1 - p));
+
+    // Laplace: failures bunched towards the end of the window give a positive statistic
+    const laplace = (times.slice(0, m).reduce((sum, t) => sum + t, 0) / m - T / 2) / (T * Math.sqrt(1 / (12 * m)));
+
+    // MIL-HDBK-189: chi-square with 2(n - 1) degrees of freedom, i.e. a gamma with shape n - 1 and
+    // scale 2; small values mean deterioration
+    const milHdbk = 2 * times.slice(0, m).reduce((sum, t) => sum + Math.log(T / t), 0);
+    const milHdbkCdf = 1 - gammaSurvival(milHdbk, m, 2);
+
+    // Lewis-Robinson: Laplace scaled by the coefficient of variation of the gaps
+    const mean = gaps.reduce((sum, x) => sum + x, 0) / n;
+    const sd = Math.sqrt(gaps.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (n - 1));
+    const lewisRobinson = sd > 0 ? laplace / (sd / mean) : laplace;
+
+    const results: Omit<TrendTestResult, 'significant'>[] = [
+        { test: 'laplace', statistic: laplace, pValue: twoSided(normalCdf(laplace)) },
+        { test: 'milHdbk189', statistic: milHdbk, pValue: twoSided(milHdbkCdf) },
+        { test: 'lewisRobinson', statistic: lewisRobinson, pValue: twoSided(normalCdf(lewisRobinson)) },
+    ];
+    const tests: TrendTestResult[] = results.map(r => ({ ...r, significant: r.pValue < significanceLevel }));
+
+    // A trend is reported when at least two of the three tests reject
+    const significant = tests.filter(r => r.significant).length >= 2;
+    return {
+        tests,
+        significanceLevel,
+        failures: n,
+        trend: !significant ? 'none' : laplace > 0 ? 'deteriorating' : 'improving',
+    };
+}
+
+/* -----------------------
+   Mean Cumulative Function (Nelson, fleets of repairable units)
+   ----------------------- */
+
+// Non-parametric estimate of the mean number of failures per unit by age, over units observed
+// up to different censoring ages. Bounds use Nelson's robust variance, which does not assume
+// Poisson counts, on a log scale so the lower bound stays positive.
+export function calculateMeanCumulativeFunction(histories: RecurrenceHistory[], confidenceLevel: number = 95): MeanCumulativeFunction {
+    const z = invNormalCdf(1 - (1 - confidenceLevel / 100) / 2);
+    const units = histories
+        .filter(h => h.censorAge > 0)
+        .map(h => ({ ...h, eventAges: h.eventAges.filter(a => a > 0 && a <= h.censorAge) }));
+    const ages = [...new Set(units.flatMap(u => u.eventAges))].sort((a, b) => a - b);
+
+    let mcf = 0;
+    // Running sum, per unit, of its deviations from the mean increment; Var[M(t)] is the sum of their squares
+    const deviations = units.map(() => 0);
+    const steps: McfStep[] = [];
+    for (const age of ages) {
+        const atRiskUnits = units.map(u => u.censorAge >= age);
+        const atRisk = atRiskUnits.filter(Boolean).length;
+        if (atRisk === 0) continue;
+        const counts = units.map(u => u.eventAges.filter(a => a === age).length);
+        const events = counts.reduce((sum, c, i) => sum + (atRiskUnits[i] ? c : 0), 0);
+        const increment = events / atRisk;
+        mcf += increment;
+
+        units.forEach((_, i) => {
+            if (atRiskUnits[i]) deviations[i] += (counts[i] - increment) / atRisk;
+        });
+        const standardError = Math.sqrt(deviations.reduce((sum, d) => sum + d * d, 0));
+        const factor = mcf > 0 ? Math.exp(z * standardError / mcf) : 1;
+
+        steps.push({ age, atRisk, events, mcf, standardError, lower: mcf / factor, upper: mcf * factor });
+    }
+
+    return { steps, units: units.length, confidenceLevel };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { optimizeSpareStock } from './spares';
+import type { SparesInput, SparesOptimization } from './types';
+
+const input: SparesInput = {
+  distribution: 'Exponential',
+  params: { lambda: 0.001 },
+  items: [{ age: 0, quantity: 4 }, { age: 5000, quantity: 6 }],
+  leadTime: 100,
+  reviewPeriod: 200,
+  unitCost: 1000,
+  holdingCost: 200,
+  fillRate: 0.95,
+  method: 'poisson',
+};
+
+describe('optimizeSpareStock', () => {
+  it('has a Poisson lead time demand of n (1 - e^-λL) for memoryless items, whatever their age', () => {
+    const result = optimizeSpareStock(input) as SparesOptimization;
+    const mean = 10 * (1 - Math.exp(-0.1));
+    expect(result.leadTimeDemand.mean).toBeCloseTo(mean, 6);
+    expect(result.leadTimeDemand.variance).toBeCloseTo(mean, 6);
+
+    let term = Math.exp(-mean);
+    let covered = term;
+    for (let k = 1; k <= result.min; k++) covered += term *= mean / k;
+    expect(result.stockOutProbability).toBeCloseTo(1 - covered, 6);
+  });
+
+  it('stocks the smallest min and max that reach the target fill rate', () => {
+    const result = optimizeSpareStock(input) as SparesOptimization;
+    expect(result.fillRate).toBeGreaterThanOrEqual(0.95);
+    expect(result.levels[result.min - 1].fillRate).toBeLessThan(0.95);
+    expect(result.max).toBeGreaterThanOrEqual(result.min);
+    expect(result.stockInvestment).toBe(result.max * 1000);
+  });
+
+  it('simulates renewals as a Poisson process with mean nλL for exponential lives', () => {
+    const result = optimizeSpareStock({ ...input, method: 'simulation', runs: 20000 }) as SparesOptimization;
+    expect(result.leadTimeDemand.mean).toBeCloseTo(1, 1);
+    expect(result.leadTimeDemand.variance).toBeCloseTo(1, 1);
+  });
+
+  it('rejects a fill rate outside (0, 1)', () => {
+    expect(optimizeSpareStock({ ...input, fillRate: 1 })).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,113 @@
+import type { SparesInput, SparesOptimization, SparesStockLevel } from './types';
+import { getReliability, sampleLifetime } from './reliability';
+
+/* -----------------------
+   Spare Parts
+   ----------------------- */
+
+const SPARES_DEFAULT_RUNS = 5000;
+const SPARES_TAIL = 1e-9;
+
+// Demand probabilities over a window, truncated where the tail becomes negligible
+function poissonDemand(mean: number): number[] {
+    const probabilities = [Math.exp(-mean)];
+    let cumulative = probabilities[0];
+    for (let k = 1; cumulative < 1 - SPARES_TAIL && k < 10000; k++) {
+        probabilities.push(probabilities[k - 1] * mean / k);
+        cumulative += probabilities[k];
+    }
+    return probabilities;
+}
+
+// Installed items fail from their current age, then their replacements renew from zero
+function simulatedDemand(input: SparesInput, windows: number[], runs: number): number[][] {
+    const { distribution, params, items } = input;
+    const horizon = Math.max(...windows);
+    const counts = windows.map(() => [] as number[]);
+    const survivalAtAge = items.map(item => getReliability(distribution, params, item.age));
+
+    for (let run = 0; run < runs; run++) {
+        const demand = windows.map(() => 0);
+        items.forEach((item, i) => {
+            for (let q = 0; q < item.quantity; q++) {
+                // Residual life given survival to the current age
+                let time = sampleLifetime(distribution, params, Math.random() * survivalAtAge[i]) - item.age;
+                while (time <= horizon) {
+                    windows.forEach((w, j) => { if (time <= w) demand[j]++; });
+                    time += sampleLifetime(distribution, params);
+                }
+            }
+        });
+        demand.forEach((d, j) => { counts[j][d] = (counts[j][d] ?? 0) + 1; });
+    }
+    return counts.map(c => Array.from(c, n => (n ?? 0) / runs));
+}
+
+const expectedShortage = (probabilities: number[], stock: number) =>
+    probabilities.reduce((sum, p, k) => k > stock ? sum + p * (k - stock) : sum, 0);
+
+const expectedDemand = (probabilities: number[]) => probabilities.reduce((sum, p, k) => sum + p * k, 0);
+
+// Share of the demand served from the shelf when `stock` units cover the window
+const spareFillRate = (probabilities: number[], stock: number) => {
+    const mean = expectedDemand(probabilities);
+    return mean > 0 ? 1 - expectedShortage(probabilities, stock) / mean : 1;
+};
+
+const smallestStockFor = (probabilities: number[], fillRate: number) => {
+    let stock = 0;
+    while (spareFillRate(probabilities, stock) < fillRate && stock < probabilities.length) stock++;
+    return stock;
+};
+
+// Min/max policy: the min covers the lead time demand and the max the demand until the next
+// review plus its lead time, both at the target fill rate
+export function optimizeSpareStock(input: SparesInput): SparesOptimization | { error: string } {
+    const { distribution, params, items, leadTime, reviewPeriod, unitCost, holdingCost, fillRate, method } = input;
+    if (items.length === 0 || items.some(item => item.age < 0 || item.quantity < 0)) return { error: 'Informe a população instalada com idades e quantidades válidas.' };
+    if (isNaN(getReliability(distribution, params, 0))) return { error: 'A distribuição de vida não tem parâmetros válidos.' };
+    if (!(leadTime > 0) || !(reviewPeriod >= 0)) return { error: 'O lead time deve ser positivo e o período de revisão não pode ser negativo.' };
+    if (!(fillRate > 0 && fillRate < 1)) return { error: 'O nível de atendimento deve estar entre 0 e 100%.' };
+
+    const windows = [leadTime, leadTime + reviewPeriod];
+    const [leadTimeProbabilities, protectionProbabilities] = method === 'poisson'
+        // Conditional failure probability of each installed item, ignoring repeat failures within the window
+        ? windows.map(w => poissonDemand(items.reduce((sum, item) => {
+            const survival = getReliability(distribution, params, item.age);
+            return survival > 0 ? sum + item.quantity * (1 - getReliability(distribution, params, item.age + w) / survival) : sum + item.quantity;
+        }, 0)))
+        : simulatedDemand(input, windows, input.runs ?? SPARES_DEFAULT_RUNS);
+
+    const mean = expectedDemand(leadTimeProbabilities);
+    const variance = leadTimeProbabilities.reduce((sum, p, k) => sum + p * (k - mean) ** 2, 0);
+    const stockOut = (stock: number) => leadTimeProbabilities.reduce((sum, p, k) => k > stock ? sum + p : sum, 0);
+
+    const min = smallestStockFor(leadTimeProbabilities, fillRate);
+    const max = Math.max(min, smallestStockFor(protectionProbabilities, fillRate));
+
+    // Safety stock left when a replenishment arrives plus half of an average order
+    const safetyStock = leadTimeProbabilities.reduce((sum, p, k) => k < min ? sum + p * (min - k) : sum, 0);
+    const expectedOnHand = safetyStock + (max - min) / 2;
+
+    const levels: SparesStockLevel[] = Array.from({ length: max + 3 }, (_, stock) => ({
+        stock,
+        fillRate: spareFillRate(leadTimeProbabilities, stock),
+        stockOutProbability: stockOut(stock),
+    }));
+
+    return {
+        method,
+        leadTimeDemand: { mean, variance },
+        demandDistribution: leadTimeProbabilities
+            .map((probability, demand) => ({ demand, probability }))
+            .filter(d => d.probability > 1e-4),
+        min,
+        max,
+        fillRate: spareFillRate(leadTimeProbabilities, min),
+        stockOutProbability: stockOut(min),
+        expectedOnHand,
+        holdingCost: expectedOnHand * holdingCost,
+        stockInvestment: max * unitCost,
+        levels,
+    };
+}
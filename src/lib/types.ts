@@ -1,11 +1,12 @@
 import { z } from "zod";
 
-export type Distribution = 'Weibull' | 'Normal' | 'Lognormal' | 'Exponential' | 'Loglogistic' | 'Gumbel';
+export type Distribution = 'Weibull' | 'Normal' | 'Lognormal' | 'Exponential' | 'Loglogistic' | 'Gumbel' | 'Gamma' | 'GeneralizedGamma' | 'MixedWeibull';
 export type EstimationMethod = 'SRM' | 'MLE' | 'RRX';
 
 export interface WeibullParams {
   beta: number; // shape parameter
   eta: number;  // scale parameter (characteristic life)
+  gamma?: number; // location parameter (failure-free period), 3-parameter Weibull only
   rho: number; // correlation coefficient (R-squared)
   lkv?: number; // log-likelihood value
 }
@@ -34,18 +35,54 @@ export interface LoglogisticParams {
     beta: number; // shape
     alpha: number; // scale (median)
     rho: number;
+    lkv?: number;
 }
 
 export interface GumbelParams {
     mu: number; // location
     sigma: number; // scale
     rho: number;
+    lkv?: number;
+}
+export interface GammaParams {
+    k: number; // shape
+    theta: number; // scale
+    rho: number;
+    lkv?: number;
+}
+
+// Lawless form on w = (ln(t) - mu) / sigma: q = 1 is the Weibull, q = 0 the Lognormal, q = sigma the Gamma
+export interface GeneralizedGammaParams {
+    mu: number;
+    sigma: number;
+    q: number; // shape
+    rho: number;
+    lkv?: number;
 }
 
-export type CensoredData = { time: number; event: 1 | 0 };
+export type WeibullSubpopulation = { beta: number; eta: number; proportion: number };
+
+export interface MixedWeibullParams {
+    subpopulations: WeibullSubpopulation[]; // ordered by eta, proportions sum to 1
+    rho: number;
+    lkv?: number;
+}
+
+// For interval data, `lower` is set and the failure is only known to lie in (lower, time].
+// Left-censored failures are intervals with lower = 0.
+// `count` is the multiplicity of the observation for grouped data (defaults to 1).
+export type CensoredData = { time: number; event: 1 | 0; lower?: number; count?: number };
+
+export type IntervalData = { lower: number; upper: number };
+
+// Grouped data: number of units behind each entry of failureTimes / suspensionTimes.
+export interface GroupCounts {
+  failureCounts?: number[];
+  suspensionCounts?: number[];
+}
 
 
-export type Parameters = Partial<WeibullParams & NormalParams & LognormalParams & ExponentialParams & LoglogisticParams & GumbelParams>;
+export type Parameters = Partial<WeibullParams & NormalParams & LognormalParams & ExponentialParams & LoglogisticParams & GumbelParams & GammaParams & GeneralizedGammaParams & MixedWeibullParams>;
 
 export interface DataTypeOptions {
   hasSuspensions: boolean; // right-censored data
@@ -64,6 +101,40 @@ export type PlotData = {
     line: { x: number; y: number }[];
     rSquared: number;
     angle?: number;
+    // Fisher matrix bounds on the fitted line (MLE fits only)
+    bounds?: {
+      lower: { x: number; y: number }[];
+      upper: { x: number; y: number }[];
+      confidenceLevel: number;
+    };
+};
+
+export type BoundsSide = 'two-sided' | 'one-sided';
+
+export type BoundedEstimate = { lower: number; value: number; upper: number };
+
+export interface FisherMatrixResult {
+  distribution: Distribution;
+  params: Parameters;
+  paramNames: string[];
+  covariance: number[][]; // inverse of the observed information, in natural parameter units
+  standardErrors: Record<string, number>;
+  // Same estimate on the unconstrained scale used by the likelihood (positive parameters logged)
+  theta: number[];
+  thetaCovariance: number[][];
+}
+
+export type ProfileBoundsResult = {
+  distribution?: Distribution;
+  params?: Parameters;
+  confidenceLevel?: number;
+  sided?: BoundsSide;
+  // Likelihood ratio bounds on F(t) in Weibull paper coordinates: x = ln(t), y = ln(-ln(1 - F))
+  lowerLine?: { x: number; y: number }[];
+  upperLine?: { x: number; y: number }[];
+  reliabilityAtT?: (BoundedEstimate & { time: number }) | null;
+  timeAtReliability?: (BoundedEstimate & { reliability: number }) | null;
+  error?: string;
 };
 
 export type LRBoundsResult = {
@@ -106,19 +177,23 @@ export type ContourData = {
   };
 };
 
-export interface EstimateParams {
+export interface EstimateParams extends GroupCounts {
   dist: Distribution;
   failureTimes: number[];
   suspensionTimes?: number[];
+  intervals?: IntervalData[];
   method?: EstimationMethod;
   isGrouped?: boolean;
+  threeParameter?: boolean; // Weibull only: also estimate the location parameter (gamma)
+  subpopulations?: number; // Mixed Weibull only: number of subpopulations (2-4)
 }
 
-export interface Supplier {
+export interface Supplier extends GroupCounts {
   id: string;
   name: string;
   failureTimes: number[];
   suspensionTimes: number[];
+  intervals?: IntervalData[];
   color: string;
   distribution: Distribution;
   params: Parameters;
@@ -139,11 +214,136 @@ export interface ReliabilityData {
   lambda_t: ChartDataPoint[];
 }
 
+// Confidence interval on the Kaplan-Meier survival: plain Greenwood, or log-log, which stays within (0, 1)
+export type SurvivalIntervalMethod = 'greenwood' | 'logLog';
+
+export type NonParametricStep = {
+    time: number;
+    atRisk: number;
+    failures: number;
+    survival: number; // Kaplan-Meier
+    lower: number;
+    upper: number;
+    cumulativeHazard: number; // Nelson-Aalen
+    cumulativeHazardLower: number;
+    cumulativeHazardUpper: number;
+};
+
+export interface NonParametricSurvival {
+    steps: NonParametricStep[];
+    confidenceLevel: number;
+    method: SurvivalIntervalMethod;
+}
+
+// Repairable systems: power-law NHPP (Crow-AMSAA) on cumulative operating time at each failure
+export interface CrowAmsaaResult {
+    beta: number; // < 1 improving, 1 constant rate, > 1 deteriorating
+    lambda: number;
+    failures: number;
+    endTime: number; // T, end of the observation
+    failureTerminated: boolean; // observation ends at the last failure
+    instantaneousMtbf: number; // 1 / (lambda * beta * T^(beta - 1))
+    cumulativeMtbf: number; // T / n
+    projectionHorizon: number;
+    projectedFailures: number; // expected failures in (T, T + horizon]
+    points: { time: number; failures: number }[];
+    line: { time: number; failures: number }[];
+}
+
+// Degradation analysis: each model is a straight line Y = a + b * X on transformed axes
+export type DegradationModel = 'linear' | 'exponential' | 'power' | 'logarithmic';
+
+export type DegradationMeasurement = { unit: string; time: number; value: number };
+
+export type DegradationUnitFit = {
+    unit: string;
+    a: number;
+    b: number;
+    rSquared: number;
+    measurements: { time: number; value: number }[];
+    lastTime: number;
+    pseudoFailureTime: number | null; // null when the path never reaches the threshold
+};
+
+export interface DegradationAnalysis {
+    model: DegradationModel;
+    threshold: number;
+    increasing: boolean; // wear grows towards the threshold (vibration) rather than falling to it (pad thickness)
+    units: DegradationUnitFit[];
+    failureTimes: number[]; // pseudo-failure times
+    suspensionTimes: number[]; // last inspection of units that never reach the threshold
+}
+
+// Accelerated life testing: life-stress relationship L(S) scaling a Weibull (eta = L) or Lognormal (median = L)
+export type LifeStressModel = 'arrhenius' | 'eyring' | 'inversePowerLaw' | 'temperatureHumidity';
+
+export type AltDistribution = 'Weibull' | 'Lognormal';
+
+// Temperatures in °C; `humidity` (relative, %) is used by the temperature-humidity model only
+export type AltObservation = { time: number; event: 1 | 0; stress: number; humidity?: number };
+
+export interface AcceleratedLifeFit {
+    model: LifeStressModel;
+    distribution: AltDistribution;
+    // ln L(S) = offset(S) + theta[0] + theta[1] * x1(S) (+ theta[2] * x2(S))
+    theta: number[];
+    coefficients: Record<string, number>; // in the model's own parametrisation (e.g. B and C for Arrhenius)
+    shape: number; // Weibull beta or Lognormal sigma, common to all stress levels
+    logLikelihood: number;
+    failures: number;
+    suspensions: number;
+    stressLevels: { stress: number; humidity?: number }[];
+}
+
+// One repairable unit of a fleet: ages at its failures and the age it was last observed at
+export type RecurrenceHistory = { id: string; eventAges: number[]; censorAge: number };
+
+export type McfStep = {
+    age: number;
+    atRisk: number; // units still under observation at this age
+    events: number;
+    mcf: number; // mean cumulative number of failures per unit
+    standardError: number;
+    lower: number;
+    upper: number;
+};
+
+export interface MeanCumulativeFunction {
+    steps: McfStep[];
+    units: number;
+    confidenceLevel: number;
+}
+
+export type TrendTestName = 'laplace' | 'milHdbk189' | 'lewisRobinson';
+
+export type TrendTestResult = {
+    test: TrendTestName;
+    statistic: number;
+    pValue: number; // two-sided
+    significant: boolean;
+};
+
+export interface TrendAnalysis {
+    tests: TrendTestResult[];
+    significanceLevel: number;
+    failures: number;
+    trend: 'none' | 'improving' | 'deteriorating'; // 'none' when the gaps can be treated as i.i.d.
+}
+
+export type RankingRule = 'aicc' | 'bic' | 'logLikelihood' | 'andersonDarling' | 'ksPValue';
+
 export type DistributionAnalysisResult = {
     distribution: Distribution;
     params: Parameters;
     rSquared: number;
     logLikelihood: number;
+    parameterCount: number;
+    aicc: number;
+    bic: number;
+    andersonDarling: number; // against the Kaplan-Meier estimate, so suspensions are accounted for
+    ksStatistic: number;
+    ksPValue: number;
+    lrTestPassed?: boolean; // 3-parameter models only: clearly better than the 2-parameter fits they extend
 };
 
 // Budget Simulation
@@ -153,7 +353,9 @@ export interface BudgetInput {
     items: { age: number, quantity: number }[];
     period: number;
     confidenceLevel: number;
-    failureTimes?: number[];
+    data: CensoredData[]; // failures and suspensions the parameters were fitted to
+    sided?: BoundsSide;
+    renewals?: boolean; // count the failures of replacement items too, not only the first failure
 }
 
 export interface ExpectedFailuresResult {
@@ -169,8 +371,304 @@ export interface ExpectedFailuresResult {
         median: number;
         ls: number;
     };
+    standardErrors?: Record<string, number>;
 }
 
+// Reliability Block Diagram
+export type RbdBlockType = 'component' | 'series' | 'parallel' | 'kOutOfN' | 'standby';
+
+export type RbdComponentSource = { kind: 'supplier' | 'asset'; id: string };
+
+export interface RbdBlock {
+    id: string;
+    type: RbdBlockType;
+    name?: string;
+    // Components: where the distribution comes from, resolved into distribution / params before analysis
+    source?: RbdComponentSource;
+    distribution?: Distribution;
+    params?: Parameters;
+    children?: RbdBlock[];
+    k?: number; // kOutOfN: children that must work
+    switchReliability?: number; // standby: probability the switch works on demand; children are cold spares in order
+}
+
+export type RbdImportance = {
+    id: string;
+    name: string;
+    reliability: number;
+    birnbaum: number; // dR_sys / dR_i
+    criticality: number; // share of the system unreliability caused by the component
+};
+
+export interface RbdAnalysis {
+    curve: { time: number; reliability: number; hazard: number | null }[];
+    mttf: number;
+    missionTime: number;
+    reliabilityAtMission: number;
+    importance: RbdImportance[];
+}
+
+// Fault Tree Analysis
+export type FaultTreeNodeType = 'basic' | 'and' | 'or' | 'vote';
+
+export interface FaultTreeNode {
+    id: string;
+    type: FaultTreeNodeType;
+    name: string;
+    children?: FaultTreeNode[];
+    k?: number; // vote gates: failed inputs needed for the gate to fail
+    // Basic events: a fixed probability, or a lifetime distribution evaluated at the analysis time
+    probability?: number;
+    assetId?: string; // asset whose fitted distribution is used, resolved into distribution / params before analysis
+    distribution?: Distribution;
+    params?: Parameters;
+}
+
+export type FaultTreeCutSet = {
+    events: string[]; // basic event ids
+    probability: number;
+};
+
+export type FaultTreeImportance = {
+    id: string;
+    name: string;
+    probability: number;
+    fussellVesely: number; // share of the top event probability through cut sets containing the event
+};
+
+export interface FaultTreeAnalysis {
+    time: number;
+    topProbability: number; // exact, or the cut set upper bound when events repeat across many cut sets
+    cutSetUpperBound: number; // 1 - prod(1 - P(cut set))
+    cutSets: FaultTreeCutSet[];
+    importance: FaultTreeImportance[];
+}
+
+// Availability Simulation
+export interface AvailabilitySimulationUnit {
+    id: string;
+    name: string;
+    distribution: Distribution;
+    params: Parameters;
+    repairDistribution: Distribution;
+    repairParams: Parameters;
+    downtimeCostPerHour: number;
+}
+
+export interface AvailabilitySimulationOptions {
+    horizon: number;
+    runs: number;
+    crews: number; // 0 = one crew per unit
+    pmInterval: number; // operating age at which a unit is preventively renewed, 0 = run to failure
+    pmDuration: number;
+}
+
+export type PercentileSummary = {
+    mean: number;
+    p5: number;
+    p50: number;
+    p95: number;
+};
+
+export type AvailabilityUnitResult = {
+    id: string;
+    name: string;
+    availability: number;
+    failures: number; // means per run
+    preventiveActions: number;
+    downtime: number;
+    downtimeCost: number;
+};
+
+export interface AvailabilitySimulationResult {
+    runs: number;
+    horizon: number;
+    availability: PercentileSummary; // fleet availability across runs
+    downtimeCost: PercentileSummary;
+    meanWaitingTime: number; // per intervention, waiting for a free crew
+    units: AvailabilityUnitResult[];
+    histogram: { availability: number; frequency: number }[];
+    bands: { time: number; p5: number; p50: number; p95: number }[]; // fleet availability over the horizon
+}
+
+// Spare Parts
+export type SparesDemandMethod = 'simulation' | 'poisson';
+
+export interface SparesInput {
+    distribution: Distribution;
+    params: Parameters;
+    items: { age: number, quantity: number }[];
+    leadTime: number;
+    reviewPeriod: number;
+    unitCost: number;
+    holdingCost: number; // per unit held for a year
+    fillRate: number; // target, 0-1
+    method: SparesDemandMethod;
+    runs?: number;
+}
+
+export type SparesStockLevel = {
+    stock: number;
+    fillRate: number;
+    stockOutProbability: number;
+};
+
+export interface SparesOptimization {
+    method: SparesDemandMethod;
+    leadTimeDemand: { mean: number; variance: number };
+    demandDistribution: { demand: number; probability: number }[]; // during the lead time
+    min: number; // reorder point
+    max: number; // order-up-to level
+    fillRate: number; // achieved at the reorder point
+    stockOutProbability: number; // of running out before a replenishment arrives
+    expectedOnHand: number;
+    holdingCost: number; // per year
+    stockInvestment: number; // max stock at unit cost
+    levels: SparesStockLevel[];
+}
+
+// Age Replacement
+export type AgeReplacementObjective = 'cost' | 'availability';
+
+export interface AgeReplacementInput {
+    distribution: Distribution;
+    params: Parameters;
+    costCp: number;
+    costCu: number;
+    pmDuration: number; // hours of downtime per preventive replacement
+    mttr: number; // hours of downtime per corrective replacement
+    downtimeCostPerHour: number;
+    objective: AgeReplacementObjective;
+    fisher?: FisherMatrixResult | null; // for a confidence band on the optimal interval
+    confidence?: number;
+}
+
+export type AgeReplacementPoint = {
+    time: number;
+    cost: number; // per unit of time
+    availability: number; // 0-1
+};
+
+export interface AgeReplacementResult {
+    objective: AgeReplacementObjective;
+    costCurve: AgeReplacementPoint[];
+    optimalInterval: number;
+    cost: number; // at the optimal interval
+    availability: number; // at the optimal interval
+    hasOptimum: boolean; // false when running to failure is never beaten
+    runToFailure: { cost: number; availability: number };
+    intervalBounds: BoundedEstimate | null;
+}
+
+export type BlockReplacementPoint = AgeReplacementPoint & { expectedFailures: number };
+
+export interface BlockReplacementResult {
+    objective: AgeReplacementObjective;
+    costCurve: BlockReplacementPoint[];
+    optimalInterval: number;
+    cost: number;
+    availability: number;
+    expectedFailures: number; // per block interval, from the renewal function
+    hasOptimum: boolean;
+}
+
+export interface OpportunisticReplacementInput extends Omit<AgeReplacementInput, 'objective' | 'fisher' | 'confidence'> {
+    age: number; // current age of the component
+    nextStop: number; // time until its next planned replacement
+    opportunityCost: number; // of replacing during the other asset's stop, without extra downtime
+    costRate: number; // long-run cost per unit of time of the current policy
+}
+
+export interface OpportunisticReplacementResult {
+    replace: boolean;
+    keepCost: number; // against the long-run cost rate of the policy
+    replaceCost: number; // opportunity cost plus the keeping cost of a new item
+    conditionalFailureProbability: number; // before the next planned stop
+    breakEvenAge: number | null; // youngest age worth replacing at an opportunity
+    curve: { age: number; keepCost: number }[];
+}
+
+// Failure-Finding Interval
+export interface FailureFindingInput {
+    distribution: Distribution; // of the protective device; Exponential for a plain MTBF
+    params: Parameters;
+    demandRate: number; // demands on the protected function per year
+    tolerableProbability: number; // tolerable multiple failures per year
+}
+
+export interface FailureFindingResult {
+    allowedUnavailability: number;
+    mtbf: number;
+    exactInterval: number;
+    approximateInterval: number; // 2·U·MTBF
+    approximateUnavailability: number; // actual U at the approximate interval
+    curve: { interval: number; unavailability: number }[];
+}
+
+// P-F Interval Planning
+export interface PFFailureMode {
+    id: string;
+    name: string;
+    pfInterval: number; // from detectable potential failure to functional failure
+    detectionProbability: number; // per inspection, 0-1
+    inspectionCost: number;
+    consequenceCost: number; // of a functional failure that was not detected
+    mtbf: number; // of this failure mode
+}
+
+export interface PFInspectionPlan {
+    inspectionInterval: number;
+    netPFInterval: number; // time left to act after a detection, in the worst case
+    detectionProbability: number; // over the whole P-F window
+    inspectionsInWindow: number;
+    costRate: number; // per unit of time, at the recommended interval
+    noInspectionCostRate: number;
+    worthwhile: boolean;
+    curve: { interval: number; cost: number }[];
+}
+
+// RCM Worksheet (SAE JA1011)
+export type RcmConsequence = 'hidden' | 'safety' | 'environmental' | 'operational' | 'nonOperational';
+
+export type RcmTaskType = 'onCondition' | 'scheduledRestoration' | 'scheduledDiscard' | 'failureFinding' | 'redesign' | 'runToFailure';
+
+// Decision-logic questions, in the order they can be asked
+export type RcmQuestion =
+    | 'evident' | 'safety' | 'environmental' | 'operational'
+    | 'onCondition' | 'scheduledRestoration' | 'scheduledDiscard' | 'failureFinding' | 'multipleFailureSafety';
+
+export interface RcmFailureMode {
+    id: string;
+    description: string;
+    effect: string;
+    answers: Partial<Record<RcmQuestion, boolean>>;
+    // Task inputs not available from the asset's fitted model
+    pfInterval?: number;
+    detectionProbability?: number;
+    inspectionCost?: number;
+    demandRate?: number;
+    tolerableProbability?: number;
+}
+
+export interface RcmFunctionalFailure {
+    id: string;
+    description: string;
+    failureModes: RcmFailureMode[];
+}
+
+export interface RcmFunction {
+    id: string;
+    description: string;
+    functionalFailures: RcmFunctionalFailure[];
+}
+
+export type RcmDecision = {
+    consequence: RcmConsequence | null;
+    task: RcmTaskType | null;
+    path: RcmQuestion[]; // questions answered on the way to the decision
+    nextQuestion: RcmQuestion | null; // first unanswered question, null once decided
+};
+
 // Competing Failure Modes
 export interface CompetingFailureMode {
     name: string;
@@ -276,10 +774,13 @@ export interface AssetData {
   mttr: number;
   events?: LogEvent[];
   
-  // Parameters for reliability analysis
+  // Parameters for reliability analysis. `params` holds every parameter of the fitted
+  // distribution; the flat fields below only cover the Weibull, (Log)normal and Exponential
   distribution?: Distribution;
+  params?: Parameters;
   beta?: number;
   eta?: number;
+  gamma?: number;
   mean?: number;
   stdDev?: number;
   lambda?: number;
@@ -290,4 +791,6 @@ export interface AssetData {
   downtimeCostPerHour?: number;
   units?: string;
   analysisState?: 'ok' | 'insufficient_data' | 'error';
+  trend?: TrendAnalysis; // trend tests on the event sequence, run before the distribution fit
+  rcmWorksheet?: RcmFunction[];
 }